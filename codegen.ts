@@ -0,0 +1,24 @@
+import type { CodegenConfig } from '@graphql-codegen/cli';
+
+const LOCAL_SCHEMA = 'lib/badge-api/schema.graphql';
+// set to the live endpoint to validate against it and refresh the local schema
+const remoteSchema = process.env.BADGE_API_SCHEMA;
+
+const config: CodegenConfig = {
+  schema: remoteSchema ?? LOCAL_SCHEMA,
+  documents: 'lib/badge-api/documents.graphql',
+  generates: {
+    'lib/badge-api/generated.ts': {
+      plugins: ['typescript', 'typescript-operations', 'typed-document-node'],
+      config: {
+        avoidOptionals: true,
+        enumsAsTypes: true,
+        onlyOperationTypes: true,
+        skipTypename: true,
+      },
+    },
+    ...(remoteSchema ? { [LOCAL_SCHEMA]: { plugins: ['schema-ast'] } } : {}),
+  },
+};
+
+export default config;
@@ -55,7 +55,7 @@ export default function MulticastMask() {
       }
       const signature = await signMessageAsync();
       const res = await mutateAsync({ walletAddress: address, signature });
-      if (res.data) {
+      if (res.ok && res.data) {
         setMulticastCard(false);
         setSignBind(true);
       }
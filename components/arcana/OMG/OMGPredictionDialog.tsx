@@ -5,7 +5,10 @@ import { toast } from 'react-toastify';
 import Message from '../../message';
 import React from 'react';
 import { useSetRecoilState } from 'recoil';
+import { useAccount } from 'wagmi';
 import { arcanaPredictionOMGAnswerAtom } from '../../../store/arcana/state';
+import { PredictionRound, savePredictionDraft } from '@/utils/predictionDrafts';
+import { useTranslation } from '@/hooks/useTranslation';
 
 type OMGPredictionDialogProps = {
   open: boolean;
@@ -17,11 +20,13 @@ type OMGPredictionDialogProps = {
 };
 
 export default function OMGPredictionDialog({ open, code, onOpenChange, title, subTitle, options }: OMGPredictionDialogProps) {
+  const { t } = useTranslation();
+  const { address } = useAccount();
   const setPredictionAnswer = useSetRecoilState(arcanaPredictionOMGAnswerAtom);
   const onSelect = (item: PredictionOption) => {
     if (!code) return;
     if (item.id !== 1) {
-      toast.error(<Message message="Go wash your face and choose again" title="Ah shit, here we go again" />);
+      toast.error(<Message message={t('toast.chooseAgain')} title={t('toast.errorTitle')} />);
       return;
     }
     setPredictionAnswer((answers) => {
@@ -30,6 +35,7 @@ export default function OMGPredictionDialog({ open, code, onOpenChange, title, s
         return answer;
       });
     });
+    if (address) savePredictionDraft(address, PredictionRound.OMG, code, [item]);
     onOpenChange?.(false);
   };
 
@@ -6,12 +6,14 @@ import OMGTopVotes from './OMGTopVotes';
 import OMGLuckyDraw from './OMGLuckyDraw';
 import { useIsMounted } from '../../../hooks/useIsMounted';
 import { useArcanaPredictionsOMG } from '../../../hooks/arcana';
-import { arcanaOriginAddressAtom, arcanaPredictionOMGAnswerAtom } from '../../../store/arcana/state';
+import { arcanaObserverAtom, arcanaOriginAddressAtom, arcanaPredictionOMGAnswerAtom } from '../../../store/arcana/state';
+import { PredictionRound, applyPredictionDrafts, getPredictionDrafts } from '@/utils/predictionDrafts';
 
 export default function OMG() {
   const { address } = useAccount();
   const isMounted = useIsMounted();
   const originAddress = useRecoilValue(arcanaOriginAddressAtom);
+  const isObserver = useRecoilValue(arcanaObserverAtom);
   const { data } = useArcanaPredictionsOMG(originAddress ?? address);
   const setPredictionAnswer = useSetRecoilState(arcanaPredictionOMGAnswerAtom);
 
@@ -23,8 +25,9 @@ export default function OMG() {
   useEffect(() => {
     if (!data) return;
     const answers = data.map((item) => ({ predictionCode: item.predictionCode, answer: item.answer }));
-    setPredictionAnswer(answers);
-  }, [data, setPredictionAnswer]);
+    const drafts = address && !isObserver ? getPredictionDrafts(address, PredictionRound.OMG) : {};
+    setPredictionAnswer(applyPredictionDrafts(answers, drafts));
+  }, [address, data, isObserver, setPredictionAnswer]);
 
   if (!isMounted) return null;
 
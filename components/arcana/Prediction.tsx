@@ -1,8 +1,9 @@
-import { useEffect } from 'react';
-import ReactGA from 'react-ga4';
+import { useEffect, useState } from 'react';
 import { useAccount } from 'wagmi';
-import { useRecoilValue, useSetRecoilState } from 'recoil';
+import { useRecoilState, useRecoilValue, useSetRecoilState } from 'recoil';
 import PredictionItem from './PredictionItem';
+import Dialog from '../dialog';
+import PredictionReviewDialog from './PredictionReviewDialog';
 import { zeroAddress } from 'viem';
 import { referralCodeAtom } from '../../store/invite/state';
 import {
@@ -10,34 +11,42 @@ import {
   arcanaOriginAddressAtom,
   arcanaPredictionAnswerAtom,
   arcanaPredictionCountAtom,
+  arcanaUnSubmitAtom,
 } from '../../store/arcana/state';
 import { useArcanaPredictions } from '../../hooks/arcana';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
+import { useTranslation } from '@/hooks/useTranslation';
+import { PredictionRound, applyPredictionDrafts, getPredictionDrafts } from '@/utils/predictionDrafts';
 
 export default function Prediction() {
+  const { t } = useTranslation();
   const isObserver = useRecoilValue(arcanaObserverAtom);
   const { address } = useAccount();
   const referralCode = useRecoilValue(referralCodeAtom);
   const originAddress = useRecoilValue(arcanaOriginAddressAtom);
   const setPredictionCount = useSetRecoilState(arcanaPredictionCountAtom);
-  const setPredictionAnswer = useSetRecoilState(arcanaPredictionAnswerAtom);
+  const [predictionAnswer, setPredictionAnswer] = useRecoilState(arcanaPredictionAnswerAtom);
+  const [unSubmit, setUnSubmit] = useRecoilState(arcanaUnSubmitAtom);
+  const [reviewDialog, setReviewDialog] = useState(false);
   const { data } = useArcanaPredictions(originAddress ?? address ?? zeroAddress);
 
   useEffect(() => {
     if (!data) return;
     const answers = data.map((item) => ({ predictionCode: item.predictionCode, answer: item.answer }));
-    setPredictionAnswer(answers);
+    // drafts only belong to the connected wallet, not to the address it observes
+    const drafts = address && !isObserver ? getPredictionDrafts(address, PredictionRound.TI11) : {};
+    setPredictionAnswer(applyPredictionDrafts(answers, drafts));
+    setUnSubmit(Object.keys(drafts).length > 0);
     setPredictionCount(data.length);
-  }, [data, setPredictionAnswer, setPredictionCount]);
+  }, [address, data, isObserver, setPredictionAnswer, setPredictionCount, setUnSubmit]);
 
   const onShareTwitter = () => {
     if (!address || !referralCode) return;
-    ReactGA.event({ action: 'Arcana-Info', category: 'Click', label: 'Share' });
+    track(EventName.ArcanaInfo, 'Share');
     const referralLink = window.location.origin + `/arcana/${address}?code=${referralCode}`;
     const url = encodeURIComponent(referralLink);
-    const text = encodeURIComponent(
-      'Join P12 Arcana @ TI11 tune into the Great Web3 Gaming Event Featuring #Dota2\n' +
-        'Make your pick to unlock the awesome prize pool sponsored by @_p12_ & great partners!',
-    );
+    const text = encodeURIComponent(t('referral.predictionTweet'));
     window.open('https://twitter.com/intent/tweet?text=' + text + '&url=' + url, '_blank');
   };
 
@@ -45,26 +54,47 @@ export default function Prediction() {
     <div className="px-[30px] xs:px-4">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-[26px] font-medium leading-[30px]">Tips & Predictions</h2>
-          <p className="text-xs leading-5">More Votes, More Bounties!</p>
+          <h2 className="text-[26px] font-medium leading-[30px]">{t('prediction.title')}</h2>
+          <p className="text-xs leading-5">{t('prediction.subtitle')}</p>
         </div>
         {!isObserver && (
-          <button
-            onClick={onShareTwitter}
-            className="dota__button flex items-center justify-center px-8 py-[11px] md:px-3 md:py-1.5"
-          >
-            <span className="dota__yellow mr-1 pl-1 leading-5">Share</span>
-            <img width={20} src="/img/arcana/twitter_gold.svg" alt="twitter" />
-          </button>
+          <div className="flex gap-3">
+            {unSubmit && (
+              <button
+                onClick={() => setReviewDialog(true)}
+                className="dota__button flex items-center justify-center px-8 py-[11px] md:px-3 md:py-1.5"
+              >
+                <span className="dota__yellow leading-5">{t('predictionReview.open')}</span>
+              </button>
+            )}
+            <button
+              onClick={onShareTwitter}
+              className="dota__button flex items-center justify-center px-8 py-[11px] md:px-3 md:py-1.5"
+            >
+              <span className="dota__yellow mr-1 pl-1 leading-5">{t('prediction.share')}</span>
+              <img width={20} src="/img/arcana/twitter_gold.svg" alt="twitter" />
+            </button>
+          </div>
         )}
       </div>
       <div className="mt-6 grid grid-cols-2 gap-4 xl:grid-cols-3 xl:gap-6 2xl:grid-cols-3 2xl:gap-8 xs:grid-cols-1">
         {data
-          ? data.map((item) => <PredictionItem key={item.predictionCode} data={item} />)
+          ? data.map((item) => (
+              <PredictionItem
+                key={item.predictionCode}
+                data={item}
+                answer={predictionAnswer.find((answer) => answer.predictionCode === item.predictionCode)}
+              />
+            ))
           : Array(6)
               .fill(undefined)
               .map((item, index) => <PredictionItem key={index} data={item} />)}
       </div>
+      <Dialog
+        open={reviewDialog}
+        onOpenChange={(op) => setReviewDialog(op)}
+        render={({ close }) => <PredictionReviewDialog predictions={data ?? []} close={close} />}
+      />
     </div>
   );
 }
@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { useCopyToClipboard } from 'react-use';
+import { RecoilRoot } from 'recoil';
+import Button from '../button';
+import Message from '../message';
+import PredictionItem from './PredictionItem';
+import PredictionItemDialog, { PREDICTION_TYPE } from './PredictionItemDialog';
+import { PredictionItemData } from '@/lib/types';
+import { arcanaObserverAtom } from '@/store/arcana/state';
+import { downloadFile } from '@/utils';
+import { createPredictionTemplate, parsePredictionSet } from '@/utils/predictionAuthoring';
+import { getOptionLabel, getPickCount } from '@/utils/predictionScoring';
+
+const PREDICTION_TYPES = Object.values(PREDICTION_TYPE);
+
+const stringify = (predictions: PredictionItemData[]) => JSON.stringify(predictions, null, 2);
+
+/**
+ * a prediction set edited as json, checked against PredictionItemData and previewed with the arcana components
+ */
+export default function PredictionAuthoring() {
+  const [json, setJson] = useState(() =>
+    stringify(PREDICTION_TYPES.map((type) => createPredictionTemplate(type, `new_${type}`))),
+  );
+  const [selected, setSelected] = useState(0);
+  const [pickId, setPickId] = useState<number>();
+  const [layout, setLayout] = useState<PREDICTION_TYPE>();
+  const [preview, setPreview] = useState<PredictionItemData[]>([]);
+  const [, copyToClipboard] = useCopyToClipboard();
+  const { predictions, issues } = useMemo(() => parsePredictionSet(json), [json]);
+
+  // the preview keeps the last valid set while the json is being edited
+  useEffect(() => {
+    if (predictions) setPreview(predictions);
+  }, [predictions]);
+
+  const current = preview[Math.min(selected, preview.length - 1)];
+  const pick = current?.optionList.find((option) => option.id === pickId);
+  // ranked predictions rank the picked option first, then the others in list order
+  const picks =
+    current && pick
+      ? [pick, ...current.optionList.filter((option) => option.id !== pick.id)].slice(0, getPickCount(current))
+      : undefined;
+
+  const addPrediction = (type: PREDICTION_TYPE) => {
+    if (!predictions) return;
+    const codes = predictions.map((item) => item.predictionCode);
+    let index = predictions.length + 1;
+    while (codes.includes(`new_${type}_${index}`)) index++;
+    setJson(stringify([...predictions, createPredictionTemplate(type, `new_${type}_${index}`)]));
+    setSelected(predictions.length);
+  };
+
+  const onExport = () => {
+    if (!predictions) return;
+    downloadFile(stringify(predictions), 'predictions.json', 'application/json');
+  };
+
+  const onCopy = () => {
+    if (!predictions) return;
+    copyToClipboard(stringify(predictions));
+    toast.success(<Message message="Copied to clipboard" title="Prediction set" />);
+  };
+
+  return (
+    <div className="flex gap-8 md:flex-col">
+      <div className="flex-1">
+        <div className="flex flex-wrap items-center gap-2">
+          {PREDICTION_TYPES.map((type) => (
+            <Button
+              key={type}
+              type="bordered"
+              size="small"
+              className="px-3"
+              disabled={!predictions}
+              onClick={() => addPrediction(type)}
+            >
+              + {type}
+            </Button>
+          ))}
+          <Button type="bordered" size="small" className="ml-auto px-3" disabled={!predictions} onClick={onCopy}>
+            Copy
+          </Button>
+          <Button type="gradient" size="small" className="px-3" disabled={!predictions} onClick={onExport}>
+            Export JSON
+          </Button>
+        </div>
+        <textarea
+          value={json}
+          spellCheck={false}
+          onChange={(e) => setJson(e.target.value)}
+          className="vertical-scroll mt-4 h-[640px] w-full resize-none rounded-lg bg-white/[0.12] p-3 font-mono text-xs/5 backdrop-blur-lg"
+        />
+        {issues.length > 0 ? (
+          <div className="mt-3 text-xs text-red">
+            {issues.map((issue, index) => (
+              <p key={index}>
+                <span className="font-mono">{issue.path}</span> {issue.message}
+              </p>
+            ))}
+          </div>
+        ) : (
+          <p className="mt-3 text-xs text-green">{predictions?.length} predictions, no issues.</p>
+        )}
+      </div>
+      <div className="w-[420px] flex-none md:w-full">
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <select
+            className="h-9 rounded-lg bg-[#494E69]/60 px-3 text-sm outline-none"
+            value={selected}
+            onChange={(e) => {
+              setSelected(Number(e.target.value));
+              setPickId(undefined);
+            }}
+          >
+            {preview.map((item, index) => (
+              <option key={index} value={index}>
+                {item.predictionCode}
+              </option>
+            ))}
+          </select>
+          <select
+            className="h-9 rounded-lg bg-[#494E69]/60 px-3 text-sm outline-none"
+            value={pickId ?? ''}
+            onChange={(e) => setPickId(e.target.value ? Number(e.target.value) : undefined)}
+          >
+            <option value="">No pick</option>
+            {current?.optionList.map((option) => (
+              <option key={option.id} value={option.id}>
+                Pick {getOptionLabel(option)}
+              </option>
+            ))}
+          </select>
+        </div>
+        {/* an observer store of its own, so picks in the preview never reach the real answers or drafts */}
+        <RecoilRoot initializeState={({ set }) => set(arcanaObserverAtom, true)}>
+          <div className="mt-4">
+            {current && <PredictionItem data={current} answer={{ predictionCode: current.predictionCode, answer: picks }} />}
+          </div>
+          <p className="mt-6 text-sm font-medium">Dialog layouts</p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {PREDICTION_TYPES.map((type) => (
+              <Button
+                key={type}
+                type="bordered"
+                size="small"
+                className="px-3"
+                disabled={!current}
+                onClick={() => setLayout(type)}
+              >
+                {type === current?.optionType ? `${type} (current)` : type}
+              </Button>
+            ))}
+          </div>
+          <PredictionItemDialog
+            open={!!layout}
+            onOpenChange={(op) => !op && setLayout(undefined)}
+            type={layout}
+            title={current?.predictionTitle}
+            subTitle={current?.predictionFull}
+            options={current?.optionList}
+            pickCount={current?.pickCount}
+          />
+        </RecoilRoot>
+      </div>
+    </div>
+  );
+}
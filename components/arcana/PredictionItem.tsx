@@ -1,7 +1,10 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import classNames from 'classnames';
-import { PredictionItemData } from '../../lib/types';
-import { PredictionAnswer } from '../../store/arcana/state';
+import { useRecoilValue } from 'recoil';
+import PredictionItemDialog from './PredictionItemDialog';
+import { PredictionItemData, PredictionOption } from '../../lib/types';
+import { PredictionAnswer, arcanaObserverAtom } from '../../store/arcana/state';
+import { getOptionLabel, getPredictionScore } from '@/utils/predictionScoring';
 
 type PredictionItemProps = {
   data?: PredictionItemData;
@@ -9,10 +12,49 @@ type PredictionItemProps = {
   votes?: number;
 };
 
-export default function PredictionItem({ data }: PredictionItemProps) {
+function OptionFace({ option }: { option: PredictionOption }) {
+  // range buckets have no image
+  if (!option.img2) {
+    return (
+      <div className="flex h-full w-full items-center justify-center bg-black/60 px-2 text-center font-ddin text-[32px] font-bold leading-9">
+        {getOptionLabel(option)}
+      </div>
+    );
+  }
+  return <img loading="lazy" className="h-full w-full object-cover" src={option.img2} alt="select" />;
+}
+
+function OptionName({ options }: { options: PredictionOption[] }) {
+  // ranked picks in order
+  if (options.length > 1) {
+    return (
+      <div className="max-w-[158px] truncate text-xs font-medium leading-4" title={options.map(getOptionLabel).join(' › ')}>
+        {options.map((option, index) => `${index + 1}. ${getOptionLabel(option)}`).join(' ')}
+      </div>
+    );
+  }
+  return (
+    <>
+      <div className="font-medium leading-4">{options[0]?.team}</div>
+      <div className="font-medium leading-4">{options[0]?.name}</div>
+    </>
+  );
+}
+
+export default function PredictionItem({ data, answer: draft }: PredictionItemProps) {
+  const isObserver = useRecoilValue(arcanaObserverAtom);
+  const [pickDialog, setPickDialog] = useState(false);
   const correctAnswer = useMemo(() => data && data.correctAnswer[0], [data]);
-  const answer = useMemo(() => data && data.answer?.[0], [data]);
-  const isHit = useMemo(() => answer && data && data.correctAnswer.some((item) => item.id === answer.id), [data, answer]);
+  // the draft picks of the wallet, or the submitted ones
+  const picks = useMemo(() => (draft ? draft.answer : data?.answer) ?? [], [data, draft]);
+  const answer = picks[0];
+  // scored by useArcanaPredictions, authored predictions are scored here
+  const score = useMemo(() => data && (data.score ?? getPredictionScore({ ...data, answer: picks })), [data, picks]);
+  const isHit = score === 1;
+  const isPartial = !!score && score < 1;
+  // still taking picks
+  const isOpen = !!data && !data.correctAnswer.length && data.endDate > Date.now();
+  const canPick = isOpen && !isObserver && !data?.ifLock;
 
   return (
     <div className="relative">
@@ -41,34 +83,46 @@ export default function PredictionItem({ data }: PredictionItemProps) {
                 <div
                   className={classNames(
                     'text-center text-sm font-medium leading-4',
-                    isHit ? 'text-[#1EDB8C]' : 'text-[#FF2358]',
+                    isOpen || isPartial ? 'text-yellow' : isHit ? 'text-[#1EDB8C]' : 'text-[#FF2358]',
                   )}
                 >
-                  {isHit ? 'Hit' : 'Pity'}
+                  {isOpen ? 'Your Pick' : isHit ? 'Hit' : isPartial ? `Partial ${Math.round(score * 100)}%` : 'Pity'}
                 </div>
-                <div className="relative mt-2 h-[140px] w-[140px] overflow-hidden rounded-lg 2xl:h-[158px] 2xl:w-[158px]">
-                  {isHit ? (
-                    <img className="absolute left-1.5 top-1.5 z-20" src="/svg/arcana_hit.svg" alt="arcana_hit" />
-                  ) : (
-                    <img className="absolute left-1.5 top-1.5 z-20" src="/svg/arcana_pity.svg" alt="arcana_pity" />
+                <div
+                  className={classNames(
+                    'relative mt-2 h-[140px] w-[140px] overflow-hidden rounded-lg 2xl:h-[158px] 2xl:w-[158px]',
+                    canPick && 'cursor-pointer hover:opacity-80',
+                  )}
+                  onClick={() => canPick && setPickDialog(true)}
+                >
+                  {!isOpen && (
+                    <>
+                      {isHit || isPartial ? (
+                        <img className="absolute left-1.5 top-1.5 z-20" src="/svg/arcana_hit.svg" alt="arcana_hit" />
+                      ) : (
+                        <img className="absolute left-1.5 top-1.5 z-20" src="/svg/arcana_pity.svg" alt="arcana_pity" />
+                      )}
+                      <div
+                        className={classNames(
+                          'absolute left-0 top-0 z-10 h-full w-full',
+                          isHit || isPartial ? 'arcana__hit' : 'arcana__pity',
+                        )}
+                      />
+                    </>
                   )}
-                  <div
-                    className={classNames('absolute left-0 top-0 z-10 h-full w-full', isHit ? 'arcana__hit' : 'arcana__pity')}
-                  />
                   {answer ? (
                     <div className="flex h-full w-full items-center justify-center text-[82px] font-medium">
-                      <img loading="lazy" className="h-full w-full object-cover" src={answer.img2} alt="select" />
+                      <OptionFace option={answer} />
                     </div>
                   ) : (
                     <div className="flex h-full w-full flex-col items-center justify-center bg-black/60 font-medium">
                       <p className="text-[82px] leading-[82px]">?</p>
-                      <p className="text-sm">Missed Reward</p>
+                      <p className="text-sm">{isOpen ? 'Make a Pick' : 'Missed Reward'}</p>
                     </div>
                   )}
                 </div>
                 <div className="mt-3 flex h-[32px] flex-col items-center">
-                  <div className="font-medium leading-4">{answer?.team}</div>
-                  <div className="font-medium leading-4">{answer?.name}</div>
+                  <OptionName options={picks} />
                 </div>
               </div>
               <div>
@@ -76,7 +130,7 @@ export default function PredictionItem({ data }: PredictionItemProps) {
                 <div className="mt-2 h-[140px] w-[140px] overflow-hidden rounded-lg 2xl:h-[158px] 2xl:w-[158px]">
                   <div className="flex h-full w-full items-center justify-center text-[82px] font-medium">
                     {correctAnswer ? (
-                      <img loading="lazy" className="h-full w-full object-cover" src={correctAnswer.img2} alt="select" />
+                      <OptionFace option={correctAnswer} />
                     ) : (
                       <div className="flex h-full w-full flex-col items-center justify-center bg-black/60 font-medium">
                         <p className="text-[82px] leading-[82px]">?</p>
@@ -85,8 +139,7 @@ export default function PredictionItem({ data }: PredictionItemProps) {
                   </div>
                 </div>
                 <div className="mt-3 flex h-[32px] flex-col items-center">
-                  <div className="font-medium leading-4">{correctAnswer?.team}</div>
-                  <div className="font-medium leading-4">{correctAnswer?.name}</div>
+                  <OptionName options={data?.correctAnswer ?? []} />
                 </div>
               </div>
             </div>
@@ -110,6 +163,18 @@ export default function PredictionItem({ data }: PredictionItemProps) {
           </div>
         </div>
       </div>
+      {data && canPick && (
+        <PredictionItemDialog
+          open={pickDialog}
+          onOpenChange={setPickDialog}
+          code={data.predictionCode}
+          type={data.optionType}
+          title={data.predictionTitle}
+          subTitle={data.predictionFull}
+          options={data.optionList}
+          pickCount={data.pickCount}
+        />
+      )}
     </div>
   );
 }
@@ -1,15 +1,23 @@
 import { useEffect, useState } from 'react';
 import { useSetRecoilState } from 'recoil';
+import { useAccount } from 'wagmi';
 import Image from 'next/image';
+import Button from '../button';
 import Dialog from '../dialog';
 import { HERO_ATTRIBUTE, PredictionOption } from '../../lib/types';
 import { arcanaPredictionAnswerAtom, arcanaUnSubmitAtom } from '../../store/arcana/state';
+import { PredictionRound, savePredictionDraft } from '@/utils/predictionDrafts';
+import { DEFAULT_PICK_COUNT, getOptionLabel } from '@/utils/predictionScoring';
 
 export enum PREDICTION_TYPE {
   TEAM = 'team',
   PLAYER = 'player',
   HERO = 'hero',
   CARD = 'card',
+  // numeric buckets, e.g. total kills
+  RANGE = 'range',
+  // several options in order, e.g. the top 3 teams
+  RANKED = 'ranked',
 }
 
 type PredictionItemDialogProps = {
@@ -20,6 +28,8 @@ type PredictionItemDialogProps = {
   title?: string;
   subTitle?: string;
   options?: PredictionOption[];
+  // options to rank in ranked predictions
+  pickCount?: number;
 };
 
 type OptionListProps = {
@@ -142,6 +152,75 @@ function CardOptionList({ options, onSelect }: OptionListProps) {
   );
 }
 
+function RangeOptionList({ options, onSelect }: OptionListProps) {
+  return (
+    <div className="grid grid-cols-4 gap-4">
+      {options &&
+        options.map((item) => (
+          <div
+            key={item.id}
+            onClick={() => onSelect(item)}
+            className="flex h-[72px] cursor-pointer items-center justify-center rounded-lg bg-[#1F2028]/60 font-ddin text-2xl font-bold hover:bg-[#FFFFFF]/10"
+          >
+            {getOptionLabel(item)}
+          </div>
+        ))}
+    </div>
+  );
+}
+
+function RankedOptionList({
+  options,
+  pickCount,
+  onConfirm,
+}: {
+  options?: PredictionOption[];
+  pickCount: number;
+  onConfirm: (picks: PredictionOption[]) => void;
+}) {
+  const [picks, setPicks] = useState<PredictionOption[]>([]);
+
+  const onToggle = (item: PredictionOption) =>
+    setPicks((picks) => {
+      if (picks.some((pick) => pick.id === item.id)) return picks.filter((pick) => pick.id !== item.id);
+      return picks.length < pickCount ? [...picks, item] : picks;
+    });
+
+  return (
+    <div>
+      <div className="grid grid-cols-5 gap-5">
+        {options &&
+          options.map((item) => {
+            const rank = picks.findIndex((pick) => pick.id === item.id);
+            return (
+              <div
+                key={item.id}
+                onClick={() => onToggle(item)}
+                className="relative flex cursor-pointer flex-col items-center justify-center rounded-lg bg-[#1F2028]/60 pt-4 hover:bg-[#FFFFFF]/10"
+              >
+                {rank >= 0 && (
+                  <span className="absolute left-2 top-2 flex h-6 w-6 items-center justify-center rounded-full bg-yellow text-sm font-bold text-black">
+                    {rank + 1}
+                  </span>
+                )}
+                <Image loading="lazy" width={96} height={96} src={item.img1} alt="option" />
+                <p className="my-3 mt-2 text-center text-sm font-medium leading-4">{getOptionLabel(item)}</p>
+              </div>
+            );
+          })}
+      </div>
+      <div className="mt-5 flex items-center justify-end gap-4">
+        <p className="text-sm text-gray-400">
+          {picks.length}/{pickCount} picked, click in the order you predict
+        </p>
+        <Button type="gradient" disabled={picks.length !== pickCount} onClick={() => onConfirm(picks)}>
+          Confirm
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export default function PredictionItemDialog({
   code,
   open,
@@ -150,22 +229,27 @@ export default function PredictionItemDialog({
   title,
   subTitle,
   options,
+  pickCount = DEFAULT_PICK_COUNT,
 }: PredictionItemDialogProps) {
+  const { address } = useAccount();
   const setPredictionAnswer = useSetRecoilState(arcanaPredictionAnswerAtom);
   const setUnSubmit = useSetRecoilState(arcanaUnSubmitAtom);
 
-  const onSelect = (item: PredictionOption) => {
+  const onPick = (picks: PredictionOption[]) => {
     if (!code) return;
     setPredictionAnswer((answers) => {
       return answers.map((answer) => {
-        if (answer.predictionCode === code) return { predictionCode: code, answer: [item] };
+        if (answer.predictionCode === code) return { predictionCode: code, answer: picks };
         return answer;
       });
     });
+    if (address) savePredictionDraft(address, PredictionRound.TI11, code, picks);
     onOpenChange?.(false);
     setUnSubmit(true);
   };
 
+  const onSelect = (item: PredictionOption) => onPick([item]);
+
   return (
     <Dialog
       open={open}
@@ -179,6 +263,10 @@ export default function PredictionItemDialog({
               <HeroOptionList onSelect={onSelect} options={options} />
             ) : type === PREDICTION_TYPE.CARD ? (
               <CardOptionList onSelect={onSelect} options={options} />
+            ) : type === PREDICTION_TYPE.RANGE ? (
+              <RangeOptionList onSelect={onSelect} options={options} />
+            ) : type === PREDICTION_TYPE.RANKED ? (
+              <RankedOptionList onConfirm={onPick} options={options} pickCount={pickCount} />
             ) : (
               <PlayerOptionList onSelect={onSelect} options={options} />
             )}
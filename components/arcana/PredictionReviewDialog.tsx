@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+import dayjs from 'dayjs';
+import classNames from 'classnames';
+import { toast } from 'react-toastify';
+import { useAccount, useSignMessage } from 'wagmi';
+import { useRecoilState, useSetRecoilState } from 'recoil';
+import { useQueryClient } from '@tanstack/react-query';
+import Button from '@/components/button';
+import Message from '@/components/message';
+import { useArcanaAnswer } from '@/hooks/arcana';
+import { useTranslation } from '@/hooks/useTranslation';
+import { PredictionItemData, PredictionOption } from '@/lib/types';
+import { PredictionAnswer, arcanaPredictionAnswerAtom, arcanaUnSubmitAtom } from '@/store/arcana/state';
+import { PredictionRound, diffPredictionDrafts, setPredictionDrafts } from '@/utils/predictionDrafts';
+import { getOptionLabel } from '@/utils/predictionScoring';
+import { toastApiError } from '@/utils/toast';
+
+type PredictionReviewDialogProps = {
+  close: () => void;
+  predictions: PredictionItemData[];
+};
+
+function PickLabel({ answer }: { answer?: PredictionOption[] }) {
+  const { t } = useTranslation();
+  if (!answer?.length) return <span className="text-gray-400">{t('predictionReview.none')}</span>;
+  // ranked picks in order
+  return <span>{answer.map(getOptionLabel).join(' › ')}</span>;
+}
+
+// signed by the wallet, one line per submitted prediction
+const getAnswerMessage = (answers: PredictionAnswer[]) =>
+  `Submit P12 Arcana predictions:\n${answers
+    .map((item) => `${item.predictionCode}: ${item.answer?.map((option) => option.id).join(',')}`)
+    .join('\n')}`;
+
+/**
+ * draft picks of the wallet against its submitted answers, the open ones are submitted together or all are discarded
+ */
+export default function PredictionReviewDialog({ close, predictions }: PredictionReviewDialogProps) {
+  const { t } = useTranslation();
+  const { address } = useAccount();
+  const [answers, setAnswers] = useRecoilState(arcanaPredictionAnswerAtom);
+  const setUnSubmit = useSetRecoilState(arcanaUnSubmitAtom);
+  const queryClient = useQueryClient();
+  const { mutateAsync, isLoading } = useArcanaAnswer();
+  const { signMessageAsync } = useSignMessage();
+  const diffs = useMemo(() => diffPredictionDrafts(predictions, answers), [predictions, answers]);
+  const submittable = diffs.filter((diff) => !diff.expired);
+
+  const onSubmit = async () => {
+    if (!address || !submittable.length) return;
+    const final = submittable.map((diff) => ({ predictionCode: diff.prediction.predictionCode, answer: diff.draft }));
+    try {
+      const signature = await signMessageAsync({ message: getAnswerMessage(final) });
+      const result = await mutateAsync({
+        walletAddress: address,
+        ipfsUrl: '',
+        nonce: Date.now(),
+        signature,
+        gasLimit: 0,
+        answers: final,
+      });
+      if (!result.ok) {
+        toastApiError(result.error, t('predictionReview.submitFailed'));
+        return;
+      }
+      // expired drafts can not be submitted any more, they are dropped as well
+      setPredictionDrafts(address, PredictionRound.TI11, {});
+      setUnSubmit(false);
+      await queryClient.invalidateQueries(['arcana_predictions']);
+      toast.success(<Message title={t('common.missionComplete')} message={t('predictionReview.submitDone')} />);
+      close();
+    } catch (e: any) {
+      toast.error(<Message title={t('predictionReview.submitFailed')} message={e?.shortMessage ?? e?.message} />);
+    }
+  };
+
+  // back to the submitted answers
+  const onDiscard = () => {
+    if (!address) return;
+    setPredictionDrafts(address, PredictionRound.TI11, {});
+    setAnswers(predictions.map((item) => ({ predictionCode: item.predictionCode, answer: item.answer })));
+    setUnSubmit(false);
+    close();
+  };
+
+  return (
+    <div className="w-[600px] max-w-[90vw]">
+      <h2 className="text-center text-xl font-medium">{t('predictionReview.title')}</h2>
+      <div className="vertical-scroll mt-6 max-h-[420px] overflow-y-auto">
+        {diffs.length === 0 && <p className="py-8 text-center text-sm text-gray-400">{t('predictionReview.empty')}</p>}
+        {diffs.map(({ prediction, draft, submitted, expired }) => (
+          <div
+            key={prediction.predictionCode}
+            className={classNames('mb-3 rounded-lg bg-[#1F2028]/60 p-4 text-sm', expired && 'opacity-60')}
+          >
+            <div className="flex items-center justify-between gap-4">
+              <p className="font-medium">
+                {prediction.predictionTitle}
+                <span className="ml-2 text-xs font-normal text-gray-400">{prediction.predictionCode}</span>
+              </p>
+              <p className={classNames('flex-none text-xs', expired ? 'text-red' : 'text-gray-400')}>
+                {expired
+                  ? t('predictionReview.ended')
+                  : t('predictionReview.ends', { time: dayjs(prediction.endDate).format('MM/DD HH:mm') })}
+              </p>
+            </div>
+            <div className="mt-2 grid grid-cols-2 gap-4 text-xs">
+              <p>
+                <span className="text-gray-400">{t('predictionReview.submitted')}</span>
+                <PickLabel answer={submitted} />
+              </p>
+              <p>
+                <span className="text-gray-400">{t('predictionReview.draft')}</span>
+                <span className="text-yellow">
+                  <PickLabel answer={draft} />
+                </span>
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-6 flex justify-end gap-4">
+        <Button type="bordered" disabled={!diffs.length} onClick={onDiscard}>
+          {t('predictionReview.discard')}
+        </Button>
+        <Button type="bordered" onClick={close}>
+          {t('predictionReview.keepEditing')}
+        </Button>
+        <Button type="gradient" disabled={!submittable.length} loading={isLoading} onClick={onSubmit}>
+          {t('predictionReview.submit', { count: submittable.length })}
+        </Button>
+      </div>
+    </div>
+  );
+}
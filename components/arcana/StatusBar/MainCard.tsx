@@ -15,6 +15,7 @@ import ReferralVoteDialog from './ReferralVoteDialog';
 import MulticastVoteDialog from './MulticastVoteDialog';
 import { referralCodeAtom } from '@/store/invite/state';
 import { ArcanaUserInfo, ArcanaUserVotes } from '@/lib/types';
+import { useTranslation } from '@/hooks/useTranslation';
 import { GenesisRarity, GAMER_BADGES, ARCANA_CHAIN_ID } from '@/constants';
 import {
   arcanaInviteDialogAtom,
@@ -30,6 +31,7 @@ type MainCardProps = {
 };
 
 export default function MainCard({ data, nftLevel, userInfo }: MainCardProps) {
+  const { t } = useTranslation();
   const { chain } = useNetwork();
   const referralCode = useRecoilValue(referralCodeAtom);
   const predictionAnswers = useRecoilValue(arcanaPredictionAnswerAtom);
@@ -54,7 +56,7 @@ export default function MainCard({ data, nftLevel, userInfo }: MainCardProps) {
   return (
     <div className="relative w-[347px] bg-[url('/img/arcana/statusbar/center.webp')] bg-cover bg-no-repeat px-3 py-1.5 pt-2 md:w-full">
       {data && chain?.id === ARCANA_CHAIN_ID && (
-        <Dialog render={({ close }) => <MulticastVoteDialog close={close} />}>
+        <Dialog render={({ close }) => <MulticastVoteDialog close={close} data={data} />}>
           <div className="absolute -top-[26px] left-[20px] z-20 h-[26px] w-[56px] xs:left-6 xs:-top-[6.4vw] xs:h-[6.4vw] xs:w-[12.8vw]">
             <div className="group relative cursor-pointer overflow-hidden">
               <div className="absolute inset-0 z-10 hidden bg-white/10 group-hover:block"></div>
@@ -131,7 +133,7 @@ export default function MainCard({ data, nftLevel, userInfo }: MainCardProps) {
               className="copy__btn absolute top-[3px] right-0 h-[18px] w-[36px] text-white"
               onClick={() => {
                 copyToClipboard(referralLink);
-                toast.success(<Message message="Copied to clipboard" title="Mission Complete" />);
+                toast.success(<Message message={t('common.copied')} title={t('common.missionComplete')} />);
               }}
             >
               copy
@@ -0,0 +1,120 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import classNames from 'classnames';
+import { useAccount } from 'wagmi';
+import { zeroAddress } from 'viem';
+import { useRecoilValue } from 'recoil';
+import { ArcanaUserVotes } from '@/lib/types';
+import { useArcanaInviteesVotes, useArcanaPredictions } from '@/hooks/arcana';
+import { arcanaOriginAddressAtom, arcanaVoteCountAtom } from '@/store/arcana/state';
+import { useTranslation } from '@/hooks/useTranslation';
+import { digitalFormat } from '@/utils/format';
+import { getOtherWinnerVotes, getVotesPerReferral, getWinnerScenarios, projectPayout } from '@/utils/multicastReward';
+
+/**
+ * projects the payout of the wallet votes on one prediction under several winner-vote scenarios
+ */
+export default function MulticastCalculator({ data }: { data?: ArcanaUserVotes }) {
+  const { t } = useTranslation();
+  const { address } = useAccount();
+  const originAddress = useRecoilValue(arcanaOriginAddressAtom);
+  const voteCount = useRecoilValue(arcanaVoteCountAtom);
+  const { data: predictions } = useArcanaPredictions(originAddress ?? address ?? zeroAddress);
+  const { data: invitees } = useArcanaInviteesVotes(data?.walletAddress);
+  const [code, setCode] = useState<string>();
+  const [useMaxPool, setUseMaxPool] = useState(false);
+  const [otherVotes, setOtherVotes] = useState(0);
+
+  // open predictions first, their payout is still to be decided
+  const options = useMemo(
+    () => (predictions ?? []).slice().sort((a, b) => Number(!!a.correctAnswer.length) - Number(!!b.correctAnswer.length)),
+    [predictions],
+  );
+  const prediction = options.find((item) => item.predictionCode === code) ?? options[0];
+  const currentOtherVotes = prediction ? getOtherWinnerVotes(prediction, voteCount) : 0;
+  const scenarios = useMemo(() => getWinnerScenarios(currentOtherVotes, voteCount), [currentOtherVotes, voteCount]);
+  const votesPerReferral = getVotesPerReferral(data?.votesReferralCurrent ?? 0, invitees);
+
+  useEffect(() => {
+    setOtherVotes(currentOtherVotes);
+  }, [currentOtherVotes]);
+
+  if (!prediction) return null;
+
+  const pool = useMaxPool ? prediction.maxPrice : prediction.currentPrice;
+  const payout = projectPayout(pool, voteCount, otherVotes);
+  const referralGain =
+    votesPerReferral === undefined ? undefined : projectPayout(pool, voteCount + votesPerReferral, otherVotes) - payout;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <select
+          className="h-9 max-w-[260px] rounded-lg bg-[#494E69]/60 px-3 text-sm outline-none"
+          value={prediction.predictionCode}
+          onChange={(e) => setCode(e.target.value)}
+        >
+          {options.map((item) => (
+            <option key={item.predictionCode} value={item.predictionCode}>
+              {item.predictionTitle}
+              {item.correctAnswer.length ? ` (${t('multicast.settled')})` : ''}
+            </option>
+          ))}
+        </select>
+        <label className="flex cursor-pointer items-center gap-1.5 text-xs">
+          <input type="checkbox" checked={useMaxPool} onChange={(e) => setUseMaxPool(e.target.checked)} />
+          {t('multicast.maxPool', { amount: `$${digitalFormat.currency(prediction.maxPrice)}` })}
+        </label>
+      </div>
+      {scenarios.length > 0 && (
+        <div className="mt-4 grid grid-cols-4 gap-3">
+          {scenarios.map((scenario) => (
+            <div
+              key={scenario.label}
+              onClick={() => setOtherVotes(scenario.otherVotes)}
+              className={classNames(
+                'cursor-pointer rounded-lg bg-[#494E69]/40 p-3 text-center hover:bg-[#494E69]/60',
+                scenario.otherVotes === otherVotes && 'ring-1 ring-yellow',
+              )}
+            >
+              <p className="text-xs text-gray-400">{t(scenario.label)}</p>
+              <p className="mt-1 font-ddin text-xl font-bold text-yellow">
+                ${digitalFormat.currency(projectPayout(pool, voteCount, scenario.otherVotes))}
+              </p>
+              <p className="text-xs">{t('multicast.otherVotes', { count: scenario.otherVotes })}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="mt-4 flex items-center gap-3 text-xs">
+        <span className="flex-none">{t('multicast.otherWinnersVotes')}</span>
+        <input
+          type="range"
+          className="flex-1"
+          min={0}
+          max={Math.max(currentOtherVotes * 4, voteCount * 10, 100)}
+          value={otherVotes}
+          onChange={(e) => setOtherVotes(Number(e.target.value))}
+        />
+        <span className="w-12 flex-none text-right">{otherVotes}</span>
+      </div>
+      <p className="mt-4 text-sm">
+        {t('multicast.projection', {
+          votes: voteCount,
+          share: `${voteCount + otherVotes ? Math.round((voteCount / (voteCount + otherVotes)) * 1000) / 10 : 0}%`,
+          pool: `$${digitalFormat.currency(pool)}`,
+        })}{' '}
+        <span className="font-semibold text-yellow">${digitalFormat.currency(payout)}</span>
+      </p>
+      <p className="mt-2 text-sm">
+        {referralGain === undefined ? (
+          t('multicast.noReferral')
+        ) : (
+          <>
+            {t('multicast.referral', { votes: Math.round(votesPerReferral ?? 0) })}{' '}
+            <span className="font-semibold text-yellow">+${digitalFormat.currency(referralGain)}</span>
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -8,12 +8,17 @@ import { useCopyToClipboard } from 'react-use';
 import { toast } from 'react-toastify';
 import Message from '../../message';
 import { arcanaVoteCountAtom } from '../../../store/arcana/state';
+import MulticastCalculator from './MulticastCalculator';
+import { ArcanaUserVotes } from '@/lib/types';
+import { useTranslation } from '@/hooks/useTranslation';
 
 type MulticastVoteDialogProps = {
   close: () => void;
+  data?: ArcanaUserVotes;
 };
 
-export default function MulticastVoteDialog({ close }: MulticastVoteDialogProps) {
+export default function MulticastVoteDialog({ close, data }: MulticastVoteDialogProps) {
+  const { t } = useTranslation();
   const referralCode = useRecoilValue(referralCodeAtom);
   const voteCount = useRecoilValue(arcanaVoteCountAtom);
   const [, copyToClipboard] = useCopyToClipboard();
@@ -67,6 +72,10 @@ export default function MulticastVoteDialog({ close }: MulticastVoteDialogProps)
               </div>
             </div>
           </div>
+          <h4 className="mt-[48px] text-center text-xl font-medium">Calculate Your Reward</h4>
+          <div className="mt-6">
+            <MulticastCalculator data={data} />
+          </div>
           <h4 className="mt-[48px] text-center text-xl font-medium">Get Votes by Referral</h4>
           <div className="mt-6 flex items-center justify-between">
             <div className="flex flex-1 items-center justify-between rounded-full bg-[#494E69]/40 p-1.5">
@@ -76,7 +85,7 @@ export default function MulticastVoteDialog({ close }: MulticastVoteDialogProps)
                 size="small"
                 onClick={() => {
                   copyToClipboard(referralLink);
-                  toast.success(<Message message="Copied to clipboard" title="Mission Complete" />);
+                  toast.success(<Message message={t('common.copied')} title={t('common.missionComplete')} />);
                 }}
               >
                 copy
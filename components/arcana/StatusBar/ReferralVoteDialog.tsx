@@ -12,6 +12,7 @@ import { useArcanaInviteesVotes } from '@/hooks/arcana';
 import { shortenAddress, shortenSteamId } from '@/utils';
 import { createColumnHelper } from '@tanstack/react-table';
 import { ArcanaInviteesVote, ArcanaUserVotes } from '@/lib/types';
+import { useTranslation } from '@/hooks/useTranslation';
 
 type ReferralVoteDialogProps = {
   close: () => void;
@@ -21,6 +22,7 @@ type ReferralVoteDialogProps = {
 const columnHelper = createColumnHelper<ArcanaInviteesVote>();
 
 export default function ReferralVoteDialog({ close, data }: ReferralVoteDialogProps) {
+  const { t } = useTranslation();
   const { data: invitation, isLoading } = useArcanaInviteesVotes(data?.walletAddress);
   const referralCode = useRecoilValue(referralCodeAtom);
   const [, copyToClipboard] = useCopyToClipboard();
@@ -90,7 +92,7 @@ export default function ReferralVoteDialog({ close, data }: ReferralVoteDialogPr
             size="small"
             onClick={() => {
               copyToClipboard(referralLink);
-              toast.success(<Message message="Copied to clipboard" title="Mission Complete" />);
+              toast.success(<Message message={t('common.copied')} title={t('common.missionComplete')} />);
             }}
           >
             copy
@@ -2,6 +2,12 @@ import React, { useMemo } from 'react';
 import Button from '../../button';
 import { ArcanaUserVotes, P12CommunityNft } from '../../../lib/types';
 import classNames from 'classnames';
+import { BADGE_TARGETS, BadgeTarget } from '@/constants';
+
+// P12 Chain badges counted in the community votes, in catalog order
+const COMMUNITY_VOTE_BADGES = Object.values(BADGE_TARGETS)
+  .map((target) => target.vote)
+  .filter((vote): vote is NonNullable<BadgeTarget['vote']> => !!vote);
 
 type TaskVoteDialogProps = {
   close: () => void;
@@ -10,37 +16,6 @@ type TaskVoteDialogProps = {
 
 export default function TaskVoteDialog({ data, close }: TaskVoteDialogProps) {
   const p12CommunityNft = useMemo<P12CommunityNft>(() => data?.p12CommunityNft || {}, [data]);
-  const communityBadgeList = useMemo<{ key: keyof P12CommunityNft; asset: string; title: string }[]>(
-    () => [
-      {
-        key: 'votesP12BestSupporterPurple',
-        asset: '/img/arcana/statusbar/bs_epic.webp',
-        title: 'B.S EPIC',
-      },
-      {
-        key: 'votesP12DreamWeaver',
-        asset: '/img/arcana/statusbar/bs_dream_weaver.webp',
-        title: 'DREAM WEAVER',
-      },
-      {
-        key: 'votesP12BestSupporterBlue',
-        asset: '/img/arcana/statusbar/bs_rare.webp',
-        title: 'B.S RARE',
-      },
-      {
-        key: 'votesP12BestSupporterGreen',
-        asset: '/img/arcana/statusbar/bs_uncommon.webp',
-        title: 'B.S UNCOMMON',
-      },
-      {
-        key: 'votesWhiteBadge',
-        asset: '/img/arcana/statusbar/bs_common.webp',
-        title: 'B.S COMMON',
-      },
-    ],
-    [],
-  );
-
   return (
     <div className="max-w-[540px]">
       <h2 className="text-center font-medium">Get VOTES by Community</h2>
@@ -49,7 +24,7 @@ export default function TaskVoteDialog({ data, close }: TaskVoteDialogProps) {
       </p>
       <p className="mt-[30px] text-sm font-medium">P12 Community Badge</p>
       <div className="mt-3 flex flex-wrap">
-        {communityBadgeList.map((item) => (
+        {COMMUNITY_VOTE_BADGES.map((item) => (
           <div
             className={classNames('flex w-[108px] flex-col items-center', !p12CommunityNft[item.key] && 'opacity-30')}
             key={item.key}
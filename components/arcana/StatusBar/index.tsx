@@ -1,5 +1,4 @@
 import React, { useEffect, useState } from 'react';
-import ReactGA from 'react-ga4';
 import { useRecoilValue } from 'recoil';
 import InfoCard from './InfoCard';
 import MainCard from './MainCard';
@@ -8,6 +7,8 @@ import SwiperCard from './SwiperCard';
 import { openLink } from '../../../utils';
 import { ArcanaVotes } from '../../../lib/types';
 import { arcanaObserverAtom } from '../../../store/arcana/state';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 
 export default function StatusBar({ data }: { data?: ArcanaVotes }) {
   const [level, setLevel] = useState<number>(30);
@@ -15,7 +16,7 @@ export default function StatusBar({ data }: { data?: ArcanaVotes }) {
   const [easterEggShow, setEasterEggShow] = useState<boolean>(false);
 
   const onLevelClick = () => {
-    ReactGA.event({ action: 'Arcana-Info', category: 'Click', label: 'Easter-Egg' });
+    track(EventName.ArcanaInfo, 'Easter-Egg');
     if (level === 30) return;
     setEasterEggShow(true);
   };
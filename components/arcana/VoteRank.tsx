@@ -1,11 +1,12 @@
 import React, { useMemo, useState } from 'react';
-import ReactGA from 'react-ga4';
 import { isMobile } from 'react-device-detect';
 import { AnimatePresence, motion, wrap } from 'framer-motion';
 import { LeftCircle } from '../svg/LeftCircle';
 import { useArcanaVotesRank } from '../../hooks/arcana';
 import type { VoteRankItem } from '../../lib/types';
 import { openLink } from '../../utils';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 
 const variants = {
   enter: (direction: number) => {
@@ -38,7 +39,7 @@ function VoteRankItem({ index, data }: { index?: number; data?: VoteRankItem })
   }, [index]);
 
   const onOpenPage = () => {
-    ReactGA.event({ action: 'Arcana-Rank', category: 'Click', label: index?.toString() });
+    track(EventName.ArcanaRank, index?.toString());
     const url = window.location.origin + `/arcana/${data?.walletAddress}`;
     openLink(url);
   };
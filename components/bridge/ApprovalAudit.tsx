@@ -0,0 +1,149 @@
+import React from 'react';
+import classNames from 'classnames';
+import { useSetRecoilState } from 'recoil';
+import { useAccount } from 'wagmi';
+import { createColumnHelper } from '@tanstack/react-table';
+import Button from '../button';
+import Table from '../table';
+import ChainIcon from './ChainIcon';
+import { getChainName, getExplorerAddressUrl } from '@/constants/chains';
+import { useOldBridgeApprovals, useRevokeOldApprovals } from '@/hooks/bridge';
+import { useTranslation } from '@/hooks/useTranslation';
+import { MessageKey } from '@/i18n';
+import { isConnectPopoverOpen } from '@/store/web3/state';
+import { shortenAddress } from '@/utils';
+import { OldBridgeApproval, getApprovalKey } from '@/utils/bridgeApprovals';
+import { BridgeStepStatus } from '@/utils/bridgeCart';
+
+const approvalColumnHelper = createColumnHelper<OldBridgeApproval>();
+
+const REVOKE_STATUS: Record<BridgeStepStatus, { text: MessageKey; className: string }> = {
+  [BridgeStepStatus.Waiting]: { text: 'approvalAudit.waiting', className: 'text-gray-400' },
+  [BridgeStepStatus.Running]: { text: 'approvalAudit.revoking', className: 'text-orange' },
+  [BridgeStepStatus.Done]: { text: 'approvalAudit.revoked', className: 'text-green' },
+  [BridgeStepStatus.Failed]: { text: 'approvalAudit.failed', className: 'text-red' },
+};
+
+function AddressLink({ chainId, address }: { chainId: number; address: string }) {
+  const url = getExplorerAddressUrl(chainId, address);
+  return (
+    <span className="cursor-pointer text-blue" onClick={() => url && window.open(url, '__blank')}>
+      {shortenAddress(address)}
+    </span>
+  );
+}
+
+/**
+ * every approval the deprecated bridges hold on the badge contracts of the wallet, revoked one by one
+ */
+export default function ApprovalAudit() {
+  const { t } = useTranslation();
+  const { address } = useAccount();
+  const setConnectOpen = useSetRecoilState(isConnectPopoverOpen);
+  const { data: approvals, contracts, isLoading, isError, refetch } = useOldBridgeApprovals(address);
+  const { statuses, running, revoke } = useRevokeOldApprovals();
+
+  const pending = (approvals ?? []).filter((approval) => statuses[getApprovalKey(approval)] !== BridgeStepStatus.Done);
+
+  const revokeAll = async (list: OldBridgeApproval[]) => {
+    await revoke(list);
+    refetch();
+  };
+
+  const columns = [
+    approvalColumnHelper.accessor('chainId', {
+      header: t('approvalAudit.chain'),
+      size: 100,
+      cell: ({ getValue }) => (
+        <div className="flex h-full items-center gap-1">
+          <ChainIcon chainId={getValue()} className="w-4" />
+          {getChainName(getValue())}
+        </div>
+      ),
+    }),
+    approvalColumnHelper.accessor('contractAddress', {
+      header: t('approvalAudit.contract'),
+      size: 220,
+      cell: ({ getValue, row: { original } }) => (
+        <div className="flex h-full flex-col justify-center">
+          <AddressLink chainId={original.chainId} address={getValue()} />
+          <span className="truncate text-xs text-gray-400" title={original.campaigns.join(', ')}>
+            {original.campaigns.join(', ') || t('approvalAudit.unknown')} ·{' '}
+            {t('approvalAudit.held', { count: original.tokenCount })}
+          </span>
+        </div>
+      ),
+    }),
+    approvalColumnHelper.accessor('operator', {
+      header: t('approvalAudit.operator'),
+      size: 140,
+      cell: ({ getValue, row: { original } }) => (
+        <div className="flex h-full flex-col justify-center">
+          <AddressLink chainId={original.chainId} address={getValue()} />
+          <span className="text-xs text-gray-400">{t('approvalAudit.deprecatedBridge')}</span>
+        </div>
+      ),
+    }),
+    approvalColumnHelper.display({
+      id: 'status',
+      header: t('approvalAudit.status'),
+      size: 100,
+      cell: ({ row: { original } }) => {
+        const status = statuses[getApprovalKey(original)];
+        return status ? (
+          <div className={classNames('flex h-full items-center', REVOKE_STATUS[status].className)}>
+            {t(REVOKE_STATUS[status].text)}
+          </div>
+        ) : (
+          <div className="flex h-full items-center">
+            <Button type="bordered" size="small" className="px-3" disabled={running} onClick={() => revokeAll([original])}>
+              {t('approvalAudit.revoke')}
+            </Button>
+          </div>
+        );
+      },
+    }),
+  ];
+
+  if (!address) {
+    return (
+      <div className="flex flex-col items-center gap-4 py-12">
+        <p className="text-sm text-gray-400">{t('approvalAudit.connect')}</p>
+        <Button type="gradient" onClick={() => setConnectOpen(true)}>
+          {t('approvalAudit.connectWallet')}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <div className="text-base font-semibold">{t('approvalAudit.title')}</div>
+          <p className="mt-1 text-xs text-gray-400">
+            {isError
+              ? t('approvalAudit.readError')
+              : contracts.length === 0
+              ? t('approvalAudit.noBadges')
+              : t(contracts.length > 1 ? 'approvalAudit.checked' : 'approvalAudit.checkedOne', {
+                  count: contracts.length,
+                  chains: Array.from(new Set(contracts.map((contract) => getChainName(contract.chainId)))).join(', '),
+                })}
+          </p>
+        </div>
+        <Button
+          type="gradient"
+          size="small"
+          className="px-4"
+          disabled={!pending.length}
+          loading={running}
+          onClick={() => revokeAll(pending)}
+        >
+          {t('approvalAudit.revokeAll', { count: pending.length })}
+        </Button>
+      </div>
+      <Table loading={isLoading} className="mt-6 max-w-[95vw] overflow-x-auto" dataSource={approvals ?? []} columns={columns} />
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+import React, { useMemo, useState } from 'react';
+import Image from 'next/image';
+import classNames from 'classnames';
+import dayjs from 'dayjs';
+import { uniq } from 'lodash-es';
+import { useSetRecoilState } from 'recoil';
+import { useAccount } from 'wagmi';
+import Button from '../button';
+import ChainIcon from './ChainIcon';
+import BridgeRefundPreview from './BridgeRefundPreview';
+import { GalxeBadge, getBadgeTarget } from '@/constants';
+import { BRIDGE_DESTINATION_CHAIN, getChainName, getExplorerTxUrl } from '@/constants/chains';
+import { EventName } from '@/constants/event';
+import { BridgeFlow, useBadgeTokens } from '@/hooks/bridge';
+import type { BadgeToken } from '@/lib/badge-api';
+import { track } from '@/lib/analytics';
+import { isConnectPopoverOpen } from '@/store/web3/state';
+import { shortenAddress, shortenHash } from '@/utils';
+import { BridgeCartItem, BridgeStep, BridgeStepStatus, getCartItemKey } from '@/utils/bridgeCart';
+import { BridgePhase } from '@/utils/bridgeFlow';
+import { BridgeRefund, isSameRefund } from '@/utils/bridgeRefund';
+import { BridgeTxKind, BridgeTxStatus } from '@/utils/bridgeTxs';
+import { digitalFormat } from '@/utils/format';
+
+const STEP_TITLE: Record<BridgeTxKind, string> = {
+  [BridgeTxKind.Revoke]: 'Revoke deprecated approval',
+  [BridgeTxKind.Approve]: 'Approve',
+  [BridgeTxKind.Bridge]: 'Bridge',
+};
+
+// step status, or the tracked transaction status once a bridge step is sent
+const STEP_STATUS_STYLE: Record<string, string> = {
+  [BridgeStepStatus.Waiting]: 'text-gray-400',
+  [BridgeStepStatus.Running]: 'text-orange',
+  [BridgeStepStatus.Done]: 'text-green',
+  [BridgeStepStatus.Failed]: 'text-red',
+  [BridgeTxStatus.Pending]: 'text-orange',
+  [BridgeTxStatus.Confirmed]: 'text-green',
+  [BridgeTxStatus.Replaced]: 'text-gray-400',
+};
+
+const getTokenKey = (chainId: number, contractAddress: string, tokenId: number) =>
+  `${chainId}_${contractAddress.toLowerCase()}_${tokenId}`;
+
+function RefundResult({ refund, expected }: { refund: BridgeRefund; expected?: BridgeRefund }) {
+  const matched = !expected || isSameRefund(refund, expected);
+  return (
+    <p className={classNames('ml-6 text-xs', matched ? 'text-gray-400' : 'text-orange')}>
+      Refunded {digitalFormat.integer(refund.pl)} PL · ${digitalFormat.currency(refund.usd)}
+      {!matched && `, previewed ${digitalFormat.integer(expected.pl)} PL · $${digitalFormat.currency(expected.usd)}`}
+    </p>
+  );
+}
+
+function CartItem({
+  item,
+  tokens,
+  disabled,
+  onToggleToken,
+  onSetTokens,
+  onRemove,
+}: {
+  item: BridgeCartItem;
+  tokens: Map<string, BadgeToken>;
+  disabled: boolean;
+  onToggleToken: (badge: GalxeBadge, tokenId: number) => void;
+  onSetTokens: (badge: GalxeBadge, tokenIds: number[]) => void;
+  onRemove: (badge: GalxeBadge) => void;
+}) {
+  const { badge, tokenIds } = item;
+  const target = getBadgeTarget(badge.galxeCampaign);
+  const ownedTokenIds = badge.tokenIds ?? [badge.tokenId];
+  const [expanded, setExpanded] = useState(false);
+
+  const toggleToken = (tokenId: number) => {
+    if (disabled) return;
+    track(tokenIds.includes(tokenId) ? EventName.BadgeAmountReduce : EventName.BadgeAmountAdd, badge.galxeCampaign?.stringId);
+    onToggleToken(badge, tokenId);
+  };
+
+  return (
+    <div className="rounded-xl bg-[#494E69]/30 p-2.5">
+      <div className="flex items-center gap-3">
+        <div className="relative h-12 w-12 flex-none">
+          <Image src={badge.image} alt="badge" objectFit="contain" layout="fill" />
+          <ChainIcon chainId={badge.chainId} className="absolute -left-1 -top-1 w-4" />
+        </div>
+        <img width={24} src="/img/bridge/bridge_arrow.webp" alt="bridge_arrow" />
+        <div className="relative h-12 w-12 flex-none">
+          <Image src={target?.asset ?? badge.image} alt="badge" objectFit="contain" layout="fill" loading="lazy" />
+        </div>
+        <div className="min-w-0 flex-1 truncate text-sm font-medium">{target?.name ?? badge.galxeCampaign?.name}</div>
+        <div className="flex-none cursor-pointer text-sm text-blue" onClick={() => setExpanded(!expanded)}>
+          {tokenIds.length}/{ownedTokenIds.length} selected
+        </div>
+        <img
+          className={classNames('h-4 w-4 flex-none opacity-60', disabled ? 'cursor-not-allowed' : 'cursor-pointer')}
+          src="/svg/close.svg"
+          alt="remove"
+          onClick={() => !disabled && onRemove(badge)}
+        />
+      </div>
+      {expanded && (
+        <div className="mt-3">
+          <div className="flex gap-3 text-xs text-gray-400">
+            <span className="cursor-pointer hover:text-white" onClick={() => !disabled && onSetTokens(badge, ownedTokenIds)}>
+              Select all
+            </span>
+            <span className="cursor-pointer hover:text-white" onClick={() => !disabled && onSetTokens(badge, [])}>
+              Clear
+            </span>
+          </div>
+          <div className="mt-2 grid grid-cols-4 gap-2">
+            {ownedTokenIds.map((tokenId) => {
+              const token = tokens.get(getTokenKey(badge.chainId, badge.contractAddress, tokenId));
+              const url = token?.mintTx && getExplorerTxUrl(badge.chainId, token.mintTx);
+              return (
+                <div
+                  key={tokenId}
+                  className={classNames(
+                    'nft-backdrop-box flex flex-col items-center gap-1 rounded p-2 text-xs',
+                    disabled ? 'cursor-not-allowed' : 'cursor-pointer',
+                    { 'border-[#A5A6AB]': tokenIds.includes(tokenId), 'opacity-50': !tokenIds.includes(tokenId) },
+                  )}
+                  onClick={() => toggleToken(tokenId)}
+                >
+                  <div className="relative h-12 w-12">
+                    <Image src={token?.image ?? badge.image} alt="badge" objectFit="contain" layout="fill" />
+                  </div>
+                  <span className="font-medium">#{tokenId}</span>
+                  {token?.mintedAt ? (
+                    <span
+                      className={classNames('text-gray-400', { 'hover:text-blue': url })}
+                      title={token.mintTx ?? undefined}
+                      onClick={(e) => {
+                        if (!url) return;
+                        e.stopPropagation();
+                        window.open(url, '__blank');
+                      }}
+                    >
+                      {dayjs.unix(token.mintedAt).format('YYYY/MM/DD')}
+                    </span>
+                  ) : (
+                    <span className="text-gray-400">--</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * destination chains allowed by the bridges of the cart, the ones a source chain rejects stay listed but disabled
+ */
+function DestinationPicker({ flow, disabled }: { flow: BridgeFlow; disabled: boolean }) {
+  const { dstChainId, setDstChainId, destinations, destinationsByChain } = flow;
+  const options = uniq([
+    BRIDGE_DESTINATION_CHAIN.id,
+    dstChainId,
+    ...Object.values(destinationsByChain).flatMap((allowed) => allowed ?? []),
+  ]);
+  const rejectedBy = (id: number) =>
+    Object.entries(destinationsByChain)
+      .filter(([, allowed]) => allowed && !allowed.includes(id))
+      .map(([chainId]) => getChainName(chainId));
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        TO: <ChainIcon chainId={dstChainId} className="w-[30px]" />
+        <select
+          className="h-9 rounded-lg bg-[#494E69]/60 px-3 text-sm outline-none"
+          value={dstChainId}
+          disabled={disabled}
+          onChange={(e) => {
+            track(EventName.SelectDestination, e.target.value);
+            setDstChainId(Number(e.target.value));
+          }}
+        >
+          {options.map((id) => (
+            <option key={id} value={id} disabled={!!destinations && !destinations.includes(id)}>
+              {getChainName(id)}
+            </option>
+          ))}
+        </select>
+      </div>
+      {destinations && !destinations.includes(dstChainId) && (
+        <p className="mt-2 text-xs text-red">
+          {getChainName(dstChainId)} is not allowed from {rejectedBy(dstChainId).join(', ')}, pick another destination.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function BridgeCart({ flow }: { flow: BridgeFlow }) {
+  const { cart, txs, steps, phase, action } = flow;
+  const { items, batches } = cart;
+  const sending = flow.busy || phase === BridgePhase.Sending;
+  const { address } = useAccount();
+  const setConnectOpen = useSetRecoilState(isConnectPopoverOpen);
+
+  const { data: badgeTokens } = useBadgeTokens(address, items.length > 0);
+  const tokens = useMemo(
+    () =>
+      new Map((badgeTokens ?? []).map((token) => [getTokenKey(token.chainId, token.contractAddress, token.tokenId), token])),
+    [badgeTokens],
+  );
+
+  const badgeCount = items.reduce((sum, { tokenIds }) => sum + tokenIds.length, 0);
+
+  // bridge transactions are followed by BridgeTxWatcher once sent
+  const getStepTx = (step: BridgeStep) =>
+    step.kind === BridgeTxKind.Bridge ? txs.find((tx) => tx.hash === step.hash) : undefined;
+
+  const clear = () => {
+    cart.clear();
+    flow.reset();
+  };
+
+  const getPrimaryLabel = () => {
+    switch (phase) {
+      case BridgePhase.WrongNetwork:
+        return `Switch to ${getChainName(action?.kind === 'switch' ? action.chainId : undefined)}`;
+      case BridgePhase.InvalidDestination:
+        return 'Destination not allowed';
+      case BridgePhase.NeedsRevoke:
+        return STEP_TITLE[BridgeTxKind.Revoke];
+      case BridgePhase.NeedsApproval:
+        return STEP_TITLE[BridgeTxKind.Approve];
+      case BridgePhase.Confirmed:
+        return 'Done';
+      case BridgePhase.Failed:
+        return 'Retry';
+      default:
+        return `Bridge ${badgeCount}`;
+    }
+  };
+
+  const primary = () => {
+    if (phase === BridgePhase.Confirmed) return clear();
+    if (phase === BridgePhase.Failed) return flow.reset();
+    flow.advance();
+  };
+
+  return (
+    <div className="mt-4 flex flex-col">
+      <DestinationPicker flow={flow} disabled={sending} />
+      <div className="mt-4 flex flex-col gap-2">
+        {items.map((item) => (
+          <CartItem
+            key={getCartItemKey(item.badge)}
+            item={item}
+            tokens={tokens}
+            disabled={sending}
+            onToggleToken={cart.toggleToken}
+            onSetTokens={cart.setTokens}
+            onRemove={cart.toggle}
+          />
+        ))}
+      </div>
+      {items.length > 0 && <BridgeRefundPreview items={items} />}
+      {steps.length > 0 ? (
+        <div className="mt-6 flex flex-col gap-2 text-sm">
+          <p className="font-semibold">Progress</p>
+          {steps.map((step, index) => {
+            const tx = getStepTx(step);
+            const status = tx?.status ?? step.status;
+            const url = step.hash && getExplorerTxUrl(step.batch.chainId, step.hash);
+            return (
+              <div key={index}>
+                <div className="flex items-center gap-2">
+                  <ChainIcon chainId={step.batch.chainId} className="w-4" />
+                  <span className="flex-1">
+                    {STEP_TITLE[step.kind]}
+                    {step.kind === BridgeTxKind.Bridge && ` ${step.batch.tokenIds.length} badges`}
+                    <span className="ml-1 text-gray-400">{shortenAddress(step.batch.contractAddress)}</span>
+                  </span>
+                  {step.hash && (
+                    <span className="cursor-pointer text-blue" onClick={() => url && window.open(url, '__blank')}>
+                      {shortenHash(step.hash)}
+                    </span>
+                  )}
+                  <span className={classNames('w-20 text-right capitalize', STEP_STATUS_STYLE[status])}>{status}</span>
+                </div>
+                {tx?.refund && <RefundResult refund={tx.refund} expected={tx.expectedRefund} />}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="mt-6 flex flex-col gap-2 text-sm">
+          <p className="font-semibold">
+            {badgeCount} badges in {batches.length} bridge {batches.length > 1 ? 'transactions' : 'transaction'}
+          </p>
+          {batches.map((batch) => (
+            <div key={`${batch.chainId}_${batch.contractAddress}`} className="flex items-center gap-2 text-gray-400">
+              <ChainIcon chainId={batch.chainId} className="w-4" />
+              <span className="flex-1">
+                {getChainName(batch.chainId)} · {shortenAddress(batch.contractAddress)}
+              </span>
+              <span>{batch.tokenIds.length}</span>
+            </div>
+          ))}
+          <p className="text-xs text-gray-400">Each NFT contract is approved once before its batch is bridged.</p>
+        </div>
+      )}
+      <div className="mt-8">
+        {address ? (
+          <div className="flex gap-5">
+            <Button type="bordered" className="flex-1" onClick={clear} disabled={sending}>
+              Clear
+            </Button>
+            <Button
+              type="gradient"
+              onClick={primary}
+              className="flex-1"
+              disabled={(phase === BridgePhase.Select && !flow.checking) || phase === BridgePhase.InvalidDestination}
+              loading={sending || flow.checking}
+            >
+              {getPrimaryLabel()}
+            </Button>
+          </div>
+        ) : (
+          <Button type="gradient" onClick={() => setConnectOpen(true)} className="w-full">
+            Connect wallet
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import React, { useMemo, useState } from 'react';
+import Image from 'next/image';
+import dayjs from 'dayjs';
+import Pagination from 'rc-pagination';
+import { createColumnHelper } from '@tanstack/react-table';
+import Button from '../button';
+import Table from '../table';
+import ChainIcon from './ChainIcon';
+import { BRIDGE_DESTINATION_CHAIN, BRIDGE_SOURCE_CHAINS, getChainName, getExplorerTxUrl } from '@/constants/chains';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
+import { useTranslation } from '@/hooks/useTranslation';
+import { MessageKey } from '@/i18n';
+import { downloadFile, shortenHash } from '@/utils';
+import {
+  BridgeHistoryFilter,
+  BridgeHistoryRow,
+  filterBridgeHistory,
+  getHistoryCampaigns,
+  toHistoryCsv,
+  toHistoryJson,
+} from '@/utils/bridgeHistory';
+import { BridgeTxStatus } from '@/utils/bridgeTxs';
+
+const PAGE_SIZE = 10;
+
+const historyColumnHelper = createColumnHelper<BridgeHistoryRow>();
+
+const TX_STATUS_STYLE: Record<BridgeTxStatus, string> = {
+  [BridgeTxStatus.Pending]: 'text-orange',
+  [BridgeTxStatus.Confirmed]: 'text-green',
+  [BridgeTxStatus.Failed]: 'text-red',
+  [BridgeTxStatus.Replaced]: 'text-gray-400',
+};
+
+const TX_STATUS_LABEL: Record<BridgeTxStatus, MessageKey> = {
+  [BridgeTxStatus.Pending]: 'bridgeHistory.pending',
+  [BridgeTxStatus.Confirmed]: 'bridgeHistory.confirmed',
+  [BridgeTxStatus.Failed]: 'bridgeHistory.failed',
+  [BridgeTxStatus.Replaced]: 'bridgeHistory.replaced',
+};
+
+const FILTER_INPUT_CLASS = 'h-9 rounded-lg bg-[#494E69]/60 px-3 text-sm outline-none';
+
+function BridgedBadges({ row }: { row: BridgeHistoryRow }) {
+  const { t } = useTranslation();
+  return (
+    <div className="flex flex-wrap gap-3 px-4 pb-4">
+      {row.galxeBadges.map((badge) => (
+        <div key={badge.tokenId} className="flex items-center gap-2 rounded-lg bg-white/[0.04] px-2.5 py-1.5 text-xs">
+          {badge.image && (
+            <div className="relative h-6 w-6">
+              <Image src={badge.image} alt="badge" objectFit="contain" layout="fill" />
+            </div>
+          )}
+          <span>{badge.galxeCampaign?.name ?? t('bridgeHistory.unknown')}</span>
+          <span className="text-gray-400">#{badge.tokenId}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function BridgeHistory({
+  rows,
+  loading,
+  notice,
+}: {
+  rows: BridgeHistoryRow[];
+  loading?: boolean;
+  notice?: string | false;
+}) {
+  const { t } = useTranslation();
+  const [filter, setFilter] = useState<BridgeHistoryFilter>({});
+  const [page, setPage] = useState(1);
+
+  const campaigns = useMemo(() => getHistoryCampaigns(rows), [rows]);
+  const filtered = useMemo(() => filterBridgeHistory(rows, filter), [rows, filter]);
+  const pageRows = useMemo(() => filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE), [filtered, page]);
+
+  const updateFilter = (patch: BridgeHistoryFilter) => {
+    setFilter((prev) => ({ ...prev, ...patch }));
+    setPage(1);
+  };
+
+  const exportHistory = (format: 'csv' | 'json') => {
+    const filename = `bridge-history-${dayjs().format('YYYYMMDD')}.${format}`;
+    if (format === 'csv') {
+      downloadFile(toHistoryCsv(filtered), filename, 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(toHistoryJson(filtered), filename, 'application/json');
+    }
+  };
+
+  const columns = useMemo(
+    () => [
+      historyColumnHelper.accessor('timestamp', {
+        header: t('bridgeHistory.time'),
+        size: 100,
+        cell: ({ getValue }) => (
+          <p className="flex h-full items-center">{dayjs.unix(getValue()).format('YYYY/MM/DD HH:mm:ss')}</p>
+        ),
+      }),
+      historyColumnHelper.accessor('chainId', {
+        header: t('bridgeHistory.from'),
+        size: 100,
+        cell: ({ getValue }) => (
+          <div className="flex h-full items-center gap-1">
+            <ChainIcon chainId={Number(getValue())} className="w-4" />
+            {getChainName(getValue())}
+          </div>
+        ),
+      }),
+      historyColumnHelper.accessor('dstChainId', {
+        header: t('bridgeHistory.to'),
+        size: 100,
+        cell: ({ getValue }) => {
+          // transactions indexed before destinations were selectable all went to the default destination
+          const dstChainId = getValue() ?? BRIDGE_DESTINATION_CHAIN.id;
+          return (
+            <div className="flex h-full items-center gap-1">
+              <ChainIcon chainId={dstChainId} className="w-4" />
+              {getChainName(dstChainId)}
+            </div>
+          );
+        },
+      }),
+      historyColumnHelper.display({
+        id: 'galxeBadges',
+        header: t('bridgeHistory.bridged'),
+        size: 200,
+        cell: ({ row }) => {
+          const badges = row.original.galxeBadges;
+          return (
+            <div className="flex cursor-pointer items-center gap-2" onClick={row.getToggleExpandedHandler()}>
+              {badges[0]?.galxeCampaign?.name ?? t('bridgeHistory.unknown')}
+              {badges[0]?.image && (
+                <div className="relative h-[20px] w-[20px]">
+                  <Image src={badges[0].image} alt="badge" objectFit="contain" layout="fill" />
+                </div>
+              )}
+              {badges.length > 1 && (
+                <span className="text-xs text-gray-400">
+                  {row.getIsExpanded() ? t('bridgeHistory.hide') : t('bridgeHistory.more', { count: badges.length - 1 })}
+                </span>
+              )}
+            </div>
+          );
+        },
+      }),
+      historyColumnHelper.display({
+        id: 'contractAddress',
+        header: t('bridgeHistory.amount'),
+        size: 120,
+        cell: ({ row: { original } }) => <div className="flex h-full items-center">{original.galxeBadges.length}</div>,
+      }),
+      historyColumnHelper.accessor('hash', {
+        header: t('bridgeHistory.tx'),
+        size: 100,
+        cell: ({ getValue, row: { original } }) => (
+          <div
+            className="flex h-full cursor-pointer items-center text-blue"
+            onClick={() => {
+              track(EventName.ViewHistory, `${original.chainId}_${getValue()}`);
+              const url = getExplorerTxUrl(original.chainId, getValue());
+              url && window.open(url, '__blank');
+            }}
+          >
+            {shortenHash(getValue())}
+          </div>
+        ),
+      }),
+      historyColumnHelper.accessor('status', {
+        header: t('bridgeHistory.status'),
+        size: 100,
+        cell: ({ getValue, row: { original } }) => (
+          <div className="flex h-full items-center gap-2">
+            <span className={TX_STATUS_STYLE[getValue()]}>{t(TX_STATUS_LABEL[getValue()])}</span>
+            {!original.indexed && getValue() === BridgeTxStatus.Confirmed && (
+              <span className="rounded bg-white/[0.08] px-1.5 text-xs text-gray-400" title={t('bridgeHistory.notIndexed')}>
+                {t('bridgeHistory.onChain')}
+              </span>
+            )}
+          </div>
+        ),
+      }),
+    ],
+    [t],
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="text-base font-semibold">{t('bridgeHistory.title')}</div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className={FILTER_INPUT_CLASS}
+            value={filter.chainId ?? ''}
+            onChange={(e) => updateFilter({ chainId: e.target.value ? Number(e.target.value) : undefined })}
+          >
+            <option value="">{t('bridgeHistory.allChains')}</option>
+            {BRIDGE_SOURCE_CHAINS.map((chain) => (
+              <option key={chain.id} value={chain.id}>
+                {chain.name}
+              </option>
+            ))}
+          </select>
+          <select
+            className={FILTER_INPUT_CLASS}
+            value={filter.campaign ?? ''}
+            onChange={(e) => updateFilter({ campaign: e.target.value || undefined })}
+          >
+            <option value="">{t('bridgeHistory.allCampaigns')}</option>
+            {campaigns.map((campaign) => (
+              <option key={campaign.stringId} value={campaign.stringId}>
+                {campaign.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            className={FILTER_INPUT_CLASS}
+            value={filter.from ?? ''}
+            max={filter.to}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+          />
+          <span className="text-gray-400">-</span>
+          <input
+            type="date"
+            className={FILTER_INPUT_CLASS}
+            value={filter.to ?? ''}
+            min={filter.from}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+          />
+          <Button
+            type="bordered"
+            size="small"
+            className="px-3"
+            disabled={!filtered.length}
+            onClick={() => exportHistory('csv')}
+          >
+            CSV
+          </Button>
+          <Button
+            type="bordered"
+            size="small"
+            className="px-3"
+            disabled={!filtered.length}
+            onClick={() => exportHistory('json')}
+          >
+            JSON
+          </Button>
+        </div>
+      </div>
+      {notice && <p className="mt-1 text-xs text-gray-400">{notice}</p>}
+      <Table
+        loading={loading}
+        className="mt-6 max-w-[95vw] overflow-x-auto"
+        dataSource={pageRows}
+        columns={columns}
+        renderSubRow={(row: BridgeHistoryRow) => <BridgedBadges row={row} />}
+        getRowId={(row: BridgeHistoryRow) => row.hash}
+      />
+      {filtered.length > PAGE_SIZE && (
+        <div className="mt-4 flex items-center justify-center">
+          <Pagination simple current={page} pageSize={PAGE_SIZE} total={filtered.length} onChange={setPage} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import React from 'react';
+import { uniq } from 'lodash-es';
+import { useBridgeRefunds } from '@/hooks/bridge';
+import { useTranslation } from '@/hooks/useTranslation';
+import { digitalFormat } from '@/utils/format';
+import { BridgeCartItem, getCartItemKey } from '@/utils/bridgeCart';
+import { EMPTY_REFUND, addRefund, getBadgeRefund } from '@/utils/bridgeRefund';
+
+/**
+ * expected Power Level and USD refund of the cart, from the refund configuration of the bridge contracts
+ */
+export default function BridgeRefundPreview({ items }: { items: BridgeCartItem[] }) {
+  const { t } = useTranslation();
+  const { configs, isLoading } = useBridgeRefunds(uniq(items.map((item) => item.badge.chainId)));
+
+  const rows = items.map((item) => ({
+    item,
+    refund: getBadgeRefund(configs[item.badge.chainId], item.badge),
+  }));
+  const total = rows.reduce(
+    (sum, { item, refund }) => addRefund(sum, { pl: refund.pl * item.tokenIds.length, usd: refund.usd * item.tokenIds.length }),
+    EMPTY_REFUND,
+  );
+  const estimated = rows.some(({ refund }) => refund.estimated);
+
+  return (
+    <div className="mt-6">
+      <div className="text-gradient-yellow text-[20px]/[34px] font-bold">
+        {t('bridge.refundGet')}
+        <span className="mx-1 text-[34px] text-inherit">{digitalFormat.integer(total.pl)}</span>
+        {t('bridge.refundPowerLevel')}
+        {total.usd > 0 && <span className="ml-2 text-inherit">+ ${digitalFormat.currency(total.usd)}</span>}
+      </div>
+      <div className="mt-3 flex flex-col gap-1 text-xs text-gray-400">
+        {rows.map(({ item, refund }) => (
+          <div key={getCartItemKey(item.badge)} className="flex items-center gap-2">
+            <span className="min-w-0 flex-1 truncate">{item.badge.galxeCampaign?.name}</span>
+            <span className="w-28 text-right">
+              {item.tokenIds.length} × {digitalFormat.integer(refund.pl)} PL
+            </span>
+            <span className="w-24 text-right">{refund.estimated ? '--' : `$${digitalFormat.currency(refund.usd)}`}</span>
+          </div>
+        ))}
+        {isLoading ? <p>{t('bridge.refundLoading')}</p> : estimated && <p>{t('bridge.refundEstimated')}</p>}
+      </div>
+    </div>
+  );
+}
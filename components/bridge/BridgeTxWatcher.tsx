@@ -0,0 +1,104 @@
+import React, { useEffect, useRef } from 'react';
+import { toast } from 'react-toastify';
+import { useSetRecoilState } from 'recoil';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAccount, useWaitForTransaction } from 'wagmi';
+import Message from '../message';
+import { useBridgeTxs } from '@/hooks/bridge';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
+import { useTranslation } from '@/hooks/useTranslation';
+import { translate } from '@/i18n';
+import { bridgeTxsAtom } from '@/store/bridge/state';
+import { getChainInfo } from '@/constants/chains';
+import { digitalFormat } from '@/utils/format';
+import { BridgeRefund, isSameRefund, sumBurnAndRefund } from '@/utils/bridgeRefund';
+import { BridgeTxKind, BridgeTxRecord, BridgeTxStatus, getBridgeTxs } from '@/utils/bridgeTxs';
+
+const refundText = ({ pl, usd }: BridgeRefund) =>
+  translate('bridge.refundAmount', { pl: digitalFormat.integer(pl), usd: digitalFormat.currency(usd) });
+
+function PendingTx({ tx }: { tx: BridgeTxRecord }) {
+  const { t } = useTranslation();
+  const { address } = useAccount();
+  const { updateTx } = useBridgeTxs();
+  const queryClient = useQueryClient();
+  const replaced = useRef(false);
+
+  const onBridgeSettled = (success: boolean, refund?: BridgeRefund) => {
+    if (tx.kind !== BridgeTxKind.Bridge) return;
+    track(EventName.BridgeResult, success ? 'true' : 'false');
+    if (success) {
+      toast.success(
+        <Message title={t('bridge.success')} message={refund && t('bridge.refunded', { refund: refundText(refund) })} />,
+      );
+      if (refund && tx.expectedRefund && !isSameRefund(refund, tx.expectedRefund)) {
+        toast.warning(
+          <Message
+            title={t('bridge.refundDiffers')}
+            message={t('bridge.refundDiffersMessage', {
+              expected: refundText(tx.expectedRefund),
+              received: refundText(refund),
+            })}
+          />,
+        );
+      }
+      queryClient.invalidateQueries(['fetch_badge_nft', address]);
+      queryClient.invalidateQueries(['fetch_badge_history', address]);
+      queryClient.invalidateQueries(['fetch_bridge_logs', address]);
+    } else {
+      toast.error(<Message title={t('bridge.failed')} message={t('bridge.failedMessage')} />);
+    }
+  };
+
+  useWaitForTransaction({
+    chainId: tx.chainId,
+    hash: tx.hash,
+    onReplaced({ reason }) {
+      // a repriced transaction is the same bridge, its receipt arrives in onSuccess
+      if (reason === 'repriced') return;
+      replaced.current = true;
+      updateTx(tx.hash, { status: BridgeTxStatus.Replaced });
+      onBridgeSettled(false);
+    },
+    onSuccess(receipt) {
+      if (replaced.current) return;
+      const success = receipt.status === 'success';
+      const bridge = getChainInfo(tx.chainId)?.bridge;
+      const refund = success && tx.kind === BridgeTxKind.Bridge && bridge ? sumBurnAndRefund(receipt.logs, bridge) : undefined;
+      updateTx(tx.hash, { status: success ? BridgeTxStatus.Confirmed : BridgeTxStatus.Failed, refund });
+      onBridgeSettled(success, refund);
+    },
+    onError() {
+      if (replaced.current) return;
+      updateTx(tx.hash, { status: BridgeTxStatus.Failed });
+      onBridgeSettled(false);
+    },
+  });
+
+  return null;
+}
+
+/**
+ * restore the bridge transactions of the connected wallet and keep waiting for the pending ones,
+ * mounted in the layout so a confirmation is reported on any page
+ */
+export default function BridgeTxWatcher() {
+  const { address } = useAccount();
+  const setTxs = useSetRecoilState(bridgeTxsAtom);
+  const { txs } = useBridgeTxs();
+
+  useEffect(() => {
+    setTxs(address ? getBridgeTxs(address) : []);
+  }, [address, setTxs]);
+
+  return (
+    <>
+      {txs
+        .filter((tx) => tx.status === BridgeTxStatus.Pending)
+        .map((tx) => (
+          <PendingTx key={tx.hash} tx={tx} />
+        ))}
+    </>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { polygon, bsc } from 'wagmi/chains';
+import { getChainInfo } from '@/constants/chains';
 
 interface ChainIconProps {
   chainId: number;
@@ -7,15 +7,8 @@ interface ChainIconProps {
 }
 
 const ChainIcon: React.FunctionComponent<ChainIconProps> = ({ chainId, className }) => {
-  if (chainId === polygon.id) {
-    return <img className={className} src="/img/bridge/polygon.svg" alt="chain icon" />;
-  } else if (chainId === bsc.id) {
-    return <img className={className} src="/img/bridge/bsc.svg" alt="chain icon" />;
-  } else if (chainId === 20736) {
-    return <img className={className} src="/img/bridge/p12_chain.svg" alt="chain icon" />;
-  } else {
-    return <img className={className} src="/img/bridge/p12_chain.svg" alt="chain icon" />;
-  }
+  const icon = getChainInfo(chainId)?.icon ?? '/img/bridge/p12_chain.svg';
+  return <img className={className} src={icon} alt="chain icon" />;
 };
 
 export default ChainIcon;
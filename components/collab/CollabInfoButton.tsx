@@ -1,6 +1,5 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import dayjs from 'dayjs';
-import ReactGA from 'react-ga4';
 import { toast } from 'react-toastify';
 import { useAccount, useNetwork, useSwitchNetwork } from 'wagmi';
 import isBetween from 'dayjs/plugin/isBetween';
@@ -16,7 +15,12 @@ import { ARCANA_CHAIN_ID, COLLAB_CHAIN_ID } from '../../constants';
 import { fetchCollabJoin, fetchCollabUserInfo } from '../../lib/api';
 import { collabClaimModalAtom, collabUserInfoAtom } from '../../store/collab/state';
 import { useCollabIsJoined, useCollabIsClaim, useFetchCollabUserInfo } from '../../hooks/collab';
-import type { CollabInfoType, CollabUserInfo, CollabUserParams, Response } from '../../lib/types';
+import type { CollabInfoType, CollabUserInfo, CollabUserParams } from '../../lib/types';
+import type { ApiResult } from '../../lib/result';
+import { toastApiError } from '../../utils/toast';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
+import { useTranslation } from '@/hooks/useTranslation';
 
 dayjs.extend(isBetween);
 
@@ -26,6 +30,7 @@ export type CollabInfoButtonProps = {
   data: CollabInfoType;
 };
 export default function CollabInfoButton({ data }: CollabInfoButtonProps) {
+  const { t } = useTranslation();
   const { collabCode, timeJoin, timeAllocation, timeClaim, timeClose, ifOnChain, onChainIpfs } = data;
   const nowDate = dayjs();
   const { chain } = useNetwork();
@@ -49,29 +54,30 @@ export default function CollabInfoButton({ data }: CollabInfoButtonProps) {
   const { switchNetwork, isLoading: isSwitchNetworkLoading } = useSwitchNetwork({ chainId: ARCANA_CHAIN_ID });
   const collabContract = useCollabContract();
 
-  const mutationJoin = useMutation<Response<CollabUserInfo>, any, CollabUserParams, any>((data) => fetchCollabJoin(data), {
-    onSuccess: (data) => {
-      if (data.code !== 200 || !data.data) {
-        toast.error(<Message message={data.msg} title="Ah shit, here we go again" />);
+  const mutationJoin = useMutation<ApiResult<CollabUserInfo>, any, CollabUserParams, any>((data) => fetchCollabJoin(data), {
+    onSuccess: (result) => {
+      if (!result.ok) {
+        toastApiError(result.error, t('collab.joinFailed'));
         return;
       }
-      setUserInfo(data.data);
+      if (!result.data) return;
+      setUserInfo(result.data);
       if (!ifOnChain) {
-        toast.success(<Message message="Join successfully" />);
+        toast.success(<Message message={t('collab.joined')} />);
       }
       document.getElementById('collabTasks')?.scrollIntoView();
     },
   });
 
-  const mutationUserInfo = useMutation<Response<CollabUserInfo>, any, CollabUserParams, any>(
+  const mutationUserInfo = useMutation<ApiResult<CollabUserInfo>, any, CollabUserParams, any>(
     (data) => fetchCollabUserInfo(data),
     {
-      onSuccess: (data) => {
-        if (data.code !== 200) {
+      onSuccess: (result) => {
+        if (!result.ok) {
           return;
         }
-        setUserInfo(data.data);
-        if (!data.data?.joinStatus) {
+        setUserInfo(result.data);
+        if (!result.data?.joinStatus) {
           mutationJoin.mutate({ collabCode: collabCode, walletAddress: address as string });
         }
       },
@@ -80,9 +86,9 @@ export default function CollabInfoButton({ data }: CollabInfoButtonProps) {
 
   const handleJoin = useCallback(() => {
     if (isJoined) return;
-    ReactGA.event({ action: 'Collab-Item', category: 'Click', label: 'join' });
+    track(EventName.CollabItem, 'join');
     if (!address) {
-      ReactGA.event({ action: 'Collab-Item', category: 'Click', label: 'connect' });
+      track(EventName.CollabItem, 'connect');
       setConnectOpen(true);
       return;
     }
@@ -91,9 +97,9 @@ export default function CollabInfoButton({ data }: CollabInfoButtonProps) {
 
   const handleChainJoin = useCallback(async () => {
     if (isChainJoined || !collabContract) return;
-    ReactGA.event({ action: 'Collab-Item', category: 'Click', label: 'chain-join' });
+    track(EventName.CollabItem, 'chain-join');
     if (!address) {
-      ReactGA.event({ action: 'Collab-Item', category: 'Click', label: 'chain-connect' });
+      track(EventName.CollabItem, 'chain-connect');
       setConnectOpen(true);
       return;
     }
@@ -108,13 +114,13 @@ export default function CollabInfoButton({ data }: CollabInfoButtonProps) {
       const transactionHash = await collabContract.write.saveStamp([collabCode, onChainIpfs]);
       toast.success(
         <Message
-          title="Mission Complete"
+          title={t('common.missionComplete')}
           message={
             <div>
-              <p>Join successfully</p>
+              <p>{t('collab.joined')}</p>
               <p>
                 <a className="text-blue" target="_blank" href={getEtherscanLink(transactionHash, 'transaction')}>
-                  View on Etherscan
+                  {t('toast.viewOnEtherscan')}
                 </a>
               </p>
             </div>
@@ -124,10 +130,10 @@ export default function CollabInfoButton({ data }: CollabInfoButtonProps) {
       setIsWriteLoading(false);
       setIsChainJoined(true);
     } catch (error: any) {
-      toast.error(<Message title="Ah shit, here we go again" message="save error" />);
+      toast.error(<Message title={t('toast.errorTitle')} message={t('toast.saveError')} />);
       setIsWriteLoading(false);
     }
-  }, [isChainJoined, collabContract, address, isCorrectNetwork, setConnectOpen, switchNetwork, collabCode, onChainIpfs]);
+  }, [isChainJoined, collabContract, address, isCorrectNetwork, setConnectOpen, switchNetwork, collabCode, onChainIpfs, t]);
 
   useEffect(() => {
     if (
@@ -169,7 +175,7 @@ export default function CollabInfoButton({ data }: CollabInfoButtonProps) {
   }, [address, collabCode, collabContract]);
 
   const handleClaim = useCallback(() => {
-    ReactGA.event({ action: 'Collab-Item', category: 'Click', label: 'claim' });
+    track(EventName.CollabItem, 'claim');
     setClaimModal(true);
   }, [setClaimModal]);
 
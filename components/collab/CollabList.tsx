@@ -1,11 +1,14 @@
 import CollabListItem from './CollabListItem';
+import StaleIndicator from '../stale';
 import { useFetchCollabList } from '../../hooks/collab';
 import { CollabShortInfo } from '../../lib/types';
 
 export default function CollabList() {
-  const { data: collabList, isLoading } = useFetchCollabList();
+  const collabListQuery = useFetchCollabList();
+  const { data: collabList, isLoading } = collabListQuery;
   return (
     <div className="h-[460px] overflow-scroll">
+      <StaleIndicator query={collabListQuery} className="pt-3" />
       <div className="grid h-fit grid-cols-2 gap-4  pt-6 md:grid-cols-1 md:gap-4 md:pt-3">
         {!isLoading &&
           collabList?.length &&
@@ -1,12 +1,12 @@
 import { COLLAB_TIME_STATUS } from '@/constants';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { useCollabTimes } from '@/hooks/collab';
 import { CollabShortInfo } from '@/lib/types';
 import { openLink } from '@/utils';
 import classNames from 'classnames';
 import { useRouter } from 'next/router';
 import { useCallback } from 'react';
-import ReactGA from 'react-ga4';
 
 type CollabItemProps = {
   data?: CollabShortInfo;
@@ -56,7 +56,7 @@ export default function CollabListItem({ data, loading }: CollabItemProps) {
   return (
     <div
       onClick={() => {
-        ReactGA.event({ category: EventCategory.Assets, action: EventName.CollabCard, label: collabCode });
+        track(EventName.CollabCard, collabCode);
         if (collabCode && openLinkCollabCode.includes(collabCode)) {
           openLink(projectWebsite ?? '');
         } else {
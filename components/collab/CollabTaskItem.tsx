@@ -1,5 +1,6 @@
 import classNames from 'classnames';
-import ReactGA from 'react-ga4';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 
 export type CollabTaskItemProps = {
   key: string;
@@ -41,15 +42,7 @@ export default function CollabTaskItem({
           className="font-semibold leading-5 text-[#43BBFF]"
           href={href}
           target={target}
-          onClick={() =>
-            gaKey
-              ? ReactGA.event({
-                  action: 'Collab-Item',
-                  category: 'Click',
-                  label: gaKey,
-                })
-              : null
-          }
+          onClick={() => (gaKey ? track(EventName.CollabItem, gaKey) : null)}
         >
           {hrefLabel}
         </a>
@@ -1,6 +1,5 @@
 import { useCallback, useEffect, useState } from 'react';
 import dayjs from 'dayjs';
-import ReactGA from 'react-ga4';
 import { useAccount } from 'wagmi';
 import { toast } from 'react-toastify';
 import { useRecoilValue } from 'recoil';
@@ -14,13 +13,19 @@ import CollabTaskItem from './CollabTaskItem';
 import { useCollabIsJoined, useCollabIsNftHolder, useCollabTimes } from '../../hooks/collab';
 import { COLLAB_NFT_STATUS, COLLAB_TIME_STATUS } from '../../constants';
 import { useIsMounted } from '../../hooks/useIsMounted';
-import type { Response, CollabInfoType, CollabUserInfo, CollabTweetVerifyParams } from '../../lib/types';
+import type { CollabInfoType, CollabUserInfo, CollabTweetVerifyParams } from '../../lib/types';
+import type { ApiResult } from '../../lib/result';
+import { toastApiError } from '../../utils/toast';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
+import { useTranslation } from '@/hooks/useTranslation';
 
 export type CollabTasksProps = {
   data: CollabInfoType;
 };
 
 export default function CollabTasks({ data }: CollabTasksProps) {
+  const { t } = useTranslation();
   const {
     taskGleam,
     taskGalxe,
@@ -43,21 +48,25 @@ export default function CollabTasks({ data }: CollabTasksProps) {
   const isMounted = useIsMounted();
   const { timeStatus } = useCollabTimes({ timeComingSoon, timeJoin, timeAllocation, timeClaim, timeClose });
 
-  const mutationVerify = useMutation<Response<CollabUserInfo>, any, CollabTweetVerifyParams, any>(
+  const mutationVerify = useMutation<ApiResult<CollabUserInfo>, any, CollabTweetVerifyParams, any>(
     (data) => fetchCollabTweetVerify(data),
     {
-      onSuccess: (data) => {
-        if (!data?.data?.taskTweetStatus) {
-          toast.error(<Message message="Verify failed!" />);
+      onSuccess: (result) => {
+        if (!result.ok) {
+          toastApiError(result.error, t('collab.verifyFailed'));
           return;
         }
-        toast.success(<Message message="Verify successfully!" />);
+        if (!result.data?.taskTweetStatus) {
+          toast.error(<Message message={t('collab.verifyFailed')} />);
+          return;
+        }
+        toast.success(<Message message={t('collab.verified')} />);
       },
     },
   );
 
   const handleTwitterShareClick = useCallback(() => {
-    ReactGA.event({ action: 'Collab-Item', category: 'Click', label: 'twitter' });
+    track(EventName.CollabItem, 'twitter');
     const referralLink = window.location.origin + window.location.pathname + (referralCode ? `?code=${referralCode}` : '');
     const url = encodeURIComponent(referralLink);
     const text = encodeURIComponent(taskTweetContent || '');
@@ -65,16 +74,16 @@ export default function CollabTasks({ data }: CollabTasksProps) {
   }, [taskTweetContent, referralCode]);
 
   const handleVerify = useCallback(() => {
-    ReactGA.event({ action: 'Collab-Item', category: 'Click', label: 'verify' });
+    track(EventName.CollabItem, 'verify');
     if (!address) {
-      toast.error(<Message message="Please connect your wallet first." title="Oops" />);
+      toast.error(<Message message={t('common.connectWalletFirst')} title={t('toast.oops')} />);
       return;
     }
     const reg = new RegExp(/(https:\/\/twitter.com\/.*\/status\/)([0-9]{19})/);
     if (reg.test(value)) {
       mutationVerify.mutate({ collabCode, walletAddress: address, taskTweetUrl: value });
-    } else toast.error(<Message message="Not a legitimate twitter link!" />);
-  }, [mutationVerify, value, collabCode, address]);
+    } else toast.error(<Message message={t('collab.invalidTweet')} />);
+  }, [mutationVerify, value, collabCode, address, t]);
 
   useEffect(() => {
     const now = dayjs().unix();
@@ -100,13 +109,7 @@ export default function CollabTasks({ data }: CollabTasksProps) {
           className="font-semibold text-[#43BBFF]"
           href="/gamer"
           target="_blank"
-          onClick={() =>
-            ReactGA.event({
-              action: 'Collab-Item',
-              category: 'Click',
-              label: 'airdrop-none-nft',
-            })
-          }
+          onClick={() => track(EventName.CollabItem, 'airdrop-none-nft')}
         >
           Click
         </a>{' '}
@@ -0,0 +1,111 @@
+import React from 'react';
+import Image from 'next/image';
+import classNames from 'classnames';
+import { toast } from 'react-toastify';
+import { useCopyToClipboard } from 'react-use';
+import { Address } from 'wagmi';
+import Button from '../button';
+import Loading from '../loading';
+import Message from '../message';
+import ChainIcon from '../bridge/ChainIcon';
+import { getCampaignUrl } from '@/constants';
+import { useBadgeCollection } from '@/hooks/bridge';
+import { useTranslation } from '@/hooks/useTranslation';
+import { openLink, shortenAddress } from '@/utils';
+import { CollectionEntry } from '@/utils/badgeCollection';
+
+function CollectionCard({ entry }: { entry: CollectionEntry }) {
+  const { badge, owned, ownedCount, bridgedCount, listed } = entry;
+  const { t } = useTranslation();
+  const collected = ownedCount > 0 || bridgedCount > 0;
+
+  return (
+    <div className="flex w-[180px] flex-col items-center rounded-xl bg-[#494E69]/30 p-3">
+      <div className={classNames('relative h-[108px] w-[108px]', !collected && 'opacity-25')}>
+        {badge.image && <Image src={badge.image} alt="badge" objectFit="contain" layout="fill" loading="lazy" />}
+      </div>
+      <p className="mt-3 w-full truncate text-center text-sm font-medium" title={badge.name}>
+        {badge.name}
+      </p>
+      <p className="text-xs text-gray-400">
+        {badge.rarity}
+        {!listed && ` · ${t('collection.retired')}`}
+      </p>
+      <div className="mt-3 flex w-full flex-col gap-1 text-xs">
+        {Object.entries(owned).map(([chainId, count]) => (
+          <div key={chainId} className="flex items-center justify-between">
+            <ChainIcon chainId={Number(chainId)} className="w-4" />
+            <span>× {count}</span>
+          </div>
+        ))}
+        {bridgedCount > 0 && (
+          <div className="flex items-center justify-between text-green">
+            <span>{t('collection.bridged')}</span>
+            <span>× {bridgedCount}</span>
+          </div>
+        )}
+        {!collected && listed && (
+          <span className="cursor-pointer text-center text-blue" onClick={() => openLink(getCampaignUrl(badge.stringId))}>
+            {t('collection.obtain')} {'>'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * every catalog campaign with the badges an address holds per chain and has bridged, shareable by address
+ */
+export default function BadgeCollection({ address, shareUrl }: { address: Address; shareUrl: string }) {
+  const { t } = useTranslation();
+  const { collection, isLoading } = useBadgeCollection(address);
+  const [, copyToClipboard] = useCopyToClipboard();
+  const { community, ama, collected, total } = collection;
+  const progress = total ? Math.round((collected / total) * 100) : 0;
+
+  const share = () => {
+    copyToClipboard(shareUrl);
+    toast.success(<Message message={t('common.copied')} title={t('collection.link')} />);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <div className="text-base font-semibold">{t('collection.title')}</div>
+          <p className="mt-1 text-xs text-gray-400">{shortenAddress(address)}</p>
+        </div>
+        <Button type="bordered" size="small" className="px-4" onClick={share}>
+          {t('collection.share')}
+        </Button>
+      </div>
+      <div className="mt-6">
+        <div className="flex items-center justify-between text-sm">
+          <span>{t('collection.collected', { collected, total })}</span>
+          <span className="text-gradient-yellow font-bold">{progress}%</span>
+        </div>
+        <div className="mt-2 h-2 overflow-hidden rounded-full bg-white/10">
+          <div className="h-full rounded-full bg-green" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+      {isLoading ? (
+        <Loading size={58} className="my-12 opacity-50" />
+      ) : (
+        [
+          { title: t('collection.community'), entries: community },
+          { title: t('collection.ama'), entries: ama },
+        ].map(({ title, entries }) => (
+          <div key={title} className="mt-8">
+            <p className="text-base font-semibold">{title}</p>
+            <div className="mt-4 flex flex-wrap gap-3">
+              {entries.map((entry) => (
+                <CollectionCard key={entry.badge.stringId} entry={entry} />
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,11 @@
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { clickableMotionProps } from '@/constants/motionAnim';
 import { arcanaEditProfileDialogOpenAtom } from '@/store/arcana/state';
 import { userInfoAtom, userTelegramSelector } from '@/store/user/state';
 import { openLink, shortenAddress, shortenArcanaStr } from '@/utils';
 import { motion } from 'framer-motion';
 import { useMemo } from 'react';
-import ReactGA from 'react-ga4';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 import { twMerge } from 'tailwind-merge';
 import Loading from '../loading';
@@ -49,7 +49,7 @@ export default function IDCard({ loading, className }: { loading?: boolean; clas
     <motion.div
       {...clickableMotionProps()}
       onClick={() => {
-        ReactGA.event({ category: EventCategory.Assets, action: EventName.ArcanaProfile });
+        track(EventName.ArcanaProfile);
         setEditProfileDialogOpen(true);
       }}
       className={twMerge(
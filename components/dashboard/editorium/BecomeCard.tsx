@@ -1,8 +1,8 @@
 import Button from '@/components/button';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { openLink } from '@/utils';
 import classNames from 'classnames';
-import ReactGA from 'react-ga4';
 import { digitalFormat } from '@/utils/format';
 import { useRecoilValue } from 'recoil';
 import { userPowerLevelAtom } from '@/store/dashboard/state';
@@ -47,10 +47,7 @@ export default function BecomeCard({ isVoter }: { isVoter?: boolean }) {
           <Button
             type="bordered"
             onClick={() => {
-              ReactGA.event({
-                action: EventName.BecomeVoter,
-                category: EventCategory.Assets,
-              });
+              track(EventName.BecomeVoter);
               openLink('https://arcana.p12.games/#gallery');
             }}
             className="h-12 w-[168px] backdrop-blur-lg"
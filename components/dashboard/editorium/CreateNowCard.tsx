@@ -1,7 +1,7 @@
 import Button from '@/components/button';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { arcanaEditorDownloadDialogOpen } from '@/store/arcana/state';
-import ReactGA from 'react-ga4';
 import { useSetRecoilState } from 'recoil';
 
 export default function CreateNowCard() {
@@ -15,10 +15,7 @@ export default function CreateNowCard() {
         <Button
           type="bordered"
           onClick={() => {
-            ReactGA.event({
-              action: EventName.CreateNow,
-              category: EventCategory.Assets,
-            });
+            track(EventName.CreateNow);
             setEditorDownloadDialogOpen(true);
           }}
           className="h-12 w-[10.5rem] text-base/5 backdrop-blur-lg"
@@ -1,9 +1,9 @@
 import Button from '@/components/button';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { arcanaEditorDownloadDialogOpen, arcanaNotSubmittedListAtom, arcanaSubmittedListAtom } from '@/store/arcana/state';
 import { openLink } from '@/utils';
 import { useMemo } from 'react';
-import ReactGA from 'react-ga4';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 import GalleryItem from './GalleryItem';
 
@@ -53,7 +53,7 @@ export default function MyCreation() {
         type="bordered"
         className="mt-7.5 w-[350px] self-center border-white py-2.5 text-sm font-medium xs:w-full"
         onClick={() => {
-          ReactGA.event({ category: EventCategory.Assets, action: EventName.ViewCreations });
+          track(EventName.ViewCreations);
           openLink('https://arcana.p12.games/#creation');
         }}
       >
@@ -1,6 +1,7 @@
 import Button from '@/components/button';
 import { DEV_BADGES, GAMER_BADGES, GenesisClaim, GenesisRarity, GenesisRole } from '@/constants';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { useFetchGenesisPL, useMutationGenesisUpgrade } from '@/hooks/dashboard/powerLevel';
 import { GenesisUpgradeStatus, useGenesisNFTUpgrade } from '@/hooks/dashboard/useGenesisNFTUpgrade';
 import { useSBTLevelConfig } from '@/hooks/dashboard/useSBTLevelConfig';
@@ -8,7 +9,6 @@ import { GenesisNFT } from '@/lib/types-nest';
 import { openLink } from '@/utils';
 import classNames from 'classnames';
 import { useMemo } from 'react';
-import ReactGA from 'react-ga4';
 import { toast } from 'react-toastify';
 import { useAccount } from 'wagmi';
 
@@ -37,11 +37,7 @@ export default function ClaimButton({ data, role, powerLevel, onUpgradeSuccess }
         type="gradient"
         className="w-full py-3 text-base/5 font-semibold"
         onClick={() => {
-          ReactGA.event({
-            category: EventCategory.Assets,
-            action: EventName.ClaimSbt,
-            label: role === GenesisRole.Gamer ? 'gamer' : 'dev',
-          });
+          track(EventName.ClaimSbt, role === GenesisRole.Gamer ? 'gamer' : 'dev');
           openLink(nftConfig[data.nftLevel].claim);
         }}
       >
@@ -61,11 +57,7 @@ export default function ClaimButton({ data, role, powerLevel, onUpgradeSuccess }
           <div
             onClick={() => {
               if (!address || isLoading) return;
-              ReactGA.event({
-                category: EventCategory.Assets,
-                action: EventName.UpgradeSbt,
-                label: `${role === GenesisRole.Gamer ? 'gamer' : 'dev'}_${data?.nftLevel}_${powerLevel}`, // role + currentNFTLevel + currentPL
-              });
+              track(EventName.UpgradeSbt, `${role === GenesisRole.Gamer ? 'gamer' : 'dev'}_${data?.nftLevel}_${powerLevel}`);
               mutateAsync({ address, role }).then();
             }}
             className={classNames(
@@ -3,7 +3,8 @@ import CredentialTask from '@/components/dashboard/sbt/CredentialTask';
 import TokenStatus from '@/components/dashboard/sbt/TokenStatus';
 import { Tooltip } from '@/components/tooltip';
 import { DEV_BADGES, GenesisClaim, GenesisRole, GenesisSource } from '@/constants';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { useFetchGenesisNFT } from '@/hooks/dashboard/genesis';
 import { useDevTokenStatus } from '@/hooks/dashboard/useTokenStatus';
 import { useDeveloperInfo } from '@/hooks/developer';
@@ -12,7 +13,6 @@ import { openLink } from '@/utils';
 import { digitalFormat } from '@/utils/format';
 import classNames from 'classnames';
 import { useMemo } from 'react';
-import ReactGA from 'react-ga4';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 import { useAccount } from 'wagmi';
 
@@ -64,7 +64,7 @@ export default function SteamDeveloperSBT() {
             <div className="mt-3">
               <CredentialTask
                 onClick={() => {
-                  ReactGA.event({ category: EventCategory.Assets, action: EventName.GetNftTask, label: 'dev_publish' });
+                  track(EventName.GetNftTask, 'dev_publish');
                   setSelectedTab(0);
                 }}
                 status={nftSource.includes(GenesisSource.Arcana)}
@@ -73,11 +73,7 @@ export default function SteamDeveloperSBT() {
               <p className="text-center text-xs">OR</p>
               <CredentialTask
                 onClick={() => {
-                  ReactGA.event({
-                    category: EventCategory.Assets,
-                    action: EventName.GetNftTask,
-                    label: 'dev_verify_steam',
-                  });
+                  track(EventName.GetNftTask, 'dev_verify_steam');
                   setSelectedTab(2);
                 }}
                 status={nftSource.includes(GenesisSource.Steam)}
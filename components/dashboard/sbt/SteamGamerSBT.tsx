@@ -4,7 +4,8 @@ import TokenStatus from '@/components/dashboard/sbt/TokenStatus';
 import { Tooltip } from '@/components/tooltip';
 import PremiumPlusTooltip from '@/components/tooltip/PremiumPlusTooltip';
 import { GAMER_BADGES, GenesisClaim, GenesisPay, GenesisRole, GenesisSource } from '@/constants';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { useFetchGenesisNFT } from '@/hooks/dashboard/genesis';
 import { useGamerTokenStatus } from '@/hooks/dashboard/useTokenStatus';
 import { useGamerInfo } from '@/hooks/gamer';
@@ -14,7 +15,6 @@ import { digitalFormat } from '@/utils/format';
 import classNames from 'classnames';
 import dayjs from 'dayjs';
 import { useMemo } from 'react';
-import ReactGA from 'react-ga4';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 import { useAccount } from 'wagmi';
 
@@ -79,7 +79,7 @@ export default function SteamGamerSBT() {
             <div className="mt-3">
               <CredentialTask
                 onClick={() => {
-                  ReactGA.event({ category: EventCategory.Assets, action: EventName.GetNftTask, label: 'gamer_verify_steam' });
+                  track(EventName.GetNftTask, 'gamer_verify_steam');
                   setSelectedTab(1);
                 }}
                 status={nftSource.includes(GenesisSource.Steam)}
@@ -88,7 +88,7 @@ export default function SteamGamerSBT() {
               <p className="text-center text-xs">OR</p>
               <CredentialTask
                 onClick={() => {
-                  ReactGA.event({ category: EventCategory.Assets, action: EventName.GetNftTask, label: 'gamer_become_voter' });
+                  track(EventName.GetNftTask, 'gamer_become_voter');
                   setSelectedTab(0);
                 }}
                 status={nftSource.includes(GenesisSource.Arcana)}
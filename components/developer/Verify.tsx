@@ -15,14 +15,18 @@ import { getLocalStorage } from '@/utils/storage';
 import { getErrorToast } from '@/utils/developer';
 import { AddGameTips, OwnershipTips } from './verify/Tips';
 import { tabSelectAtom, verifiedSteamAppAtom } from '@/store/developer/state';
-import { DeveloperVerifyData, DeveloperVerifyParams, DevGameInfo, Response } from '@/lib/types';
+import { DeveloperVerifyData, DeveloperVerifyParams, DevGameInfo } from '@/lib/types';
+import { ApiErrorKind, ApiResult } from '@/lib/result';
+import { toastApiError } from '@/utils/toast';
 import { useIsMounted } from '@/hooks/useIsMounted';
-import { EventCategory, EventName } from '@/constants/event';
-import ReactGA from 'react-ga4';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
+import { useTranslation } from '@/hooks/useTranslation';
 
 export type SteamApp = Partial<DevGameInfo> & { index: number };
 
 function Verify() {
+  const { t } = useTranslation();
   const { address } = useAccount();
   const isMounted = useIsMounted();
   const [steamAppList, setSteamAppList] = useState<SteamApp[]>([]);
@@ -43,38 +47,27 @@ function Verify() {
   const router = useRouter();
   const submittedSteamApps = useMemo(() => steamAppList.filter((app) => app.steam_appid), [steamAppList]);
   const canVerify = useMemo(() => submittedSteamApps.length > 0 && address, [address, submittedSteamApps.length]);
-  const mutation = useMutation<Response<DeveloperVerifyData>, any, DeveloperVerifyParams, any>(
+  const mutation = useMutation<ApiResult<DeveloperVerifyData>, any, DeveloperVerifyParams, any>(
     (data) => {
       return fetchDeveloperVerify(data);
     },
     {
-      onSuccess: (data, { steam_appids }) => {
+      onSuccess: (result, { steam_appids }) => {
         queryClient.refetchQueries(['developer_info', address]).then();
-        if (data.code === 1) {
-          ReactGA.event({
-            category: EventCategory.Assets,
-            action: EventName.VerifyAppid,
-            label: 'failed_' + (steam_appids?.join(',') ?? ''),
-          });
-          toast.error(<Message message={data.msg} title="Ah shit, here we go again" />);
+        if (!result.ok) {
+          const { error } = result;
+          track(EventName.VerifyAppid, `failed_${steam_appids?.join(',') ?? ''}`);
+          // code 1 carries a plain message, other business codes carry the failed games
+          const failedGames: DeveloperVerifyData['failedGames'] | undefined = error.data?.failedGames;
+          if (error.kind === ApiErrorKind.Business && error.code !== 1 && failedGames) {
+            toast.error(<Message message={getErrorToast(failedGames)} title={t('developer.verifyFailed')} />);
+          } else {
+            toastApiError(error, t('developer.verifyFailed'));
+          }
           return;
         }
-        if (data.code !== 0) {
-          const { failedGames } = data.data;
-          ReactGA.event({
-            category: EventCategory.Assets,
-            action: EventName.VerifyAppid,
-            label: 'failed_' + (steam_appids?.join(',') ?? ''),
-          });
-          toast.error(<Message message={getErrorToast(failedGames)} title="Ah shit, here we go again" />);
-          return;
-        }
-        ReactGA.event({
-          category: EventCategory.Assets,
-          action: EventName.VerifyAppid,
-          label: 'success_' + (steam_appids?.join(',') ?? ''),
-        });
-        toast.success(<Message message="Verified successfully" title="Mission Complete" />);
+        track(EventName.VerifyAppid, `success_${steam_appids?.join(',') ?? ''}`);
+        toast.success(<Message message={t('developer.verified')} title={t('common.missionComplete')} />);
         setSelectedTab(1);
       },
     },
@@ -86,18 +79,21 @@ function Verify() {
     setCount((c) => c + 1);
   }, []);
 
-  const onSteamAppConfirm = useCallback((app: any, index: number) => {
-    setSteamAppList((appList) => {
-      const list = [...appList];
-      const isDuplicate = list.some((item) => item.steam_appid === app.steam_appid);
-      if (isDuplicate) {
-        toast.error(<Message message="Duplicate Steam game" title="Ah shit, here we go again" />);
-      } else {
-        list[index] = app;
-      }
-      return list;
-    });
-  }, []);
+  const onSteamAppConfirm = useCallback(
+    (app: any, index: number) => {
+      setSteamAppList((appList) => {
+        const list = [...appList];
+        const isDuplicate = list.some((item) => item.steam_appid === app.steam_appid);
+        if (isDuplicate) {
+          toast.error(<Message message={t('developer.duplicateGame')} title={t('toast.errorTitle')} />);
+        } else {
+          list[index] = app;
+        }
+        return list;
+      });
+    },
+    [t],
+  );
 
   const onRemove = useCallback((index: number) => {
     setSteamAppList((appList) => {
@@ -171,9 +167,9 @@ function Verify() {
                     <div
                       className="flex-center cursor-pointer gap-0.5 rounded-lg bg-blue/20 px-4 py-3.5 text-sm/5 font-semibold text-blue hover:bg-blue/30"
                       onClick={() => {
-                        ReactGA.event({ category: EventCategory.Assets, action: EventName.CopyCode });
+                        track(EventName.CopyCode);
                         copyToClipboard(signature);
-                        toast.success(<Message message="Copied to clipboard" title="Mission Complete" />);
+                        toast.success(<Message message={t('common.copied')} title={t('common.missionComplete')} />);
                       }}
                     >
                       Copy
@@ -182,7 +178,7 @@ function Verify() {
                     <div
                       className="flex-center cursor-pointer gap-0.5 rounded-lg bg-blue/20 px-4 py-3.5 text-sm/5 font-semibold text-blue hover:bg-blue/30"
                       onClick={() => {
-                        ReactGA.event({ category: EventCategory.Assets, action: EventName.GenerateCode });
+                        track(EventName.GenerateCode);
                         signMessage();
                       }}
                     >
@@ -4,13 +4,12 @@ import { roadmapModalAtom } from '@/store/roadmap/state';
 import { useMutation } from '@tanstack/react-query';
 import Image from 'next/image';
 import React, { useState } from 'react';
-import { toast } from 'react-toastify';
 import { useSetRecoilState } from 'recoil';
-import Message from '../../message';
 import { CloseCircle } from '../../svg/CloseCircle';
 import { SteamApp } from '../Verify';
-import { EventCategory, EventName } from '@/constants/event';
-import ReactGA from 'react-ga4';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
+import { toastApiError } from '@/utils/toast';
 
 type SteamGameItemProps = {
   app: SteamApp;
@@ -22,15 +21,16 @@ type SteamGameItemProps = {
 function SteamAppItem({ app, onConfirm, onRemove, index }: SteamGameItemProps) {
   const [value, setValue] = useState('');
   const setOpen = useSetRecoilState(roadmapModalAtom);
-  const { isLoading, mutate } = useMutation<any, any, { appid: string }>((data) => fetchDeveloperGame(data), {
-    onSuccess: (data, { appid }) => {
-      if (data.code !== 0) {
-        ReactGA.event({ category: EventCategory.Assets, action: EventName.AddAppid, label: 'failed_' + appid });
-        toast.error(<Message message={data.msg} title="Ah shit, here we go again" />);
+  const { isLoading, mutate } = useMutation({
+    mutationFn: (data: { appid: string }) => fetchDeveloperGame(data),
+    onSuccess: (result, { appid }) => {
+      if (!result.ok) {
+        track(EventName.AddAppid, `failed_${appid}`);
+        toastApiError(result.error);
         return;
       }
-      ReactGA.event({ category: EventCategory.Assets, action: EventName.AddAppid, label: 'success_' + appid });
-      onConfirm(data.data.game_info);
+      track(EventName.AddAppid, `success_${appid}`);
+      onConfirm(result.data.game_info);
     },
   });
 
@@ -1,5 +1,5 @@
-import { EventCategory, EventName } from '@/constants/event';
-import ReactGA from 'react-ga4';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { useSetRecoilState } from 'recoil';
 import { roadmapModalAtom } from '../../../store/roadmap/state';
 import Dialog from '../../dialog';
@@ -22,7 +22,7 @@ export function AddGameTips() {
         <span
           className="cursor-pointer text-blue"
           onClick={() => {
-            ReactGA.event({ category: EventCategory.Assets, action: EventName.GuideClick, label: 'tokens' });
+            track(EventName.GuideClick, 'tokens');
             setOpen(true);
           }}
         >
@@ -49,10 +49,7 @@ export function OwnershipTips() {
       <div className=" mt-2">
         2. &nbsp;How to add the signature?
         <Dialog render={({ close }) => <MessageCodeDialog close={close} />}>
-          <span
-            className="cursor-pointer text-blue"
-            onClick={() => ReactGA.event({ category: EventCategory.Assets, action: EventName.GuideClick, label: 'add_code' })}
-          >
+          <span className="cursor-pointer text-blue" onClick={() => track(EventName.GuideClick, 'add_code')}>
             &nbsp;click here&nbsp;
           </span>
         </Dialog>
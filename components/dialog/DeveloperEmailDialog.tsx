@@ -6,21 +6,29 @@ import { useMutation } from '@tanstack/react-query';
 import { useAccount, useSignMessage } from 'wagmi';
 import { getEmailSignData } from '../../utils';
 import { fetchDeveloperEmail } from '../../lib/api';
-import { DeveloperEmailParams, Response } from '../../lib/types';
+import { DeveloperEmailParams } from '../../lib/types';
+import { ApiResult } from '../../lib/result';
+import { toastApiError } from '../../utils/toast';
 import { toast } from 'react-toastify';
 import Message from '../message';
 import { getLocalStorage, setLocalStorage } from '../../utils/storage';
 import { useRecoilValue } from 'recoil';
 import { hasClaimedGameSelector } from '../../store/developer/state';
 import { STORAGE_KEY } from '../../constants';
+import { useTranslation } from '@/hooks/useTranslation';
 
 export default function DeveloperEmailDialog() {
+  const { t } = useTranslation();
   const { address } = useAccount();
   const claimedGame = useRecoilValue(hasClaimedGameSelector);
   const [open, setOpen] = useState<boolean>(false);
-  const mutation = useMutation<Response<any>, any, DeveloperEmailParams, any>((data) => fetchDeveloperEmail(data), {
-    onSuccess: () => {
-      toast.success(<Message message="Bind email successfully" title="Mission Complete" />);
+  const mutation = useMutation<ApiResult<any>, any, DeveloperEmailParams, any>((data) => fetchDeveloperEmail(data), {
+    onSuccess: (result) => {
+      if (!result.ok) {
+        toastApiError(result.error);
+        return;
+      }
+      toast.success(<Message message={t('email.bound')} title={t('common.missionComplete')} />);
       setLocalStorage(STORAGE_KEY.DEV_EMAIL_SUBMIT, 1);
       setOpen(false);
     },
@@ -3,8 +3,8 @@ import { ARCANA_SOCIAL_LINKS } from '@/constants';
 import { arcanaEditorDownloadDialogOpen } from '@/store/arcana/state';
 import { useEffect } from 'react';
 import { useRecoilState, useRecoilValue, useSetRecoilState } from 'recoil';
-import ReactGA from 'react-ga4';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import Button from '../button';
 import { userInfoAtom } from '@/store/user/state';
 import { useMutationVerifyEditorLogin } from '@/hooks/dashboard/useMutationVerifyEditorLogin';
@@ -21,7 +21,7 @@ export default function DownloadEditorDialog() {
 
   useEffect(() => {
     if (isOpen) {
-      ReactGA.event({ category: EventCategory.Assets, action: EventName.DownloadPopup });
+      track(EventName.DownloadPopup);
     }
   }, [isOpen]);
 
@@ -39,9 +39,7 @@ export default function DownloadEditorDialog() {
                 <h2 className="text-xl font-semibold">Step 1</h2>
                 <p className="mt-3 text-xs/4">Download the editor: Your tool for building worlds.</p>
                 <a
-                  onClick={() =>
-                    ReactGA.event({ category: EventCategory.Assets, action: EventName.DownloadLink, label: 'editor' })
-                  }
+                  onClick={() => track(EventName.DownloadLink, 'editor')}
                   href="https://cdn1.p12.games/arcana/editor_download/Editor_1.0.3.exe"
                   className="text-xs/4 text-blue hover:underline"
                   target="_blank"
@@ -62,13 +60,7 @@ export default function DownloadEditorDialog() {
                 <p className="mt-3 text-xs/4">Download P12 App to connect your wallet with Editor.</p>
                 <div className="mt-5 grid gap-2 text-xs/4">
                   <a
-                    onClick={() =>
-                      ReactGA.event({
-                        category: EventCategory.Assets,
-                        action: EventName.DownloadLink,
-                        label: 'app_google_play',
-                      })
-                    }
+                    onClick={() => track(EventName.DownloadLink, 'app_google_play')}
                     href="https://play.google.com/store/apps/details?id=network.p12.app"
                     target="_blank"
                     className="text-blue hover:underline"
@@ -76,13 +68,7 @@ export default function DownloadEditorDialog() {
                     P12 App (Google Play)
                   </a>
                   <a
-                    onClick={() =>
-                      ReactGA.event({
-                        category: EventCategory.Assets,
-                        action: EventName.DownloadLink,
-                        label: 'app_android_apk',
-                      })
-                    }
+                    onClick={() => track(EventName.DownloadLink, 'app_android_apk')}
                     href="https://cdn1.p12.games/arcana/editor_download/P12_0.3.31.apk"
                     target="_blank"
                     className="text-blue hover:underline"
@@ -3,7 +3,8 @@ import Dialog from '@/components/dialog';
 import { DiscordSvg } from '@/components/svg/DiscordSvg';
 import { TelegramSvg } from '@/components/svg/TelegramSvg';
 import { TwitterSvg } from '@/components/svg/TwitterSvg';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { useProfileRadioOptions, useProfileSubmit } from '@/hooks/dashboard/arcanaProfile';
 import { useFormOnError } from '@/hooks/dashboard/useFormOnError';
 import { useMutationUserInfo } from '@/hooks/user';
@@ -11,7 +12,6 @@ import { arcanaEditProfileDialogOpenAtom } from '@/store/arcana/state';
 import { userInfoAtom, userTelegramSelector } from '@/store/user/state';
 import { openLink } from '@/utils';
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import ReactGA from 'react-ga4';
 import { Controller, useForm } from 'react-hook-form';
 import { useRecoilState, useRecoilValue } from 'recoil';
 import { useAccount } from 'wagmi';
@@ -157,7 +157,7 @@ export default function EditProfileDialog() {
                   className="flex flex-wrap items-center gap-1 rounded-lg bg-white/[0.12] px-3 py-2.5 backdrop-blur-lg"
                   onClick={() => {
                     if (!profileData?.twitter) {
-                      ReactGA.event({ category: EventCategory.Assets, action: EventName.ConnectTwitter });
+                      track(EventName.ConnectTwitter);
                       openLink('https://arcana.p12.games/');
                       return;
                     }
@@ -177,7 +177,7 @@ export default function EditProfileDialog() {
                 className="flex cursor-pointer items-center gap-1 rounded-lg bg-white/[0.12] px-3 py-2.5 backdrop-blur-lg"
                 onClick={() => {
                   if (!tgHandle) {
-                    ReactGA.event({ category: EventCategory.Assets, action: EventName.ConnectTelegram });
+                    track(EventName.ConnectTelegram);
                     openLink('https://arcana.p12.games/');
                     return;
                   }
@@ -205,7 +205,7 @@ export default function EditProfileDialog() {
               <Button
                 htmlType="button"
                 onClick={() => {
-                  ReactGA.event({ category: EventCategory.Assets, action: EventName.ProfileCancel });
+                  track(EventName.ProfileCancel);
                   close();
                 }}
                 className="w-[7.375rem]"
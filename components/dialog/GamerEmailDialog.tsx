@@ -12,11 +12,15 @@ import { fetchGamerEmail } from '../../lib/api';
 import { setLocalStorage } from '../../utils/storage';
 import { getEmailSignData, openLink } from '../../utils';
 import { GAMER_BADGES, STORAGE_KEY } from '../../constants';
-import { GamerEmailParams, Response } from '../../lib/types';
+import { GamerEmailParams } from '../../lib/types';
+import { ApiResult } from '../../lib/result';
+import { toastApiError } from '../../utils/toast';
 import { gamerEmailDialogTypeAtom, gamerEmailInfoAtom, gamerEmailShowAtom, gamerInfoAtom } from '../../store/gamer/state';
 import { useGamerVerifyEmailCode } from '../../hooks/gamer';
+import { useTranslation } from '@/hooks/useTranslation';
 
 export default function GamerEmailDialog() {
+  const { t } = useTranslation();
   const { address } = useAccount();
   const queryClient = useQueryClient();
   const gamerInfo = useRecoilValue(gamerInfoAtom);
@@ -29,9 +33,9 @@ export default function GamerEmailDialog() {
   const [error, setError] = useState<string>('');
   const [verifyCode, setVerifyCode] = useState<string>('');
   const { mutateAsync, isLoading: isVerifyLoading } = useGamerVerifyEmailCode();
-  const mutation = useMutation<Response<any>, any, GamerEmailParams, any>((data) => fetchGamerEmail(data), {
-    onSuccess: ({ code, msg }, variables) => {
-      if (code === 0) {
+  const mutation = useMutation<ApiResult<any>, any, GamerEmailParams, any>((data) => fetchGamerEmail(data), {
+    onSuccess: (result, variables) => {
+      if (result.ok) {
         setCount(60);
         setType('type2');
         setGamerEmailInfo({
@@ -41,7 +45,7 @@ export default function GamerEmailDialog() {
           wallet_address: variables.wallet_address,
         });
       } else {
-        toast.error(<Message title="Ah shit, here we go again" message={msg} />);
+        toastApiError(result.error);
       }
     },
   });
@@ -68,16 +72,16 @@ export default function GamerEmailDialog() {
 
   const onVerify = (code: string) => {
     const { wallet_address } = gamerEmailInfo;
-    mutateAsync({ wallet_address, email_verify_code: code }).then(({ code, msg }) => {
-      if (code === 0) {
-        toast.success(<Message message="Bind email successfully" title="Mission Complete" />);
+    mutateAsync({ wallet_address, email_verify_code: code }).then((result) => {
+      if (result.ok) {
+        toast.success(<Message message={t('email.bound')} title={t('common.missionComplete')} />);
         setLocalStorage(STORAGE_KEY.DEV_EMAIL_SUBMIT, 1);
         gamerEmailInfo.is_new_user && openLink(GAMER_BADGES[gamerInfo?.nft_level!].claim);
         setGamerEmailInfo((status) => ({ ...status, is_email_verified: true }));
         setOpen(false);
         queryClient.refetchQueries(['gamer_info', address]).then();
       } else {
-        toast.error(<Message title="Ah shit, here we go again" message={msg} />);
+        toastApiError(result.error);
       }
     });
   };
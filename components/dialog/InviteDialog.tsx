@@ -1,7 +1,7 @@
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { useCopyArcanaReferralLink, useCopyReferralLink, useTotalInvitationCount } from '@/hooks/dashboard/referral';
 import React, { useCallback, useEffect, useState } from 'react';
-import ReactGA from 'react-ga4';
 import { useRecoilState, useSetRecoilState } from 'recoil';
 import { useAccount } from 'wagmi';
 import { useIsMounted } from '../../hooks/useIsMounted';
@@ -26,7 +26,7 @@ function InviteDialog() {
 
   useEffect(() => {
     if (open) {
-      ReactGA.event({ category: EventCategory.Global, action: EventName.ToInvitation });
+      track(EventName.ToInvitation);
     }
   }, [open]);
 
@@ -170,7 +170,7 @@ function InviteDialog() {
                     <p
                       className="ml-3 cursor-pointer text-sm text-blue"
                       onClick={() => {
-                        ReactGA.event({ category: EventCategory.Global, action: EventName.RefDetail });
+                        track(EventName.RefDetail);
                       }}
                     >
                       More
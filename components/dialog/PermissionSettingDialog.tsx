@@ -6,10 +6,12 @@ import Button from '../button';
 import { getSteamProfileEdit, openLink } from '../../utils';
 import { gamerInfoAtom, gamerPermissionSettingAtom } from '../../store/gamer/state';
 import { useFetchReload } from '../../hooks/gamer';
+import { useTranslation } from '../../hooks/useTranslation';
 
 export default function PermissionSettingDialog() {
   const { address } = useAccount();
   const { mutate, isLoading } = useFetchReload();
+  const { t } = useTranslation();
   const gamerInfo = useRecoilValue(gamerInfoAtom);
   const [open, setOpen] = useRecoilState(gamerPermissionSettingAtom);
 
@@ -28,12 +30,9 @@ export default function PermissionSettingDialog() {
       onOpenChange={(op) => setOpen(op)}
       render={() => (
         <div className="w-full max-w-[760px]">
-          <div className="flex h-[28px] items-center justify-center text-xl">Permission Setting</div>
+          <div className="flex h-[28px] items-center justify-center text-xl">{t('permission.title')}</div>
           <div className="mt-8 sm:mt-4">
-            <div className="rounded-lg bg-red/20 px-4 py-2 text-sm text-red sm:p-2">
-              We cannot view your profile. Please go to Privacy Settings and set all profile items to &quot;Public&quot;
-              including secondary options. You can turn off after the airdrop!
-            </div>
+            <div className="rounded-lg bg-red/20 px-4 py-2 text-sm text-red sm:p-2">{t('permission.notice')}</div>
             <div className="mt-5 h-[346px] w-full max-w-[760px]">
               <img
                 className="h-full object-cover"
@@ -49,7 +48,7 @@ export default function PermissionSettingDialog() {
                 onClick={() => mutate({ wallet_address: address })}
               >
                 <div className="flex items-center justify-center">
-                  Reload Stats
+                  {t('permission.reload')}
                   <img className="ml-2 sm:hidden" src="/svg/reload.svg" alt="reload" />
                 </div>
               </Button>
@@ -59,7 +58,7 @@ export default function PermissionSettingDialog() {
                 onClick={() => gamerInfo && openLink(getSteamProfileEdit(gamerInfo.steam_id))}
               >
                 <div className="flex items-center justify-center">
-                  Open Steam
+                  {t('permission.openSteam')}
                   <img className="ml-2 w-6 rotate-180 sm:hidden" src="/svg/left.svg" alt="reload" />
                 </div>
               </Button>
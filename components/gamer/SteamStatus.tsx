@@ -1,6 +1,7 @@
 import SteamPowerLevel from '@/components/gamer/SteamPowerLevel';
 import { GenesisRole } from '@/constants';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { useFetchGenesisNFT } from '@/hooks/dashboard/genesis';
 import { useGamerGames } from '@/hooks/gamer';
 import { useIsMounted } from '@/hooks/useIsMounted';
@@ -12,7 +13,6 @@ import { useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'next/router';
 import Pagination from 'rc-pagination';
 import { useEffect, useMemo, useState } from 'react';
-import ReactGA from 'react-ga4';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 import { useAccount } from 'wagmi';
 import Button from '../button';
@@ -128,7 +128,7 @@ export default function SteamStatus() {
                           type="gradient"
                           className="w-[260px] md:w-full"
                           onClick={() => {
-                            ReactGA.event({ category: EventCategory.Assets, action: EventName.OpenSteam });
+                            track(EventName.OpenSteam);
                             openLink(getSteamProfileEdit(gamerInfo.steam_id));
                           }}
                         >
@@ -141,7 +141,7 @@ export default function SteamStatus() {
                           type="bordered"
                           className="w-[260px] md:w-full"
                           onClick={() => {
-                            ReactGA.event({ category: EventCategory.Assets, action: EventName.ReloadStatus });
+                            track(EventName.ReloadStatus);
                             refetch();
                           }}
                         >
@@ -0,0 +1,48 @@
+import React from 'react';
+import classNames from 'classnames';
+import Popover from '../popover';
+import { Locale, LOCALE_NAME } from '@/i18n';
+import { useSetLocale, useTranslation } from '@/hooks/useTranslation';
+
+function LanguageSwitch({ className }: { className?: string }) {
+  const { t, locale } = useTranslation();
+  const setLocale = useSetLocale();
+
+  return (
+    <Popover
+      placement="bottom-end"
+      className="z-40 border-none bg-transparent"
+      render={({ close }) => (
+        <div className="backdrop-box flex flex-col gap-1 rounded-lg p-2">
+          {Object.values(Locale).map((item) => (
+            <div
+              key={item}
+              className={classNames(
+                'cursor-pointer rounded-lg px-3 py-2 text-sm hover:bg-white/[0.12] hover:backdrop-blur-lg',
+                item === locale && 'text-blue',
+              )}
+              onClick={() => {
+                setLocale(item);
+                close();
+              }}
+            >
+              {LOCALE_NAME[item]}
+            </div>
+          ))}
+        </div>
+      )}
+    >
+      <div
+        className={classNames(
+          'flex-center h-10 cursor-pointer gap-1 rounded-full bg-[#44465F]/60 px-3 text-sm font-medium',
+          className,
+        )}
+        title={t('header.language')}
+      >
+        {locale === Locale.ZhCN ? '中' : 'EN'}
+      </div>
+    </Popover>
+  );
+}
+
+export default LanguageSwitch;
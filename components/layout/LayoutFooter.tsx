@@ -1,7 +1,32 @@
 import React from 'react';
+import classNames from 'classnames';
+import { useAnalyticsConsent } from '@/hooks/analytics';
+import { useTranslation } from '@/hooks/useTranslation';
 
 function LayoutFooter() {
-  return <div className="flex items-center justify-center py-4" />;
+  const { t } = useTranslation();
+  const [consent, setConsent] = useAnalyticsConsent();
+
+  return (
+    <div className="flex items-center justify-center py-4">
+      <label className="flex cursor-pointer items-center gap-2 text-xs text-gray-400" title={t('footer.analyticsHint')}>
+        <button
+          role="switch"
+          aria-checked={consent}
+          className={classNames('relative h-4 w-7 rounded-full transition-colors', consent ? 'bg-blue' : 'bg-[#44465F]')}
+          onClick={() => setConsent(!consent)}
+        >
+          <span
+            className={classNames(
+              'absolute top-0.5 h-3 w-3 rounded-full bg-white transition-all',
+              consent ? 'left-3.5' : 'left-0.5',
+            )}
+          />
+        </button>
+        {t('footer.analytics')}
+      </label>
+    </div>
+  );
 }
 
 export default React.memo(LayoutFooter);
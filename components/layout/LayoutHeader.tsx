@@ -1,6 +1,9 @@
 import { useFetchUserPowerLevel } from '@/hooks/dashboard/powerLevel';
+import { useRememberSession } from '@/hooks/session';
+import { useLocaleDetection } from '@/hooks/useTranslation';
 import { useFetchGlobalData, useIsLogged } from '@/hooks/user';
 import { fetchGamerEmailInfo, fetchInvitationCount } from '@/lib/api';
+import { unwrapResult } from '@/lib/result';
 import { userPowerLevelAtom } from '@/store/dashboard/state';
 import { gamerEmailDialogTypeAtom, gamerEmailInfoAtom } from '@/store/gamer/state';
 import { invitationCountAtom } from '@/store/invite/state';
@@ -8,11 +11,12 @@ import { digitalFormat } from '@/utils/format';
 import { useQuery } from '@tanstack/react-query';
 import { useRouter } from 'next/router';
 import React, { useEffect } from 'react';
-import ReactGA from 'react-ga4';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 import { useAccount } from 'wagmi';
 import Web3Status from '../web3/Web3Status';
+import LanguageSwitch from './LanguageSwitch';
 import LayoutHeaderExtra from './LayoutHeaderExtra';
+import { identify } from '@/lib/analytics';
 
 function LayoutHeader() {
   const router = useRouter();
@@ -25,6 +29,8 @@ function LayoutHeader() {
   const { activatedPL } = useRecoilValue(userPowerLevelAtom);
 
   useFetchUserPowerLevel(address);
+  useRememberSession();
+  useLocaleDetection();
 
   useEffect(() => {
     if (isLogged) {
@@ -35,39 +41,35 @@ function LayoutHeader() {
   useEffect(() => {
     // set GA ID
     if (!address) return;
-    ReactGA.set({ userId: address });
-    ReactGA.set({ wallet_address: address.substring(2) });
+    identify(address);
   }, [address]);
 
-  useQuery(['invitation_count', { addr: address }], () => fetchInvitationCount(address), {
+  useQuery(['invitation_count', { addr: address }], () => unwrapResult(fetchInvitationCount(address)), {
     enabled: !!address,
-    onSuccess: ({ data, code }) => {
-      if (code === 0) {
-        setInvitationCount([data[0], data[1]]);
-      }
+    onSuccess: (data) => {
+      setInvitationCount([data[0], data[1]]);
     },
   });
 
-  useQuery(['gamer_email_info', { wallet_address: address }], () => fetchGamerEmailInfo(address), {
+  useQuery(['gamer_email_info', { wallet_address: address }], () => unwrapResult(fetchGamerEmailInfo(address)), {
     enabled: !!address,
-    onSuccess: ({ data, code }) => {
-      if (code === 0) {
-        setGamerEmailInfo({
-          wallet_address: data.wallet_address,
-          email: data.email,
-          is_email_verified: data.is_email_verified,
-          is_new_user: !data.email,
-        });
-        setGamerEmailDialogTypeAtom(data.email ? 'type2' : 'type1');
-      } else {
-        setGamerEmailInfo({
-          wallet_address: undefined,
-          email: undefined,
-          is_email_verified: false,
-          is_new_user: true,
-        });
-        setGamerEmailDialogTypeAtom('type1');
-      }
+    onSuccess: (data) => {
+      setGamerEmailInfo({
+        wallet_address: data.wallet_address,
+        email: data.email,
+        is_email_verified: data.is_email_verified,
+        is_new_user: !data.email,
+      });
+      setGamerEmailDialogTypeAtom(data.email ? 'type2' : 'type1');
+    },
+    onError: () => {
+      setGamerEmailInfo({
+        wallet_address: undefined,
+        email: undefined,
+        is_email_verified: false,
+        is_new_user: true,
+      });
+      setGamerEmailDialogTypeAtom('type1');
     },
   });
 
@@ -78,12 +80,13 @@ function LayoutHeader() {
         <LayoutHeaderExtra className="ml-6 md:hidden" />
       </div>
       <div className="flex items-center gap-4 xs:flex-wrap xs:justify-end">
-        {['/dashboard', '/bridge'].includes(router.pathname) ? (
+        {['/dashboard', '/bridge', '/bridge/security'].includes(router.pathname) ? (
           <div className="relative flex items-center gap-2 text-sm/5.5 font-semibold backdrop-blur">
             <div className="text-gradient-yellow ml-0.5 text-[34px]/10 font-bold">{digitalFormat.integer(activatedPL)}</div>
             <img src="/img/pl/power_level.png" alt="PL" className="inline-block h-10 w-10" />
           </div>
         ) : null}
+        <LanguageSwitch />
         <Web3Status />
       </div>
     </header>
@@ -1,26 +1,28 @@
 import { STORAGE_KEY } from '@/constants';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { invitationCountSelector, inviteModalAtom } from '@/store/invite/state';
 import { openLink } from '@/utils';
 import { getLocalStorage, setLocalStorage } from '@/utils/storage';
 import { AnimatePresence, motion } from 'framer-motion';
 import { useRouter } from 'next/router';
 import React, { useEffect, useState } from 'react';
-import ReactGA from 'react-ga4';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 import { twMerge } from 'tailwind-merge';
 import BlueButton from '../button/BlueButton';
 import { BridgeSvg } from '../svg/BridgeSvg';
 import { InviteSvg } from '../svg/InviteSvg';
 import { LandingSiteSvg } from '../svg/LandingSiteSvg';
+import { useTranslation } from '@/hooks/useTranslation';
 
 function LayoutHeaderExtra({ className }: { className?: string }) {
   const router = useRouter();
+  const { t } = useTranslation();
   const [tipsClick, setTipsClick] = useState(true);
   const setInviteOpen = useSetRecoilState(inviteModalAtom);
   const invitationCount = useRecoilValue(invitationCountSelector);
   const landingSite = 'https://p12.network';
-  const hideRoute = ['/', '/arcana/[[...address]]', '/collab/qatar2022', '/bridge'];
+  const hideRoute = ['/', '/arcana/[[...address]]', '/collab/qatar2022', '/bridge', '/bridge/security'];
 
   useEffect(() => {
     const currentStatus = getLocalStorage(STORAGE_KEY.INVITE_TIPS_CLICK);
@@ -33,12 +35,12 @@ function LayoutHeaderExtra({ className }: { className?: string }) {
         type="blue"
         className="flex-center gap-1 rounded-full px-3 py-2.5 text-base/5 font-medium lg:hidden"
         onClick={() => {
-          ReactGA.event({ category: EventCategory.Global, action: EventName.ToLandingsite });
+          track(EventName.ToLandingsite);
           openLink(landingSite);
         }}
       >
         <LandingSiteSvg className="h-5 w-5 stroke-blue" />
-        &nbsp;P12 Landingsite
+        &nbsp;{t('header.landingSite')}
       </BlueButton>
       <AnimatePresence>
         {!hideRoute.includes(router.pathname) && (
@@ -54,7 +56,7 @@ function LayoutHeaderExtra({ className }: { className?: string }) {
                 type="blue"
                 className="flex-center mr-3 gap-1 rounded-full px-3 py-2.5 text-base/5 font-medium lg:hidden xl:hidden"
                 onClick={() => {
-                  ReactGA.event({ category: EventCategory.Global, action: EventName.ToBridge });
+                  track(EventName.ToBridge);
                   router.push('/bridge');
                 }}
               >
@@ -6,8 +6,10 @@ import { useCopyToClipboard } from 'react-use';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 import { inviteModalAtom, referralCodeAtom } from '@/store/invite/state';
 import { InviteRecordDialog } from '@/components/dialog/InviteRecordDialog';
+import { useTranslation } from '@/hooks/useTranslation';
 
 export default function ReferralMechanism() {
+  const { t } = useTranslation();
   const [, copyToClipboard] = useCopyToClipboard();
   const setRuleOpen = useSetRecoilState(inviteModalAtom);
   const referralCode = useRecoilValue(referralCodeAtom);
@@ -40,7 +42,7 @@ export default function ReferralMechanism() {
           <div
             onClick={() => {
               copyToClipboard(referralLink);
-              toast.success(<Message message="Copied to clipboard" title="Mission Complete" />);
+              toast.success(<Message message={t('common.copied')} title={t('common.missionComplete')} />);
             }}
             className="cursor-pointer rounded-lg bg-blue/20 p-3.5 text-center text-sm text-blue hover:bg-blue/30"
           >
@@ -1,12 +1,12 @@
 import Button from '@/components/button';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { useThemeAsset } from '@/hooks/theme';
 import { useIsMounted } from '@/hooks/useIsMounted';
 import { userPowerLevelAtom } from '@/store/dashboard/state';
 import { isConnectPopoverOpen } from '@/store/web3/state';
 import { digitalFormat } from '@/utils/format';
 import { useRouter } from 'next/router';
-import ReactGA from 'react-ga4';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 import { twMerge } from 'tailwind-merge';
 import { useAccount } from 'wagmi';
@@ -23,11 +23,11 @@ export default function PowerLevelBanner({ className }: { className?: string })
 
   const onClick = () => {
     if (!address) {
-      ReactGA.event({ category: EventCategory.Assets, action: EventName.SbtEntrance, label: 'none' });
+      track(EventName.SbtEntrance, 'none');
       setConnectOpen(true);
       return;
     }
-    ReactGA.event({ category: EventCategory.Assets, action: EventName.SbtEntrance, label: 'claimed' });
+    track(EventName.SbtEntrance, 'claimed');
     router.push('/dashboard').then();
   };
 
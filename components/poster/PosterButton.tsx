@@ -1,8 +1,8 @@
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { AnimatePresence, motion } from 'framer-motion';
 import { useRouter } from 'next/router';
 import { useEffect } from 'react';
-import ReactGA from 'react-ga4';
 import { useRecoilState, useRecoilValue } from 'recoil';
 import { useAccount } from 'wagmi';
 import { STORAGE_KEY } from '../../constants';
@@ -18,7 +18,7 @@ export default function PosterButton() {
   const posterCapture = useRecoilValue(posterCaptureAtom);
 
   const onClick = () => {
-    ReactGA.event({ category: EventCategory.Assets, action: EventName.MyPoster });
+    track(EventName.MyPoster);
     setGamerClaimedPoster(true);
     setShow(false);
   };
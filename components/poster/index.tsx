@@ -1,5 +1,4 @@
 import React, { useEffect, useRef } from 'react';
-import ReactGA from 'react-ga4';
 import classNames from 'classnames';
 import { motion } from 'framer-motion';
 import { useRouter } from 'next/router';
@@ -10,6 +9,8 @@ import Button from '../button';
 import { downloadImage } from '../../utils';
 import { GamerInfoData } from '../../lib/types';
 import { posterBtnShowAtom, posterCaptureAtom, posterStylesAtom } from '../../store/poster/state';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 
 export default function Poster({ gamerInfo }: { gamerInfo?: GamerInfoData }) {
   const ref = useRef(null);
@@ -21,7 +22,7 @@ export default function Poster({ gamerInfo }: { gamerInfo?: GamerInfoData }) {
 
   useEffect(() => {
     if (open) {
-      ReactGA.event({ action: 'Poster', category: 'Click', label: 'show' });
+      track(EventName.Poster, 'show');
     }
   }, [open]);
 
@@ -59,7 +60,7 @@ export default function Poster({ gamerInfo }: { gamerInfo?: GamerInfoData }) {
                   type="gradient"
                   style={{ width: 278 }}
                   onClick={() => {
-                    ReactGA.event({ action: 'Poster', category: 'Click', label: 'save' });
+                    track(EventName.Poster, 'save');
                     downloadImage(posterCapture);
                   }}
                 >
@@ -0,0 +1,31 @@
+import React from 'react';
+import Head from 'next/head';
+import { getProfileMeta, PublicProfile } from '@/lib/profile';
+
+type ProfileHeadProps = {
+  profile: PublicProfile;
+  origin: string;
+  path: string;
+};
+
+/**
+ * per-address title, description and share image, keys override the defaults in _app
+ */
+export default function ProfileHead({ profile, origin, path }: ProfileHeadProps) {
+  const { title, description } = getProfileMeta(profile);
+  const image = `${origin}/api/og/${profile.address}`;
+
+  return (
+    <Head>
+      <title>{title}</title>
+      <meta name="description" content={description} />
+      <meta property="og:title" content={title} key="title" />
+      <meta property="og:description" content={description} key="description" />
+      <meta property="og:url" content={origin + path} key="url" />
+      <meta property="og:image" content={image} key="image" />
+      <meta name="twitter:title" content={title} />
+      <meta name="twitter:description" content={description} />
+      <meta name="twitter:image" content={image} />
+    </Head>
+  );
+}
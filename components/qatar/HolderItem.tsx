@@ -1,6 +1,7 @@
-import ReactGA from 'react-ga4';
 import { openLink } from '../../utils';
 import React from 'react';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 
 type HolderItemProps = {
   type: string;
@@ -13,7 +14,7 @@ type HolderItemProps = {
 
 export default function HolderItem({ title, asset, subtitle, link, isHolder, type }: HolderItemProps) {
   const onClaim = () => {
-    ReactGA.event({ action: 'qatar', category: 'Click', label: type });
+    track(EventName.Qatar, type);
     openLink(link);
   };
 
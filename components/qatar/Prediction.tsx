@@ -1,5 +1,4 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import ReactGA from 'react-ga4';
 import classNames from 'classnames';
 import { toast } from 'react-toastify';
 import { useAccount, useNetwork, useSwitchNetwork } from 'wagmi';
@@ -11,12 +10,16 @@ import { useIsMounted } from '../../hooks/useIsMounted';
 import { useCollabContract } from '../../hooks/useContract';
 import { PredictionItem, PredictionOption, predictions } from './predictions';
 import { Hash } from "viem";
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
+import { useTranslation } from '@/hooks/useTranslation';
 
 type PredictionProps = {
   deadline?: number;
   signature?: Hash;
 };
 export default function Prediction({ signature, deadline }: PredictionProps) {
+  const { t } = useTranslation();
   const { chain } = useNetwork();
   const { address } = useAccount();
   const isMounted = useIsMounted();
@@ -40,18 +43,18 @@ export default function Prediction({ signature, deadline }: PredictionProps) {
     if (!prediction || !chain || !address || !signature || !collabContract || isLoading || isSubmitted || !deadline) return;
     try {
       setIsLoading(true);
-      ReactGA.event({ action: 'qatar', category: 'Click', label: 'quizsub' });
+      track(EventName.Qatar, 'quizsub');
       // @ts-ignore
       const transactionHash = await collabContract.write.saveStamp(['qatar2022', prediction.ipfs, deadline, signature]);
       toast.success(
         <Message
-          title="Mission Complete"
+          title={t('common.missionComplete')}
           message={
             <div>
-              <p>Submitted</p>
+              <p>{t('toast.submitted')}</p>
               <p>
                 <a className="text-blue" target="_blank" href={getEtherscanLink(transactionHash, 'transaction')}>
-                  View on Etherscan
+                  {t('toast.viewOnEtherscan')}
                 </a>
               </p>
             </div>
@@ -62,7 +65,7 @@ export default function Prediction({ signature, deadline }: PredictionProps) {
       setIsSubmitted(true);
     } catch (error: any) {
       if (error.error && error.error.data) {
-        toast.error(<Message title="Ah shit, here we go again" message="save error" />);
+        toast.error(<Message title={t('toast.errorTitle')} message={t('toast.saveError')} />);
       }
       setIsLoading(false);
     }
@@ -4,6 +4,7 @@ import { toast } from 'react-toastify';
 import Dialog from '../dialog';
 import Message from '../message';
 import { PredictionOption } from './predictions';
+import { useTranslation } from '@/hooks/useTranslation';
 
 type PredictionDialogProps = {
   open: boolean;
@@ -15,9 +16,10 @@ type PredictionDialogProps = {
 };
 
 export default function PredictionDialog({ open, onOpenChange, onSelect, title, subTitle, options }: PredictionDialogProps) {
+  const { t } = useTranslation();
   const handleSelect = (item: PredictionOption) => {
     if (item.id !== 1) {
-      toast.error(<Message message="Go wash your face and choose again" title="Ah shit, here we go again" />);
+      toast.error(<Message message={t('toast.chooseAgain')} title={t('toast.errorTitle')} />);
       return;
     }
     onSelect?.(item);
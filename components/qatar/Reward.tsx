@@ -1,16 +1,17 @@
 import { useEffect, useState } from 'react';
-import ReactGA from 'react-ga4';
 import classNames from 'classnames';
 import { useInterval } from 'react-use';
 import prettyMilliseconds from 'pretty-ms';
 import { openLink } from '../../utils';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 
 export default function Reward() {
   const claimTimestamp = 1671537600000;
   const [isRunning, setIsRunning] = useState(false);
   const [diffTime, setDiffTime] = useState<string>('');
   const onDiscordClick = () => {
-    ReactGA.event({ action: 'qatar', category: 'Click', label: 'dcinvite' });
+    track(EventName.Qatar, 'dcinvite');
     openLink('https://discord.gg/p12');
   };
 
@@ -22,7 +23,7 @@ export default function Reward() {
 
   const onClaim = () => {
     if (isRunning) return;
-    ReactGA.event({ action: 'qatar', category: 'Click', label: 'claim' });
+    track(EventName.Qatar, 'claim');
     openLink('https://galxe.com/P12/campaign/GCLG1UwRhx');
   };
 
@@ -1,6 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import { useAccount } from 'wagmi';
 import classNames from 'classnames';
+import StaleIndicator from '../stale';
 import Pagination from 'rc-pagination';
 import { AnimatePresence, motion, wrap } from 'framer-motion';
 import { LeftCircle } from '../svg/LeftCircle';
@@ -37,8 +38,10 @@ function DeveloperRanking() {
   const { address } = useAccount();
   const { data: verified } = useDeveloperVerifiedCount();
   const { data: devRankData } = useDeveloperRank(address);
-  const { data: timeRankData } = useDeveloperTimeRank({ page: timeRankPage, size: 10 });
-  const { data: tokenRankData } = useDeveloperTokenRank({ page: tokenRankPage, size: 10 });
+  const timeRankQuery = useDeveloperTimeRank({ page: timeRankPage, size: 10 });
+  const tokenRankQuery = useDeveloperTokenRank({ page: tokenRankPage, size: 10 });
+  const { data: timeRankData } = timeRankQuery;
+  const { data: tokenRankData } = tokenRankQuery;
   const imageIndex = wrap(0, devRankData?.games.length || 0, swipePage);
   const item = useMemo(() => devRankData?.games[imageIndex], [devRankData?.games, imageIndex]);
 
@@ -162,6 +165,7 @@ function DeveloperRanking() {
               />
             )}
           </div>
+          <StaleIndicator query={timeRankQuery} className="mt-2 justify-center" />
         </div>
         <div className="w-full">
           <h2 className="border-b border-gray-600 pb-3 text-center text-xl font-medium">Leaderboard</h2>
@@ -181,6 +185,7 @@ function DeveloperRanking() {
               />
             )}
           </div>
+          <StaleIndicator query={tokenRankQuery} className="mt-2 justify-center" />
         </div>
       </div>
     </div>
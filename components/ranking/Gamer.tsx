@@ -4,6 +4,7 @@ import { dashboardSelectedTabAtom } from '@/store/dashboard/state';
 import { isConnectPopoverOpen } from '@/store/web3/state';
 import { getCountMemo } from '@/utils';
 import classNames from 'classnames';
+import StaleIndicator from '@/components/stale';
 import { motion } from 'framer-motion';
 import { useRouter } from 'next/router';
 import Pagination from 'rc-pagination';
@@ -24,8 +25,10 @@ export default function GamerRanking() {
   const [tokenRankPage, setTokenRankPage] = useState(1);
   const { address } = useAccount();
   const { data: gamerRankData } = useGamerRank(address);
-  const { data: timeRankData } = useGamerTimeRank({ page: timeRankPage, size: 10 });
-  const { data: tokenRankData } = useGamerTokenRank({ page: tokenRankPage, size: 10 });
+  const timeRankQuery = useGamerTimeRank({ page: timeRankPage, size: 10 });
+  const tokenRankQuery = useGamerTokenRank({ page: tokenRankPage, size: 10 });
+  const { data: timeRankData } = timeRankQuery;
+  const { data: tokenRankData } = tokenRankQuery;
   const commonCount = useMemo(
     () => (verified ? (verified.verifiedCount[4] || 0) + (verified.verifiedCount[5] || 0) : 0),
     [verified],
@@ -154,6 +157,7 @@ export default function GamerRanking() {
               />
             )}
           </div>
+          <StaleIndicator query={timeRankQuery} className="mt-2 justify-center" />
         </div>
         <div className="w-full">
           <Tabs
@@ -196,6 +200,7 @@ export default function GamerRanking() {
                     />
                   )}
                 </div>
+                <StaleIndicator query={tokenRankQuery} className="mt-2 justify-center" />
               </>
             </TabPanel>
             <TabPanel>
@@ -27,7 +27,7 @@ export default function GamerTabs() {
         <div className="h-[350px] overflow-y-auto">
           <div className="grid gap-4">
             {timeRankData?.rankList.map((item, index) => (
-              <GamerTimeRankingItem data={item} key={item.appid || index} />
+              <GamerTimeRankingItem data={item} key={index} />
             ))}
           </div>
         </div>
@@ -37,7 +37,7 @@ export default function GamerTabs() {
         <div className="h-[350px] overflow-y-auto">
           <motion.div className="grid gap-4">
             {tokenRankData?.rankList.map((item, index) => (
-              <GamerTokenRankingItem data={item} key={item.appid || index} />
+              <GamerTokenRankingItem data={item} key={index} />
             ))}
           </motion.div>
         </div>
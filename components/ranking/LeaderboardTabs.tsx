@@ -27,7 +27,7 @@ export default function LeaderboardTabs() {
         <div className="h-[350px] overflow-y-auto">
           <motion.div className="grid gap-4">
             {gameTokenRankData?.rankList.map((item, index) => (
-              <GamerTokenRankingItem data={item} key={item.appid || index} />
+              <GamerTokenRankingItem data={item} key={index} />
             ))}
           </motion.div>
         </div>
@@ -4,7 +4,8 @@ import { isMobile } from 'react-device-detect';
 import { useSetRecoilState } from 'recoil';
 import { rankingLayoutIdAtom } from '../../store/ranking/state';
 import { useRouter } from 'next/router';
-import ReactGA from 'react-ga4';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 
 type RankingHomeCardProps = {
   title: string;
@@ -18,7 +19,7 @@ export function RankingHomeCard({ title, layoutId, children, routerId }: React.P
 
   const handleGoToRanking = () => {
     setLayoutId(layoutId);
-    ReactGA.event({ action: 'Ranking', category: 'Click', label: routerId });
+    track(EventName.Ranking, routerId);
     router.push('/ranking/' + routerId).then();
   };
   return (
@@ -0,0 +1,35 @@
+import React from 'react';
+import dayjs from 'dayjs';
+import classNames from 'classnames';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import { UseQueryResult } from '@tanstack/react-query';
+import { useTranslation } from '@/hooks/useTranslation';
+import { APP_STARTED_AT } from '@/lib/query-cache';
+
+dayjs.extend(relativeTime);
+
+type StaleIndicatorProps = {
+  query: Pick<UseQueryResult, 'dataUpdatedAt' | 'isFetching' | 'isError'>;
+  className?: string;
+};
+
+/**
+ * shown while a list renders data restored from the persisted cache, hidden once it is refetched
+ * @constructor
+ */
+export default function StaleIndicator({ query, className }: StaleIndicatorProps) {
+  const { t } = useTranslation();
+  const { dataUpdatedAt, isFetching, isError } = query;
+  // placeholder data has no update time
+  if (!dataUpdatedAt || dataUpdatedAt >= APP_STARTED_AT) return null;
+
+  return (
+    <p className={classNames('flex items-center gap-1.5 text-xs text-gray-400', className)}>
+      <span
+        className={classNames('h-1.5 w-1.5 rounded-full', isError ? 'bg-red' : 'bg-[#FFAA2C]', isFetching && 'animate-pulse')}
+      />
+      {t('cache.stale', { time: dayjs(dataUpdatedAt).fromNow() })}
+      {isFetching ? ` · ${t('cache.refreshing')}` : isError ? ` · ${t('cache.offline')}` : ''}
+    </p>
+  );
+}
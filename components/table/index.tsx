@@ -1,6 +1,6 @@
-import { useMemo } from 'react';
+import { Fragment, ReactNode, useMemo } from 'react';
 import classNames from 'classnames';
-import { useReactTable, flexRender, getCoreRowModel } from '@tanstack/react-table';
+import { useReactTable, flexRender, getCoreRowModel, getExpandedRowModel } from '@tanstack/react-table';
 import Empty from '../empty';
 import Loading from '../loading';
 
@@ -9,14 +9,21 @@ type TableProps = {
   columns: any[];
   className?: string;
   loading?: boolean;
+  // rendered under a row toggled by `row.getToggleExpandedHandler()` in a cell
+  renderSubRow?: (original: any) => ReactNode;
+  // keys the expanded state, defaults to the row index
+  getRowId?: (original: any) => string;
 };
 
-export default function Table({ dataSource, columns, className, loading }: TableProps) {
+export default function Table({ dataSource, columns, className, loading, renderSubRow, getRowId }: TableProps) {
   const data = useMemo(() => dataSource, [dataSource]);
   const { getRowModel, getHeaderGroups } = useReactTable({
     columns,
     data,
+    getRowId,
     getCoreRowModel: getCoreRowModel(),
+    getRowCanExpand: () => !!renderSubRow,
+    getExpandedRowModel: getExpandedRowModel(),
   });
   const { rows } = getRowModel();
 
@@ -37,15 +44,22 @@ export default function Table({ dataSource, columns, className, loading }: Table
         <tbody className="react-table-tbody">
           {rows.length ? (
             rows.map((row) => (
-              <tr key={row.id}>
-                {row.getVisibleCells().map((cell) => {
-                  return (
-                    <td className="react-table-cell" key={cell.id}>
-                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                    </td>
-                  );
-                })}
-              </tr>
+              <Fragment key={row.id}>
+                <tr>
+                  {row.getVisibleCells().map((cell) => {
+                    return (
+                      <td className="react-table-cell" key={cell.id}>
+                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                      </td>
+                    );
+                  })}
+                </tr>
+                {row.getIsExpanded() && renderSubRow && (
+                  <tr>
+                    <td colSpan={row.getVisibleCells().length}>{renderSubRow(row.original)}</td>
+                  </tr>
+                )}
+              </Fragment>
             ))
           ) : loading ? (
             <tr>
@@ -0,0 +1,80 @@
+import React from 'react';
+import classNames from 'classnames';
+import { toast } from 'react-toastify';
+import Jazzicon, { jsNumberForAddress } from 'react-jazzicon';
+import Message from '@/components/message';
+import { Session, useSessions, useOpenWalletAccounts } from '@/hooks/session';
+import { useTranslation } from '@/hooks/useTranslation';
+import { digitalFormat } from '@/utils/format';
+import { shortenAddress } from '@/utils';
+
+function SessionSwitcher() {
+  const { sessions, forget } = useSessions();
+  const openWalletAccounts = useOpenWalletAccounts();
+  const { t } = useTranslation();
+
+  // the wallet decides the connected account, only tell the user which one to select there
+  const onSwitch = async (session: Session) => {
+    if (session.isCurrent) return;
+    toast.info(
+      <Message
+        title={t('session.switchTitle')}
+        message={t('session.switchMessage', { address: shortenAddress(session.address) })}
+      />,
+    );
+    try {
+      await openWalletAccounts();
+    } catch (e: any) {
+      // closing the dialog is not an error
+      if (e?.code === 4001) return;
+      toast.error(<Message title={t('session.walletFailed')} message={e?.message} />);
+    }
+  };
+
+  if (sessions.length < 2) return null;
+
+  return (
+    <div className="flex w-60 flex-col gap-1">
+      <p className="px-2.5 text-xs text-gray-400">{t('session.accounts')}</p>
+      {sessions.map((session) => (
+        <div
+          key={session.address}
+          className={classNames(
+            'group flex items-center gap-2 rounded-lg p-2.5',
+            session.isCurrent ? 'bg-white/[0.08]' : 'cursor-pointer hover:bg-white/[0.12] hover:backdrop-blur-lg',
+          )}
+          title={session.isCurrent ? undefined : t('session.switchHint')}
+          onClick={() => onSwitch(session)}
+        >
+          <div className="h-6 w-6 shrink-0 overflow-hidden rounded-full">
+            {session.profile?.avatar ? (
+              <img className="h-full w-full object-cover" src={session.profile.avatar} alt="avatar" />
+            ) : (
+              <Jazzicon diameter={24} seed={jsNumberForAddress(session.address)} />
+            )}
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm">{session.profile?.showName ?? shortenAddress(session.address)}</p>
+            <p className="flex items-center gap-1 text-xs text-gray-400">
+              <span className={classNames('h-1.5 w-1.5 rounded-full', session.isValid ? 'bg-green' : 'bg-red')} />
+              {session.isValid ? t('session.signedIn') : t('session.expired')}
+              {session.profile?.activatedPL !== undefined && ` · ${digitalFormat.integer(session.profile.activatedPL)} PL`}
+            </p>
+          </div>
+          <img
+            className="h-4 w-4 cursor-pointer opacity-0 group-hover:opacity-60"
+            src="/svg/close.svg"
+            alt="forget"
+            title={t('session.forget')}
+            onClick={(e) => {
+              e.stopPropagation();
+              forget(session);
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default SessionSwitcher;
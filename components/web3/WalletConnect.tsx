@@ -1,12 +1,12 @@
 import Button from '@/components/button';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { downloadClickAtom } from '@/store/web3/state';
 import React from 'react';
-import ReactGA from 'react-ga4';
 import { useRecoilState } from 'recoil';
 import { useConnect } from 'wagmi';
 import { WalletType } from './WalletPopover';
-ReactGA.event({ category: EventCategory.Global, action: EventName.ToInvitation });
+track(EventName.ToInvitation);
 
 type WalletConnectProps = {
   setWalletType?: (type: WalletType) => void;
@@ -15,10 +15,10 @@ type WalletConnectProps = {
 function WalletConnect({ setWalletType }: WalletConnectProps) {
   const { connect, connectors } = useConnect({
     onSuccess: () => {
-      ReactGA.event({ category: EventCategory.Global, action: EventName.ConnectResult, label: 'success' });
+      track(EventName.ConnectResult, 'success');
     },
     onError: (error, { connector }) => {
-      ReactGA.event({ category: EventCategory.Global, action: EventName.ConnectResult, label: 'failed' });
+      track(EventName.ConnectResult, 'failed');
       if (error.name === 'ConnectorNotFoundError' && connector.name === 'MetaMask') {
         window.open('https://metamask.io');
         return;
@@ -36,7 +36,7 @@ function WalletConnect({ setWalletType }: WalletConnectProps) {
   };
 
   const onConnectClick = (type: string, index: number) => {
-    ReactGA.event({ category: EventCategory.Global, action: EventName.ConnectWallet, label: type });
+    track(EventName.ConnectWallet, type);
     connectWallet(connectors[index]);
   };
 
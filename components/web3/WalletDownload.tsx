@@ -4,7 +4,8 @@ import Image from 'next/image';
 import { WalletType } from './WalletPopover';
 import { motion } from 'framer-motion';
 import { openLink } from '@/utils';
-import ReactGA from 'react-ga4';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 
 type WalletDownloadProps = {
   setWalletType?: (type: WalletType) => void;
@@ -66,7 +67,7 @@ function WalletDownload({ setWalletType }: WalletDownloadProps) {
                 className="flex cursor-pointer items-center justify-center"
                 key={item.name}
                 onClick={() => {
-                  ReactGA.event({ action: 'Download', category: 'Click', label: item.name });
+                  track(EventName.WalletDownload, item.name);
                   openLink(item.url);
                 }}
               >
@@ -7,10 +7,10 @@ import Popover from '@/components/popover';
 import { watchAccount } from '@wagmi/core';
 import WalletPopover from './WalletPopover';
 import Web3StatusInner from './Web3StatusInner';
-import { useMutationLogin } from '@/hooks/user';
+import { useMutationLogin, useSessionExpiry } from '@/hooks/user';
 import { useIsMounted } from '@/hooks/useIsMounted';
 import { useRecoilState, useRecoilValue, useSetRecoilState } from 'recoil';
-import { getAccessToken } from '@/utils/authorization';
+import { getAccessToken, getAuthorization } from '@/utils/authorization';
 import { posterCaptureAtom } from '@/store/poster/state';
 import { isConnectPopoverOpen } from '@/store/web3/state';
 import PosterButton from '@/components/poster/PosterButton';
@@ -32,8 +32,9 @@ function Web3Status() {
   const { isConnected } = useAccount({
     onConnect({ address, isReconnected }) {
       unwatchAccount.current = watchAccount(({ isConnected, address }) => {
-        const accessToken = getAccessToken({ address });
-        if (address && isConnected && !accessToken) {
+        // expired tokens are re-prompted by useSessionExpiry
+        const authorization = getAuthorization({ address });
+        if (address && isConnected && !authorization) {
           signInWithEthereum(address).then();
         }
       });
@@ -44,6 +45,7 @@ function Web3Status() {
       unwatchAccount.current?.();
     },
   });
+  useSessionExpiry(signInWithEthereum);
   const { switchNetwork } = useSwitchNetwork({ chainId: polygon.id });
 
   const [isOpen, setIsOpen] = useRecoilState(isConnectPopoverOpen);
@@ -1,5 +1,4 @@
 import React, { useEffect, useMemo } from 'react';
-import ReactGA from 'react-ga4';
 import { useAccount } from 'wagmi';
 import classNames from 'classnames';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
@@ -10,6 +9,9 @@ import { useBABTBalanceOf } from '@/hooks/useContract';
 import { gamerEmailInfoAtom } from '@/store/gamer/state';
 import Popover from '../popover';
 import { useLogoutCallback } from '@/hooks/user';
+import SessionSwitcher from './SessionSwitcher';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 
 function Web3StatusInner() {
   const { address, connector } = useAccount();
@@ -22,7 +24,7 @@ function Web3StatusInner() {
   useEffect(() => {
     if (!address) return;
     if (isBABTHolder) {
-      ReactGA.event({ action: 'BABT', category: 'Show', label: address });
+      track(EventName.BabtHolder, address);
     }
     setIsBABTHolder(isBABTHolder);
   }, [isBABTHolder, setIsBABTHolder, address]);
@@ -36,6 +38,7 @@ function Web3StatusInner() {
           <div className="flex items-start gap-3">
             <div className="backdrop-box flex flex-col gap-3 rounded-lg p-3">
               <p>{gamerEmailInfo.email}</p>
+              <SessionSwitcher />
               <div
                 className="flex-center cursor-pointer rounded-lg p-2.5 hover:bg-white/[0.12] hover:backdrop-blur-lg"
                 onClick={logout}
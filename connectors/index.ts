@@ -1,16 +1,12 @@
 import { configureChains } from 'wagmi';
-import { bsc, bscTestnet, mainnet, polygon, linea, lineaTestnet } from 'wagmi/chains';
 import { publicProvider } from 'wagmi/providers/public';
 import { MetaMaskConnector } from 'wagmi/connectors/metaMask';
 import { InjectedConnector } from 'wagmi/connectors/injected';
 import { WalletConnectConnector } from 'wagmi/connectors/walletConnect';
 import { ParticleAuthConnector } from './particalAuth';
-import { PARTICLE_APP_ID, PARTICLE_CLIENT_KEY, PARTICLE_PROJECT_ID } from '@/constants';
+import { PARTICLE_APP_ID, PARTICLE_CLIENT_KEY, PARTICLE_PROJECT_ID, WAGMI_CHAINS } from '@/constants';
 
-export const { chains, publicClient, webSocketPublicClient } = configureChains(
-  [mainnet, bsc, bscTestnet, polygon, linea, lineaTestnet],
-  [publicProvider()],
-);
+export const { chains, publicClient, webSocketPublicClient } = configureChains(WAGMI_CHAINS, [publicProvider()]);
 
 export const metaMaskConnector = new MetaMaskConnector({ chains });
 
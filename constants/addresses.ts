@@ -1,18 +1,12 @@
-import { CHAIN_ID } from './index';
-import { Address } from 'wagmi';
+// per chain addresses are looked up through the registry in constants/chains.ts
 
-type AddressMap = { [chainId: number]: Address };
-
-export const BABT_ADDRESSES: AddressMap = {
-  [CHAIN_ID.BSC_MAINNET]: '0x2B09d47D550061f995A3b5C6F0Fd58005215D7c8',
-  [CHAIN_ID.BSC_TESTNET]: '0x571db18fff31378E772192352aD207b731827672',
-};
+export const BABT_ADDRESS_BSC = '0x2B09d47D550061f995A3b5C6F0Fd58005215D7c8';
+export const BABT_ADDRESS_BSC_TESTNET = '0x571db18fff31378E772192352aD207b731827672';
 
 export const COLLAB_ADDRESS = '0x15719A5A6CB3794342d86912280cb8EB3BA54360';
 
 export const BADGE_BRIDGE_ADDRESS = '0x90b4a3243dBCD5538f633e5908eE71475E09f7ec';
 export const BADGE_BRIDGE_ADDRESS_BSC = '0xBE06E0bAA90E495dF006F21A318b43d32E27192A';
 
-
 export const BADGE_BRIDGE_ADDRESS_OLD = '0x1e93e00143065e0ccfd4ea042b8278882b721017';
 export const BADGE_BRIDGE_ADDRESS_BSC_OLD = '0x819321F324f9285a0341D3adBed201b0B8e20950';
@@ -0,0 +1,196 @@
+import { bsc, polygon } from 'wagmi/chains';
+import type { P12CommunityNft } from '@/lib/types';
+import type { GalxeCampaign } from './bages';
+
+export type BadgeRarity = 'Common' | 'Uncommon' | 'Rare' | 'Epic';
+
+// badge-api reports rarity as the galxe color
+const GALXE_RARITY: Record<string, BadgeRarity> = {
+  White: 'Common',
+  Green: 'Uncommon',
+  Blue: 'Rare',
+  Purple: 'Epic',
+};
+
+export enum BadgeTargetId {
+  BestSupporterEpic = 'bs_epic',
+  DreamWeaver = 'dream_weaver',
+  BestSupporterRare = 'bs_rare',
+  BestSupporterUncommon = 'bs_uncommon',
+  BestSupporterCommon = 'bs_common',
+  StarMakerEpic = 'sm_epic',
+  StarMakerUncommon = 'sm_uncommon',
+}
+
+/**
+ * badge minted on P12 Chain for a bridged campaign badge
+ */
+export type BadgeTarget = {
+  name: string;
+  asset: string;
+  // counted in the Arcana community votes
+  vote?: { key: keyof P12CommunityNft; asset: string; title: string };
+};
+
+// declared in the order of the vote breakdown
+export const BADGE_TARGETS: Record<BadgeTargetId, BadgeTarget> = {
+  [BadgeTargetId.BestSupporterEpic]: {
+    name: 'P12 Best Supporter [EPIC]',
+    asset: 'https://cdn1.p12.games/airdrop/badge/cbadges/P12_bs_epic.gif',
+    vote: { key: 'votesP12BestSupporterPurple', asset: '/img/arcana/statusbar/bs_epic.webp', title: 'B.S EPIC' },
+  },
+  [BadgeTargetId.DreamWeaver]: {
+    name: 'P12 Dream Weaver',
+    asset: 'https://cdn1.p12.games/airdrop/badge/cbadges/P12_dw_rare.gif',
+    vote: { key: 'votesP12DreamWeaver', asset: '/img/arcana/statusbar/bs_dream_weaver.webp', title: 'DREAM WEAVER' },
+  },
+  [BadgeTargetId.BestSupporterRare]: {
+    name: 'P12 Best Supporter [RARE]',
+    asset: 'https://cdn1.p12.games/airdrop/badge/cbadges/P12_bs_rare.gif',
+    vote: { key: 'votesP12BestSupporterBlue', asset: '/img/arcana/statusbar/bs_rare.webp', title: 'B.S RARE' },
+  },
+  [BadgeTargetId.BestSupporterUncommon]: {
+    name: 'P12 Best Supporter [UNCOMMON]',
+    asset: 'https://cdn1.p12.games/airdrop/badge/cbadges/P12_bs_uncommon.gif',
+    vote: { key: 'votesP12BestSupporterGreen', asset: '/img/arcana/statusbar/bs_uncommon.webp', title: 'B.S UNCOMMON' },
+  },
+  [BadgeTargetId.BestSupporterCommon]: {
+    name: 'P12 Best Supporter [COMMON]',
+    asset: 'https://cdn1.p12.games/airdrop/badge/cbadges/P12_bs_common.gif',
+    vote: { key: 'votesWhiteBadge', asset: '/img/arcana/statusbar/bs_common.webp', title: 'B.S COMMON' },
+  },
+  [BadgeTargetId.StarMakerEpic]: {
+    name: 'P12 StarMaker [EPIC]',
+    asset: 'https://cdn1.p12.games/airdrop/badge/cbadges/P12_sm_epic.gif',
+  },
+  [BadgeTargetId.StarMakerUncommon]: {
+    name: 'P12 StarMaker [UNCOMMON]',
+    asset: 'https://cdn1.p12.games/airdrop/badge/cbadges/P12_sm_uncommon.gif',
+  },
+};
+
+// unlisted community campaigns bridge to the Best Supporter badge of their rarity
+const TARGET_BY_RARITY: Record<BadgeRarity, BadgeTargetId> = {
+  Common: BadgeTargetId.BestSupporterCommon,
+  Uncommon: BadgeTargetId.BestSupporterUncommon,
+  Rare: BadgeTargetId.BestSupporterRare,
+  Epic: BadgeTargetId.BestSupporterEpic,
+};
+
+/**
+ * a galxe campaign of P12 badges
+ */
+export type CatalogBadge = {
+  stringId: string;
+  type: GalxeCampaign['campaignType'];
+  rarity: BadgeRarity;
+  // chains the campaign minted on
+  chains: number[];
+  name: string;
+  // missing for retired campaigns, they are only shown from badge-api data
+  image?: string;
+  // AMA OATs are not bridged
+  target?: BadgeTargetId;
+  // no longer listed as a badge to collect, held ones still bridge
+  retired?: boolean;
+};
+
+const SOURCE_CHAINS = [polygon.id, bsc.id];
+
+const community = (
+  stringId: string,
+  rarity: BadgeRarity,
+  name: string,
+  target: BadgeTargetId = TARGET_BY_RARITY[rarity],
+): CatalogBadge => ({
+  stringId,
+  type: 'Community',
+  rarity,
+  chains: SOURCE_CHAINS,
+  name,
+  image: `https://cdn1.p12.games/airdrop/badge/cbadges/${stringId}.png`,
+  target,
+});
+
+const ama = (stringId: string, name: string, image: string): CatalogBadge => ({
+  stringId,
+  type: 'AMA',
+  rarity: 'Common',
+  chains: SOURCE_CHAINS,
+  name,
+  image,
+});
+
+/**
+ * every P12 galxe campaign, adding a campaign here is enough for the bridge, the badge list and the vote breakdown
+ */
+export const BADGE_CATALOG: CatalogBadge[] = [
+  community('GC6YGUUpaT', 'Common', 'P12 Discord Game'),
+  community('GCj44UtwmA', 'Common', 'Landing Site'),
+  community('GC8tsUUnhC', 'Common', 'P12 Best Supporter [White Rarity]'),
+  community('GCBmbUUvgc', 'Common', 'P12 Best Supporter [White Rarity]'),
+  community('GCB7bUUkWH', 'Common', 'P12 Best Supporter [White Rarity]'),
+  community('GCohBUjYYY', 'Uncommon', 'P12 Best Supporter [Uncommon]'),
+  community('GCypPUUFQR', 'Uncommon', 'P12 Best Supporter [Green Rarity]'),
+  community('GCALHUUGt5', 'Uncommon', 'P12 Giveaway Badge'),
+  community('GCDqcUUudB', 'Uncommon', 'P12 Nebula'),
+  community('GCXBcUUM56', 'Rare', 'P12 Dream Weaver', BadgeTargetId.DreamWeaver),
+  community('GCdRtUtc3W', 'Rare', 'P12 Best Supporter [Blue Rarity]'),
+  community('GCbVwUt9SD', 'Epic', 'P12 StarMaker', BadgeTargetId.StarMakerEpic),
+  community('GC8NPUUqJC', 'Epic', 'P12 Best Supporter [Purple Rarity]'),
+  {
+    stringId: 'GCBuzUFh4i',
+    type: 'Community',
+    rarity: 'Uncommon',
+    chains: SOURCE_CHAINS,
+    name: 'P12 StarMaker [Uncommon]',
+    target: BadgeTargetId.StarMakerUncommon,
+    retired: true,
+  },
+  ama('GC9ErUtrZN', 'Galxe Passport x P12', 'https://cdn-2.galxe.com/galaxy/images/p12/1663159642435340771.gif'),
+  ama('GCPkMUt6uC', 'P12 x BNB Chain AMA Session', 'https://cdn-2.galxe.com/galaxy/images/p12/1665891973072684256.gif'),
+  ama('GCdFZUtN2T', 'P12 x Ambrus AMA Campaign', 'https://cdn-2.galxe.com/galaxy/images/p12/1660194559480326424.gif'),
+  ama('GCmP7UtXdx', 'P12 x Revoland AMA Campaign', 'https://cdn-2.galxe.com/galaxy/images/p12/1662255786798438539.gif'),
+  ama('GCsJQUt6Xc', 'P12 x Space ID Integration OAT', 'https://cdn-2.galxe.com/galaxy/images/p12/1661315771979438039.gif'),
+];
+
+const CATALOG_BY_ID: Record<string, CatalogBadge | undefined> = Object.fromEntries(
+  BADGE_CATALOG.map((badge) => [badge.stringId, badge]),
+);
+
+/**
+ * @param stringId - galxe campaign id
+ */
+export const getCatalogBadge = (stringId?: string) => (stringId ? CATALOG_BY_ID[stringId] : undefined);
+
+/**
+ * campaigns still listed as badges to collect
+ * @param type
+ */
+export const getActiveBadges = (type: CatalogBadge['type']) =>
+  BADGE_CATALOG.filter((badge) => badge.type === type && !badge.retired);
+
+/**
+ * rarity name of a campaign, from the catalog or the galxe color badge-api reports
+ * @param campaign
+ */
+export const getBadgeRarity = (campaign?: Pick<GalxeCampaign, 'stringId' | 'rarity'>): string | undefined =>
+  getCatalogBadge(campaign?.stringId)?.rarity ?? (campaign && (GALXE_RARITY[campaign.rarity] ?? campaign.rarity));
+
+/**
+ * P12 Chain badge a campaign badge turns into once bridged, undefined for AMA OATs
+ * @param campaign
+ */
+export function getBadgeTarget(campaign?: Pick<GalxeCampaign, 'stringId' | 'rarity' | 'campaignType'>) {
+  if (!campaign || campaign.campaignType === 'AMA') return undefined;
+  const catalog = getCatalogBadge(campaign.stringId);
+  if (catalog) return catalog.target && BADGE_TARGETS[catalog.target];
+  const rarity = GALXE_RARITY[campaign.rarity];
+  return rarity && BADGE_TARGETS[TARGET_BY_RARITY[rarity]];
+}
+
+/**
+ * galxe page of a campaign, where its badge is claimed
+ * @param stringId
+ */
+export const getCampaignUrl = (stringId: string) => `https://galxe.com/P12/campaign/${stringId}`;
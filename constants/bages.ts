@@ -1,4 +1,4 @@
-import { AMA_NFT_CAMPAIGN_ID, COMMUNITY_NFT_CAMPAIGN_ID, GenesisRarity } from '@/constants/enum';
+import { GenesisRarity } from '@/constants/enum';
 import { Address } from 'wagmi';
 
 export const DEV_BADGES = {
@@ -150,146 +150,3 @@ export interface GalxeCampaign {
   rarity: string;
   campaignType: 'AMA' | 'Community';
 }
-
-export type BadgeInfo = {
-  campaign: string;
-  rarity: string;
-  polygonName: string;
-  BNBChainName: string;
-  polygonImage: string;
-  BNBChainImage?: string;
-  // equal P2 amount
-};
-
-export const P12_COMMUNITY_BADGE: Record<COMMUNITY_NFT_CAMPAIGN_ID, BadgeInfo> = {
-  [COMMUNITY_NFT_CAMPAIGN_ID.GC6YGUUpaT]: {
-    campaign: 'GC6YGUUpaT',
-    rarity: 'Common',
-    polygonName: 'P12 Discord Game',
-    BNBChainName: 'P12 Discord Game',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GC6YGUUpaT.png',
-  },
-  [COMMUNITY_NFT_CAMPAIGN_ID.GCj44UtwmA]: {
-    campaign: 'GCj44UtwmA',
-    rarity: 'Common',
-    polygonName: 'Landing Site',
-    BNBChainName: 'Landing Site',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GCj44UtwmA.png',
-  },
-  [COMMUNITY_NFT_CAMPAIGN_ID.GC8tsUUnhC]: {
-    campaign: 'GC8tsUUnhC',
-    rarity: 'Common',
-    polygonName: 'P12 Best Supporter [White Rarity]',
-    BNBChainName: 'P12 Best Supporter [White Rarity]',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GC8tsUUnhC.png',
-  },
-  [COMMUNITY_NFT_CAMPAIGN_ID.GCBmbUUvgc]: {
-    campaign: 'GCBmbUUvgc',
-    rarity: 'Common',
-    polygonName: 'P12 Best Supporter [White Rarity]',
-    BNBChainName: 'P12 Best Supporter [White Rarity]',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GCBmbUUvgc.png',
-  },
-  [COMMUNITY_NFT_CAMPAIGN_ID.GCB7bUUkWH]: {
-    campaign: 'GCB7bUUkWH',
-    rarity: 'Common',
-    polygonName: 'P12 Best Supporter [White Rarity]',
-    BNBChainName: 'P12 Best Supporter [White Rarity]',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GCB7bUUkWH.png',
-  },
-  [COMMUNITY_NFT_CAMPAIGN_ID.GCohBUjYYY]: {
-    campaign: 'GCohBUjYYY',
-    rarity: 'Uncommon',
-    polygonName: 'P12 Best Supporter [Uncommon]',
-    BNBChainName: 'P12 Best Supporter [Uncommon]',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GCohBUjYYY.png',
-  },
-  [COMMUNITY_NFT_CAMPAIGN_ID.GCypPUUFQR]: {
-    campaign: 'GCypPUUFQR',
-    rarity: 'Uncommon',
-    polygonName: 'P12 Best Supporter [Green Rarity]',
-    BNBChainName: 'P12 Best Supporter [Green Rarity]',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GCypPUUFQR.png',
-  },
-  [COMMUNITY_NFT_CAMPAIGN_ID.GCALHUUGt5]: {
-    campaign: 'GCALHUUGt5',
-    rarity: 'Uncommon',
-    polygonName: 'P12 Giveaway Badge',
-    BNBChainName: 'P12 Giveaway Badge',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GCALHUUGt5.png',
-  },
-  [COMMUNITY_NFT_CAMPAIGN_ID.GCDqcUUudB]: {
-    campaign: 'GCDqcUUudB',
-    rarity: 'Uncommon',
-    polygonName: 'P12 Nebula',
-    BNBChainName: 'P12 Nebula',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GCDqcUUudB.png',
-  },
-
-  [COMMUNITY_NFT_CAMPAIGN_ID.GCXBcUUM56]: {
-    campaign: 'GCXBcUUM56',
-    rarity: 'Rare',
-    polygonName: 'P12 Dream Weaver',
-    BNBChainName: 'P12 Dream Weaver',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GCXBcUUM56.png',
-  },
-  [COMMUNITY_NFT_CAMPAIGN_ID.GCdRtUtc3W]: {
-    campaign: 'GCdRtUtc3W',
-    rarity: 'Rare',
-    polygonName: 'P12 Best Supporter [Blue Rarity]',
-    BNBChainName: 'P12 Best Supporter [Blue Rarity]',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GCdRtUtc3W.png',
-  },
-  [COMMUNITY_NFT_CAMPAIGN_ID.GCbVwUt9SD]: {
-    campaign: 'GCbVwUt9SD',
-    rarity: 'Epic',
-    polygonName: 'P12 StarMaker',
-    BNBChainName: 'P12 StarMaker',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GCbVwUt9SD.png',
-  },
-  [COMMUNITY_NFT_CAMPAIGN_ID.GC8NPUUqJC]: {
-    campaign: 'GC8NPUUqJC',
-    rarity: 'Epic',
-    polygonName: 'P12 Best Supporter [Purple Rarity]',
-    BNBChainName: 'P12 Best Supporter [Purple Rarity]',
-    polygonImage: 'https://cdn1.p12.games/airdrop/badge/cbadges/GC8NPUUqJC.png',
-  },
-};
-
-export const P12_AMA_OAT_BADGE: Record<AMA_NFT_CAMPAIGN_ID, BadgeInfo> = {
-  [AMA_NFT_CAMPAIGN_ID.GC9ErUtrZN]: {
-    campaign: 'GC9ErUtrZN',
-    rarity: 'Common',
-    polygonName: 'Galxe Passport x P12',
-    BNBChainName: 'Galxe Passport x P12',
-    polygonImage: 'https://cdn-2.galxe.com/galaxy/images/p12/1663159642435340771.gif',
-  },
-  [AMA_NFT_CAMPAIGN_ID.GCPkMUt6uC]: {
-    campaign: 'GCPkMUt6uC',
-    rarity: 'Common',
-    polygonName: 'P12 x BNB Chain AMA Session',
-    BNBChainName: 'P12 x BNB Chain AMA Session',
-    polygonImage: 'https://cdn-2.galxe.com/galaxy/images/p12/1665891973072684256.gif',
-  },
-  [AMA_NFT_CAMPAIGN_ID.GCdFZUtN2T]: {
-    campaign: 'GCdFZUtN2T',
-    rarity: 'Common',
-    polygonName: 'P12 x Ambrus AMA Campaign',
-    BNBChainName: 'P12 x Ambrus AMA Campaign',
-    polygonImage: 'https://cdn-2.galxe.com/galaxy/images/p12/1660194559480326424.gif',
-  },
-  [AMA_NFT_CAMPAIGN_ID.GCmP7UtXdx]: {
-    campaign: 'GCmP7UtXdx',
-    rarity: 'Common',
-    polygonName: 'P12 x Revoland AMA Campaign',
-    BNBChainName: 'P12 x Revoland AMA Campaign',
-    polygonImage: 'https://cdn-2.galxe.com/galaxy/images/p12/1662255786798438539.gif',
-  },
-  [AMA_NFT_CAMPAIGN_ID.GCsJQUt6Xc]: {
-    campaign: 'GCsJQUt6Xc',
-    rarity: 'Common',
-    polygonName: 'P12 x Space ID Integration OAT',
-    BNBChainName: 'P12 x Space ID Integration OAT',
-    polygonImage: 'https://cdn-2.galxe.com/galaxy/images/p12/1661315771979438039.gif',
-  },
-};
@@ -0,0 +1,115 @@
+import { Address, Chain } from 'wagmi';
+import { bsc, bscTestnet, linea, lineaTestnet, mainnet, polygon } from 'wagmi/chains';
+import {
+  BABT_ADDRESS_BSC,
+  BABT_ADDRESS_BSC_TESTNET,
+  BADGE_BRIDGE_ADDRESS,
+  BADGE_BRIDGE_ADDRESS_BSC,
+  BADGE_BRIDGE_ADDRESS_BSC_OLD,
+  BADGE_BRIDGE_ADDRESS_OLD,
+} from './addresses';
+
+export type ChainInfo = {
+  id: number;
+  name: string;
+  icon?: string;
+  // block explorer root, `${explorer}/tx/${hash}`
+  explorer?: string;
+  // configured in wagmi, missing for chains the wallet can not switch to
+  chain?: Chain;
+  // badge bridge contracts, the old one only needs its approval revoked
+  bridge?: Address;
+  oldBridge?: Address;
+  // deployment block of the bridge, event replays start here and are skipped while it is unset
+  bridgeFromBlock?: bigint;
+  babt?: Address;
+  // badges can be bridged from this chain
+  bridgeSource?: boolean;
+  // badges are bridged to this chain
+  bridgeDestination?: boolean;
+};
+
+export const P12_CHAIN_ID = 20736;
+
+const fromWagmi = (chain: Chain): Pick<ChainInfo, 'id' | 'name' | 'explorer' | 'chain'> => ({
+  id: chain.id,
+  name: chain.name,
+  explorer: chain.blockExplorers?.default.url,
+  chain,
+});
+
+/**
+ * every chain the platform knows about, adding a chain here is enough for wallet, bridge and explorer links
+ */
+export const CHAIN_LIST: ChainInfo[] = [
+  fromWagmi(mainnet),
+  {
+    ...fromWagmi(bsc),
+    icon: '/img/bridge/bsc.svg',
+    bridge: BADGE_BRIDGE_ADDRESS_BSC,
+    oldBridge: BADGE_BRIDGE_ADDRESS_BSC_OLD,
+    babt: BABT_ADDRESS_BSC,
+    bridgeSource: true,
+  },
+  { ...fromWagmi(bscTestnet), babt: BABT_ADDRESS_BSC_TESTNET },
+  {
+    ...fromWagmi(polygon),
+    icon: '/img/bridge/polygon.svg',
+    bridge: BADGE_BRIDGE_ADDRESS,
+    oldBridge: BADGE_BRIDGE_ADDRESS_OLD,
+    bridgeSource: true,
+  },
+  fromWagmi(linea),
+  fromWagmi(lineaTestnet),
+  {
+    id: P12_CHAIN_ID,
+    name: 'P12 Chain',
+    icon: '/img/bridge/p12_chain.svg',
+    bridgeDestination: true,
+  },
+];
+
+export const CHAINS: Record<number, ChainInfo> = Object.fromEntries(CHAIN_LIST.map((item) => [item.id, item]));
+
+// chains passed to wagmi configureChains
+export const WAGMI_CHAINS = CHAIN_LIST.map((item) => item.chain).filter((chain): chain is Chain => !!chain);
+
+export const BRIDGE_SOURCE_CHAINS = CHAIN_LIST.filter((item) => item.bridgeSource);
+
+export const BRIDGE_DESTINATION_CHAIN = CHAIN_LIST.find((item) => item.bridgeDestination) as ChainInfo;
+
+export const ARCANA_CHAIN_ID = bsc.id;
+export const COLLAB_CHAIN_ID = parseInt(process.env.NEXT_PUBLIC_COLLAB_CHAIN_ID || String(bsc.id));
+
+/**
+ * get chain registry entry
+ * @param chainId
+ */
+export const getChainInfo = (chainId?: number | string) => (chainId ? CHAINS[Number(chainId)] : undefined);
+
+/**
+ * get chain display name, chains missing from CHAIN_LIST (e.g. newly allowed bridge destinations) show their id
+ * @param chainId
+ */
+export const getChainName = (chainId?: number | string) =>
+  getChainInfo(chainId)?.name ?? (chainId ? `Chain ${chainId}` : 'Unknown');
+
+/**
+ * get explorer url of a transaction, undefined when the chain has no explorer
+ * @param chainId
+ * @param hash
+ */
+export const getExplorerTxUrl = (chainId: number | string, hash: string) => {
+  const explorer = getChainInfo(chainId)?.explorer;
+  return explorer ? `${explorer}/tx/${hash}` : undefined;
+};
+
+/**
+ * get explorer url of an address, undefined when the chain has no explorer
+ * @param chainId
+ * @param address
+ */
+export const getExplorerAddressUrl = (chainId: number | string, address: string) => {
+  const explorer = getChainInfo(chainId)?.explorer;
+  return explorer ? `${explorer}/address/${address}` : undefined;
+};
@@ -1,6 +1,9 @@
 export enum EventCategory {
   Global = 'global',
   Assets = 'assets',
+  Bridge = 'bridge',
+  Click = 'Click',
+  Show = 'Show',
 }
 
 export enum EventName {
@@ -10,6 +13,8 @@ export enum EventName {
   DisconnectWallet = 'disconnect_wallet',
   ToLandingsite = 'to_landingsite',
   ToBridge = 'to_bridge',
+  WalletDownload = 'Download',
+  BabtHolder = 'BABT',
   // invitation
   ToInvitation = 'to_invitation',
   CopyRefLink = 'copy_ref_link',
@@ -18,6 +23,8 @@ export enum EventName {
   // collab
   CollabBanner = 'collab_banner',
   CollabCard = 'collab_card',
+  CollabItem = 'Collab-Item',
+  Qatar = 'qatar',
   // to sbt
   SbtEntrance = 'sbt_entrance',
   // sbt detail
@@ -39,16 +46,171 @@ export enum EventName {
   ViewCreations = 'view_creations',
   GetPl = 'get_pl',
   ReferralCopy = 'referral_copy',
+  // arcana
+  ArcanaInfo = 'Arcana-Info',
+  ArcanaRank = 'Arcana-Rank',
   // steam gamer
   SignInSteam = 'sign_in_steam',
   ErrorReload = 'error_reload',
   OpenSteam = 'open_steam',
   ReloadStatus = 'reload_status',
   MyPoster = 'my_poster',
+  Poster = 'Poster',
+  Ranking = 'Ranking',
   // steam developer
   AddAppid = 'add_appid',
   GenerateCode = 'generate_code',
   CopyCode = 'copy_code',
   VerifyAppid = 'verify_appid',
   GuideClick = 'guide_click',
+  // bridge
+  SelectBadge = 'select_badge',
+  SelectDestination = 'select_destination',
+  BadgeApprove = 'badge_approve',
+  BadgeAmountAdd = 'badge_amount_add',
+  BadgeAmountReduce = 'badge_amount_reduce',
+  BridgeConfirm = 'bridge_confirm',
+  BridgeResult = 'bridge_result',
+  ViewHistory = 'view_history',
+  RuleDetail = 'rule_detail',
 }
+
+type EventCatalog<T extends Record<EventName, string | undefined>> = T;
+
+type Outcome = 'success' | 'failed';
+
+type GenesisRoleLabel = 'gamer' | 'dev';
+
+/**
+ * label payload of every event, `undefined` when the event is sent without a label
+ */
+export type EventLabels = EventCatalog<{
+  [EventName.ConnectWallet]: string;
+  [EventName.ConnectResult]: Outcome;
+  [EventName.DisconnectWallet]: undefined;
+  [EventName.ToLandingsite]: undefined;
+  [EventName.ToBridge]: undefined;
+  // wallet name
+  [EventName.WalletDownload]: string;
+  // holder address
+  [EventName.BabtHolder]: string;
+  [EventName.ToInvitation]: undefined;
+  [EventName.CopyRefLink]: 'steam' | 'arcana';
+  [EventName.ShareRefLink]: 'steam' | 'arcana';
+  [EventName.RefDetail]: undefined;
+  [EventName.CollabBanner]: undefined;
+  // collab code
+  [EventName.CollabCard]: string | undefined;
+  [EventName.CollabItem]: string;
+  [EventName.Qatar]: string;
+  [EventName.SbtEntrance]: 'none' | 'claimed';
+  [EventName.GetNftTask]: 'dev_publish' | 'dev_verify_steam' | 'gamer_verify_steam' | 'gamer_become_voter';
+  [EventName.ClaimSbt]: GenesisRoleLabel;
+  // `${role}_${nftLevel}_${powerLevel}`
+  [EventName.UpgradeSbt]: `${GenesisRoleLabel}_${string}`;
+  // location hash
+  [EventName.SectionTab]: string;
+  [EventName.BecomeVoter]: undefined;
+  [EventName.CreateNow]: undefined;
+  [EventName.DownloadPopup]: undefined;
+  [EventName.DownloadLink]: 'editor' | 'app_google_play' | 'app_android_apk';
+  [EventName.EditorLoginVerify]: Outcome;
+  [EventName.ArcanaProfile]: undefined;
+  [EventName.ConnectTelegram]: undefined;
+  [EventName.ConnectTwitter]: undefined;
+  [EventName.ProfileSave]: undefined;
+  [EventName.ProfileCancel]: undefined;
+  [EventName.ViewCreations]: undefined;
+  [EventName.GetPl]: undefined;
+  [EventName.ReferralCopy]: undefined;
+  [EventName.ArcanaInfo]: 'Share' | 'Easter-Egg';
+  // rank index
+  [EventName.ArcanaRank]: string | undefined;
+  [EventName.SignInSteam]: Outcome;
+  [EventName.ErrorReload]: undefined;
+  [EventName.OpenSteam]: undefined;
+  [EventName.ReloadStatus]: undefined;
+  [EventName.MyPoster]: undefined;
+  [EventName.Poster]: 'show' | 'save';
+  // ranking id
+  [EventName.Ranking]: string;
+  // `${outcome}_${appid}`
+  [EventName.AddAppid]: `${Outcome}_${string}`;
+  [EventName.GenerateCode]: undefined;
+  [EventName.CopyCode]: undefined;
+  // `${outcome}_${appids}`
+  [EventName.VerifyAppid]: `${Outcome}_${string}`;
+  [EventName.GuideClick]: 'tokens' | 'add_code';
+  // galxe campaign id
+  [EventName.SelectBadge]: string | undefined;
+  // destination chain id
+  [EventName.SelectDestination]: string;
+  [EventName.BadgeApprove]: string | undefined;
+  [EventName.BadgeAmountAdd]: string | undefined;
+  [EventName.BadgeAmountReduce]: string | undefined;
+  // `${campaignId}_${count}`
+  [EventName.BridgeConfirm]: string;
+  [EventName.BridgeResult]: 'true' | 'false';
+  // `${chainId}_${txHash}`
+  [EventName.ViewHistory]: string;
+  [EventName.RuleDetail]: undefined;
+}>;
+
+export const EVENT_CATEGORY: Record<EventName, EventCategory> = {
+  [EventName.ConnectWallet]: EventCategory.Global,
+  [EventName.ConnectResult]: EventCategory.Global,
+  [EventName.DisconnectWallet]: EventCategory.Global,
+  [EventName.ToLandingsite]: EventCategory.Global,
+  [EventName.ToBridge]: EventCategory.Global,
+  [EventName.WalletDownload]: EventCategory.Click,
+  [EventName.BabtHolder]: EventCategory.Show,
+  [EventName.ToInvitation]: EventCategory.Global,
+  [EventName.CopyRefLink]: EventCategory.Global,
+  [EventName.ShareRefLink]: EventCategory.Global,
+  [EventName.RefDetail]: EventCategory.Global,
+  [EventName.CollabBanner]: EventCategory.Assets,
+  [EventName.CollabCard]: EventCategory.Assets,
+  [EventName.CollabItem]: EventCategory.Click,
+  [EventName.Qatar]: EventCategory.Click,
+  [EventName.SbtEntrance]: EventCategory.Assets,
+  [EventName.GetNftTask]: EventCategory.Assets,
+  [EventName.ClaimSbt]: EventCategory.Assets,
+  [EventName.UpgradeSbt]: EventCategory.Assets,
+  [EventName.SectionTab]: EventCategory.Assets,
+  [EventName.BecomeVoter]: EventCategory.Assets,
+  [EventName.CreateNow]: EventCategory.Assets,
+  [EventName.DownloadPopup]: EventCategory.Assets,
+  [EventName.DownloadLink]: EventCategory.Assets,
+  [EventName.EditorLoginVerify]: EventCategory.Assets,
+  [EventName.ArcanaProfile]: EventCategory.Assets,
+  [EventName.ConnectTelegram]: EventCategory.Assets,
+  [EventName.ConnectTwitter]: EventCategory.Assets,
+  [EventName.ProfileSave]: EventCategory.Assets,
+  [EventName.ProfileCancel]: EventCategory.Assets,
+  [EventName.ViewCreations]: EventCategory.Assets,
+  [EventName.GetPl]: EventCategory.Assets,
+  [EventName.ReferralCopy]: EventCategory.Assets,
+  [EventName.ArcanaInfo]: EventCategory.Click,
+  [EventName.ArcanaRank]: EventCategory.Click,
+  [EventName.SignInSteam]: EventCategory.Assets,
+  [EventName.ErrorReload]: EventCategory.Assets,
+  [EventName.OpenSteam]: EventCategory.Assets,
+  [EventName.ReloadStatus]: EventCategory.Assets,
+  [EventName.MyPoster]: EventCategory.Assets,
+  [EventName.Poster]: EventCategory.Click,
+  [EventName.Ranking]: EventCategory.Click,
+  [EventName.AddAppid]: EventCategory.Assets,
+  [EventName.GenerateCode]: EventCategory.Assets,
+  [EventName.CopyCode]: EventCategory.Assets,
+  [EventName.VerifyAppid]: EventCategory.Assets,
+  [EventName.GuideClick]: EventCategory.Assets,
+  [EventName.SelectBadge]: EventCategory.Bridge,
+  [EventName.SelectDestination]: EventCategory.Bridge,
+  [EventName.BadgeApprove]: EventCategory.Bridge,
+  [EventName.BadgeAmountAdd]: EventCategory.Bridge,
+  [EventName.BadgeAmountReduce]: EventCategory.Bridge,
+  [EventName.BridgeConfirm]: EventCategory.Bridge,
+  [EventName.BridgeResult]: EventCategory.Bridge,
+  [EventName.ViewHistory]: EventCategory.Bridge,
+  [EventName.RuleDetail]: EventCategory.Bridge,
+};
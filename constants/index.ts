@@ -1,4 +1,4 @@
-import { CHAIN_ID, GenesisClaim } from '@/constants/enum';
+import { GenesisClaim } from '@/constants/enum';
 
 export const BADGE_CONTRACT_ADDRESS = '0xb034d6bA0b6593Fa5107C6a55042b67746d44605';
 export const GALXE_LIST = 'https://galxe.com/mynfts/list';
@@ -10,12 +10,11 @@ export const GenesisClaim_TYPE = {
   [GenesisClaim.Claimed]: 'Obtained',
 };
 
-export const ARCANA_CHAIN_ID: CHAIN_ID = 56;
-export const COLLAB_CHAIN_ID: CHAIN_ID = parseInt(process.env.NEXT_PUBLIC_COLLAB_CHAIN_ID || '56');
-
 export * from './enum';
 export * from './bages';
+export * from './badgeCatalog';
 export * from './storage';
+export * from './chains';
 
 export const inputRegex = /^\d*(?:\\[.])?\d*$/;
 
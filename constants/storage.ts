@@ -9,4 +9,10 @@ export const STORAGE_KEY = {
   DEV_EMAIL_DAILY: 'dev_email_daily',
   COLLAB_FIRST_CLAIM_MAP: 'collab_first_claim_map',
   ACCESS_TOKENS: 'access_tokens',
+  MOCK_SCENARIO: 'mock_scenario',
+  LOCALE: 'locale',
+  ANALYTICS_CONSENT: 'analytics_consent',
+  QUERY_CACHE: 'query_cache',
+  BRIDGE_TXS: 'bridge_txs',
+  PREDICTION_DRAFTS: 'prediction_drafts',
 };
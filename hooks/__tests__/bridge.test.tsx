@@ -0,0 +1,133 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { RecoilRoot } from 'recoil';
+import { bsc, polygon } from 'wagmi/chains';
+import { GalxeBadge } from '@/constants';
+import { BRIDGE_DESTINATION_CHAIN, getChainInfo } from '@/constants/chains';
+import { useBridgeFlow } from '@/hooks/bridge';
+import { BridgeStepStatus } from '@/utils/bridgeCart';
+import { BatchApproval, BridgeDriver, BridgePhase } from '@/utils/bridgeFlow';
+import { BridgeTxKind, BridgeTxStatus } from '@/utils/bridgeTxs';
+
+const ACCOUNT = '0x000000000000000000000000000000000000a11c';
+const DST = BRIDGE_DESTINATION_CHAIN.id;
+
+let walletChainId: number = polygon.id;
+
+jest.mock('wagmi', () => ({
+  ...jest.requireActual('wagmi'),
+  useAccount: () => ({ address: ACCOUNT }),
+  useNetwork: () => ({ chain: { id: walletChainId } }),
+}));
+
+jest.mock('@/utils/bridgeDestination', () => ({
+  ...jest.requireActual('@/utils/bridgeDestination'),
+  fetchBridgeDestinations: async () => [DST],
+}));
+
+const BADGE: GalxeBadge = {
+  chainId: polygon.id,
+  image: '',
+  galxeCampaign: { cid: 0, stringId: 'GCj44UtwmA', name: 'Landing Site', rarity: 'White', campaignType: 'Community' },
+  contractAddress: '0x000000000000000000000000000000000000b0b0',
+  tokenId: 1,
+  tokenIds: [1, 2],
+};
+
+/**
+ * a chain and contracts in memory, approvals are kept per operator
+ */
+function createMockDriver(approval: BatchApproval) {
+  let nonce = 0;
+  const nextHash = () => `0x${(++nonce).toString(16).padStart(64, '0')}` as const;
+  const driver = {
+    getChainId: jest.fn(() => walletChainId),
+    switchChain: jest.fn(async (chainId: number) => {
+      walletChainId = chainId;
+    }),
+    getApproval: jest.fn(async () => ({ ...approval })),
+    setApproval: jest.fn(async (target, operator, approved: boolean) => {
+      if (operator === getChainInfo(target.chainId)?.bridge) approval.approved = approved;
+      else approval.oldApproved = approved;
+      return nextHash();
+    }),
+    sendBatch: jest.fn(async () => nextHash()),
+    waitForReceipt: jest.fn(async () => true),
+  } satisfies BridgeDriver;
+  return driver;
+}
+
+const renderFlow = (driver: BridgeDriver) => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <RecoilRoot>
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    </RecoilRoot>
+  );
+  const rendered = renderHook(() => useBridgeFlow(driver), { wrapper });
+  act(() => rendered.result.current.cart.toggle(BADGE));
+  return rendered;
+};
+
+describe('useBridgeFlow.advance', () => {
+  beforeEach(() => {
+    walletChainId = polygon.id;
+    localStorage.clear();
+  });
+
+  it('switches to the network of the cart', async () => {
+    walletChainId = bsc.id;
+    const driver = createMockDriver({ approved: true, oldApproved: false });
+    const { result, rerender } = renderFlow(driver);
+    await waitFor(() => expect(result.current.phase).toBe(BridgePhase.WrongNetwork));
+
+    await act(() => result.current.advance());
+    rerender();
+
+    expect(driver.switchChain).toHaveBeenCalledWith(polygon.id);
+    expect(result.current.phase).toBe(BridgePhase.Ready);
+  });
+
+  it('revokes the deprecated bridge, approves the bridge, then sends the batch', async () => {
+    const driver = createMockDriver({ approved: false, oldApproved: true });
+    const { result } = renderFlow(driver);
+    const { bridge, oldBridge } = getChainInfo(polygon.id) ?? {};
+    await waitFor(() => expect(result.current.phase).toBe(BridgePhase.NeedsRevoke));
+
+    await act(() => result.current.advance());
+    expect(driver.setApproval).toHaveBeenLastCalledWith(expect.objectContaining({ chainId: polygon.id }), oldBridge, false);
+    await waitFor(() => expect(result.current.phase).toBe(BridgePhase.NeedsApproval));
+
+    await act(() => result.current.advance());
+    expect(driver.setApproval).toHaveBeenLastCalledWith(expect.objectContaining({ chainId: polygon.id }), bridge, true);
+    await waitFor(() => expect(result.current.phase).toBe(BridgePhase.Ready));
+
+    await act(() => result.current.advance());
+    expect(driver.sendBatch).toHaveBeenCalledWith(expect.objectContaining({ tokenIds: [1, 2] }), ACCOUNT, DST);
+    expect(driver.waitForReceipt).toHaveBeenCalledTimes(2);
+    // BridgeTxWatcher confirms bridge transactions, until then the flow is sending
+    expect(result.current.phase).toBe(BridgePhase.Sending);
+    expect(result.current.cart.items).toEqual([]);
+    expect(result.current.txs[0]).toMatchObject({ kind: BridgeTxKind.Bridge, status: BridgeTxStatus.Pending, dstChainId: DST });
+  });
+
+  it('marks the step failed when the wallet rejects it', async () => {
+    const driver = createMockDriver({ approved: false, oldApproved: false });
+    driver.setApproval.mockRejectedValueOnce(new Error('User rejected the request.'));
+    const { result } = renderFlow(driver);
+    await waitFor(() => expect(result.current.phase).toBe(BridgePhase.NeedsApproval));
+
+    await act(() => result.current.advance());
+
+    expect(result.current.phase).toBe(BridgePhase.Failed);
+    expect(result.current.steps).toEqual([
+      expect.objectContaining({ kind: BridgeTxKind.Approve, status: BridgeStepStatus.Failed }),
+    ]);
+    expect(result.current.busy).toBe(false);
+    expect(driver.waitForReceipt).not.toHaveBeenCalled();
+  });
+});
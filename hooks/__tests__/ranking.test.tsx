@@ -0,0 +1,84 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { RecoilRoot } from 'recoil';
+import StaleIndicator from '@/components/stale';
+import { useGamerTimeRank } from '@/hooks/ranking';
+import { fetchGamerTimeRank } from '@/lib/api';
+import { APP_STARTED_AT, shouldPersistQuery } from '@/lib/query-cache';
+import { ApiError, ApiErrorKind } from '@/lib/result';
+import { GamerRankList } from '@/lib/types';
+
+jest.mock('@/lib/api', () => ({ fetchGamerTimeRank: jest.fn() }));
+
+const PAGE = { page: 1, size: 10 };
+
+const CACHED: GamerRankList = {
+  rankLength: 2,
+  size: 10,
+  page: 1,
+  rankList: [
+    { wallet_address: '0x01', person_name: 'alice' },
+    { wallet_address: '0x02', person_name: 'bob' },
+  ],
+};
+
+function TimeRank() {
+  const query = useGamerTimeRank(PAGE);
+  return (
+    <>
+      <StaleIndicator query={query} />
+      {query.data?.rankList.map((item, index) => (
+        <p key={index}>{item.person_name}</p>
+      ))}
+    </>
+  );
+}
+
+/**
+ * render with the rows of a previous session, as restored by the persister
+ */
+const renderRestored = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+    // the failed refetch is expected
+    logger: { log: console.log, warn: console.warn, error: () => undefined },
+  });
+  queryClient.setQueryData(['gamer_time_rank', PAGE], CACHED, { updatedAt: APP_STARTED_AT - 10 * 60_000 });
+  render(
+    <RecoilRoot>
+      <QueryClientProvider client={queryClient}>
+        <TimeRank />
+      </QueryClientProvider>
+    </RecoilRoot>,
+  );
+  return queryClient;
+};
+
+describe('persisted queries', () => {
+  it('keep the cached rows and show them offline when the refetch fails', async () => {
+    jest
+      .mocked(fetchGamerTimeRank)
+      .mockResolvedValue({ ok: false, error: new ApiError(ApiErrorKind.Network, 'Network Error') });
+    const queryClient = renderRestored();
+
+    await waitFor(() => expect(screen.getByText(/could not refresh/)).toBeTruthy());
+    expect(screen.getByText('alice')).toBeTruthy();
+    expect(screen.getByText('bob')).toBeTruthy();
+    // still written to storage, so the rows survive the next reload as well
+    expect(shouldPersistQuery(queryClient.getQueryCache().find(['gamer_time_rank', PAGE])!)).toBe(true);
+  });
+
+  it('replace the cached rows and hide the indicator once the refetch lands', async () => {
+    const rankList = [{ wallet_address: '0x03', person_name: 'carol' }];
+    jest.mocked(fetchGamerTimeRank).mockResolvedValue({ ok: true, data: { ...CACHED, rankLength: 1, rankList } });
+    renderRestored();
+
+    await waitFor(() => expect(screen.getByText('carol')).toBeTruthy());
+    expect(screen.queryByText('alice')).toBeNull();
+    expect(screen.queryByText(/Cached data/)).toBeNull();
+  });
+});
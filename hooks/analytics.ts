@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getAnalyticsConsent, setAnalyticsConsent } from '@/lib/analytics';
+
+/**
+ * analytics consent for the footer toggle, read after mount as SSR can not see the saved choice
+ */
+export const useAnalyticsConsent = () => {
+  const [consent, setConsent] = useState(true);
+
+  useEffect(() => {
+    setConsent(getAnalyticsConsent());
+  }, []);
+
+  const toggle = useCallback((granted: boolean) => {
+    setAnalyticsConsent(granted);
+    setConsent(granted);
+  }, []);
+
+  return [consent, toggle] as const;
+};
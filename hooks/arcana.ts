@@ -1,7 +1,8 @@
 import { isIOS, isMobile } from 'react-device-detect';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 import { useMutation, useQuery } from '@tanstack/react-query';
-import { ArcanaMemeEvaluateParams, ArcanaVotes, PredictionAnswerParams, PredictionItemData, Response } from '../lib/types';
+import { ArcanaMemeEvaluateParams, ArcanaVotes, PredictionAnswerParams, PredictionItemData } from '../lib/types';
+import { ApiResult, unwrapResult } from '../lib/result';
 import {
   arcanaGenesisNFTHolderAtom,
   arcanaMulticastCardAtom,
@@ -28,6 +29,7 @@ import {
   fetchArcanaVotes,
   fetchArcanaVotesRank,
 } from '../lib/api';
+import { getPredictionScore } from '@/utils/predictionScoring';
 
 export const useArcanaVotes = (walletAddress?: string) => {
   const setGenesisNFTHolder = useSetRecoilState(arcanaGenesisNFTHolderAtom);
@@ -38,10 +40,9 @@ export const useArcanaVotes = (walletAddress?: string) => {
   const setMulticastCard = useSetRecoilState(arcanaMulticastCardAtom);
   const isObserver = useRecoilValue(arcanaObserverAtom);
 
-  return useQuery(['arcana_votes', walletAddress], () => fetchArcanaVotes({ walletAddress }), {
+  return useQuery(['arcana_votes', walletAddress], () => unwrapResult(fetchArcanaVotes({ walletAddress })), {
     enabled: !!walletAddress,
-    select: (data) => (data.code === 200 ? data.data : undefined),
-    onSuccess: (data: ArcanaVotes | undefined) => {
+    onSuccess: (data: ArcanaVotes) => {
       setGenesisNFTHolder(!!data);
       if (!data) return;
       setSignBind(data.bound);
@@ -58,113 +59,89 @@ export const useArcanaVotes = (walletAddress?: string) => {
         setMulticastVideo(true);
       }
     },
+    onError: () => setGenesisNFTHolder(false),
   });
 };
 
 export const useArcanaMemeEvaluate = () => {
-  return useMutation<any, any, ArcanaMemeEvaluateParams, any>((params) => fetchArcanaMemeEvaluate(params));
+  return useMutation<ApiResult<any>, any, ArcanaMemeEvaluateParams, any>((params) => fetchArcanaMemeEvaluate(params));
 };
 
 export const useArcanaInviteesVotes = (walletAddress?: string) => {
-  return useQuery(['invitees_votes', walletAddress], () => fetchArcanaInviteesVotes({ walletAddress }), {
+  return useQuery(['invitees_votes', walletAddress], () => unwrapResult(fetchArcanaInviteesVotes({ walletAddress })), {
     enabled: !!walletAddress,
-    select: (data) => (data.code === 200 ? data.data : undefined),
   });
 };
 
 export const useArcanaDistinctAddressCount = () => {
-  return useQuery(['distinct_address_count'], () => fetchArcanaDistinctAddressCount(), {
-    select: (data) => (data.code === 200 ? data.data + 6951 : undefined),
+  return useQuery(['distinct_address_count'], () => unwrapResult(fetchArcanaDistinctAddressCount()), {
+    select: (count) => count + 6951,
   });
 };
 
 export const useArcanaPredictions = (walletAddress?: string) => {
-  return useQuery(['arcana_predictions', walletAddress], () => fetchArcanaPredictions({ walletAddress }), {
+  return useQuery(['arcana_predictions', walletAddress], () => unwrapResult(fetchArcanaPredictions({ walletAddress })), {
     enabled: !!walletAddress,
-    select: (data) => {
-      if (data.code === 200) {
-        const correctList: PredictionItemData[] = [];
-        const otherList: PredictionItemData[] = [];
-        data.data.map((item) => {
-          const answer = item.answer?.[0];
-          const correctAnswer = item.correctAnswer;
-          if (answer && correctAnswer.some((i) => i.id === answer.id)) {
-            correctList.push(item);
-          } else {
-            otherList.push(item);
-          }
-        });
-        return [...correctList, ...otherList];
-      }
-      return undefined;
+    select: (predictions) => {
+      // full hits first, then partial ones, the rest keeps the api order
+      const rank = (score?: number) => (score === 1 ? 2 : score ? 1 : 0);
+      return predictions
+        .map((item) => ({ ...item, score: getPredictionScore(item) }))
+        .sort((a, b) => rank(b.score) - rank(a.score));
     },
   });
 };
 
 export const useArcanaPredictionsOMG = (walletAddress?: string) => {
-  return useQuery(['arcana_predictions_omg', walletAddress], () => fetchArcanaPredictionsOMG({ walletAddress }), {
+  return useQuery(['arcana_predictions_omg', walletAddress], () => unwrapResult(fetchArcanaPredictionsOMG({ walletAddress })), {
     enabled: !!walletAddress,
-    select: (data) => (data.code === 200 ? data.data : undefined),
   });
 };
 
 export const useArcanaPredictionsAnswerCount = (walletAddress?: string) => {
-  return useQuery(['arcana_predictions_votes_count', walletAddress], () => fetchArcanaPredictionsAnswerCount(), {
-    select: (data) => {
-      if (data.code === 200) {
-        const map: Record<string, number> = {};
-        data.data.forEach((item) => {
-          map[item.predictionCode] = item.totalAnswers || 0;
-        });
-        return map;
-      }
-      return undefined;
+  return useQuery(['arcana_predictions_votes_count', walletAddress], () => unwrapResult(fetchArcanaPredictionsAnswerCount()), {
+    select: (counts) => {
+      const map: Record<string, number> = {};
+      counts.forEach((item) => {
+        map[item.predictionCode] = item.totalAnswers || 0;
+      });
+      return map;
     },
   });
 };
 
 export const useArcanaUnlock = () => {
-  return useMutation<any, any, { walletAddress?: string; predictionCode?: string }, Response<boolean>>((params) =>
+  return useMutation<ApiResult<boolean>, any, { walletAddress?: string; predictionCode?: string }, any>((params) =>
     fetchArcanaUnlock(params),
   );
 };
 
 export const useArcanaAnswer = () => {
-  return useMutation<any, any, PredictionAnswerParams, Response<any>>((params) => fetchArcanaAnswer(params));
+  return useMutation<ApiResult<any>, any, PredictionAnswerParams, any>((params) => fetchArcanaAnswer(params));
 };
 
 export const useArcanaAgent = () => {
-  return useMutation<any, any, { signature: string; walletAddress: string }, Response<boolean>>((params) =>
+  return useMutation<ApiResult<boolean>, any, { signature: string; walletAddress: string }, any>((params) =>
     fetchArcanaAgent(params),
   );
 };
 
 export const useArcanaAnswerOMG = () => {
-  return useQuery(['arcana_answer_omg'], () => fetchArcanaAnswerOMG(), {
-    select: (data) => (data.code === 200 ? data.data : undefined),
-  });
+  return useQuery(['arcana_answer_omg'], () => unwrapResult(fetchArcanaAnswerOMG()));
 };
 
 export const useArcanaAnswerOMG2 = () => {
-  return useQuery(['arcana_answer_omg2'], () => fetchArcanaAnswerOMG2(), {
-    select: (data) => (data.code === 200 ? data.data : undefined),
-  });
+  return useQuery(['arcana_answer_omg2'], () => unwrapResult(fetchArcanaAnswerOMG2()));
 };
 
 export const useArcanaRewardRank = () => {
-  return useQuery(['arcana_reward_rank'], () => fetchArcanaRewardRank(), {
-    select: (data) => (data.code === 200 ? data.data : undefined),
-  });
+  return useQuery(['arcana_reward_rank'], () => unwrapResult(fetchArcanaRewardRank()));
 };
 
 export const useArcanaVotesRank = () => {
-  return useQuery(['arcana_votes_rank'], () => fetchArcanaVotesRank(), {
-    select: (data) => (data.code === 200 ? data.data : undefined),
-  });
+  return useQuery(['arcana_votes_rank'], () => unwrapResult(fetchArcanaVotesRank()));
 };
 
 export const useArcanaRecentInvitation = () => {
-  return useQuery(['arcana_recent_invitation'], () => fetchArcanaRecentInvitation(), {
-    select: (data) => (data.code === 200 ? data.data : undefined),
-  });
+  return useQuery(['arcana_recent_invitation'], () => unwrapResult(fetchArcanaRecentInvitation()));
 };
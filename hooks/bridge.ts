@@ -1,123 +1,433 @@
-import { useQuery } from '@tanstack/react-query';
-import { Address } from 'wagmi';
-import { GraphQLClient } from 'graphql-request';
+import { useCallback, useMemo, useState } from 'react';
+import { useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRecoilState } from 'recoil';
+import { Address, useAccount, useNetwork } from 'wagmi';
+import { Hash } from 'viem';
+import dayjs from 'dayjs';
 import { useContract } from './useContract';
 import { badgeABI, bridgeABI } from '@/abis';
-import { BADGE_BRIDGE_ADDRESS, BADGE_BRIDGE_ADDRESS_BSC, BADGE_BRIDGE_ADDRESS_BSC_OLD, BADGE_BRIDGE_ADDRESS_OLD } from '@/constants/addresses';
-import { polygon } from 'wagmi/chains';
 import { GalxeBadge } from '@/constants';
+import { BRIDGE_DESTINATION_CHAIN, getChainInfo } from '@/constants/chains';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
+import { fetchBadgeHistory, fetchBadgeNFT, fetchBadgePowerLevel, fetchBadgeTokens } from '@/lib/badge-api';
 import { fetchPowerLevel } from '@/lib/api-nest';
+import { unwrapResult } from '@/lib/result';
+import { bridgeTxsAtom } from '@/store/bridge/state';
+import {
+  BridgeBatch,
+  BridgeCartItem,
+  BridgeStep,
+  BridgeStepStatus,
+  getBatchHistoryBadges,
+  getCartItemKey,
+  groupBridgeCart,
+} from '@/utils/bridgeCart';
+import { BridgeDriver, BridgePhase, getBatchKey, getBridgePhase, wagmiBridgeDriver } from '@/utils/bridgeFlow';
+import { OldBridgeApproval, fetchOldBridgeApprovals, getApprovalKey, getHeldBadgeContracts } from '@/utils/bridgeApprovals';
+import { fetchBridgeDestinations, getCommonDestinations, isDstNotAllowedError } from '@/utils/bridgeDestination';
+import { buildBadgeCollection } from '@/utils/badgeCollection';
+import { fetchOnChainBridgeHistory, isHistoryBehind, mergeBridgeHistory } from '@/utils/bridgeHistory';
+import { EMPTY_REFUND, RefundConfig, addRefund, fetchRefundConfig, getBadgeRefund } from '@/utils/bridgeRefund';
+import { BridgeTxKind, BridgeTxRecord, BridgeTxStatus, setBridgeTxs } from '@/utils/bridgeTxs';
 
-const nftQuery = `
-    query($address: String!) {   
-        user(addr: $address) {
-          address
-          galxeBadges{
-            chainId   
-            image      
-            galxeCampaign {
-              cid           
-              stringId      
-              name          
-              rarity        
-              campaignType  
-            }
-            contractAddress  
-            tokenId    
-          }
-        }
-      }
-    `;
-
-const historyQuery = `
-    query($address: String!) {   
-        user(addr: $address) {
-          bridgeTxs {
-            hash   
-            chainId  
-            timestamp   
-            galxeBadges{   
-              tokenId   
-              image  
-              galxeCampaign {
-                cid
-                name
-                stringId
-              }
-            }
-          }
-        }
-      }
-    `;
+export type { BridgeTxs } from '@/lib/badge-api';
 
-const PowerLevelQuery = `
-    query($address: String!) {   
-        user(addr: $address) {
-          badgePL
-        }
-      }
-    `;
-
-export type BridgeTxs = {
-  chainId: string;
-  hash: string;
-  timestamp: number;
-  galxeBadges: GalxeBadge[];
+export const useBadgeNFT = (address?: Address) => {
+  return useQuery(['fetch_badge_nft', address], () => (address ? fetchBadgeNFT(address) : []));
 };
 
-export type HistoryResult = {
-  user: {
-    bridgeTxs: BridgeTxs[];
-  };
+export const useBadgeHistory = (address?: Address) => {
+  return useQuery(['fetch_badge_history', address], () => (address ? fetchBadgeHistory(address) : []));
 };
 
-const client = new GraphQLClient('https://badge-api.p12.games/graphql');
+export const useBadgeTokens = (address?: Address, enabled = true) => {
+  return useQuery(['fetch_badge_tokens', address], () => (address ? fetchBadgeTokens(address) : []), {
+    enabled: !!address && enabled,
+  });
+};
 
-export const useBadgeNFT = (address?: Address) => {
-  return useQuery(['fetch_badge_nft', address], async () => {
-    if (!address) return [];
-    const variables = {
-      address: address,
-    };
-    const data = await client.request(nftQuery, variables);
-    return data;
+/**
+ * refund configuration of the bridge on each chain, replayed from its PlRefundSet and UsdRefundSet events
+ * @param chainIds
+ */
+export const useBridgeRefunds = (chainIds: number[]) => {
+  const queries = useQueries({
+    queries: chainIds.map((chainId) => ({
+      queryKey: ['fetch_bridge_refunds', chainId],
+      queryFn: () => fetchRefundConfig(chainId),
+      staleTime: 10 * 60 * 1000,
+    })),
   });
+  const configs: Record<number, RefundConfig | undefined> = Object.fromEntries(
+    chainIds.map((chainId, i) => [chainId, queries[i].data]),
+  );
+  return { configs, isLoading: queries.some((query) => query.isLoading) };
 };
 
-export const useBadgeHistory = <T>(address?: Address) => {
-  return useQuery(['fetch_badge_history', address], async () => {
-    if (!address) return {} as T;
-    const variables = {
-      address: address,
-    };
-    const data = await client.request(historyQuery, variables);
-    return data as T;
+/**
+ * destination chains allowed by the bridge of each source chain
+ * @param chainIds - source chains
+ */
+export const useBridgeDestinations = (chainIds: number[]) => {
+  const queries = useQueries({
+    queries: chainIds.map((chainId) => ({
+      queryKey: ['fetch_bridge_destinations', chainId],
+      queryFn: () => fetchBridgeDestinations(chainId),
+      staleTime: 10 * 60 * 1000,
+    })),
   });
+  const destinations: Record<number, number[] | undefined> = Object.fromEntries(
+    chainIds.map((chainId, i) => [chainId, queries[i].data]),
+  );
+  const refetch = () => Promise.all(queries.map((query) => query.refetch()));
+  return { destinations, isFetching: queries.some((query) => query.isFetching), refetch };
 };
 
-export const usePowerLevel = <T>(address?: Address) => {
-  return useQuery(['fetch_power_level', address], async () => {
-    if (!address) return {} as T;
-    const variables = {
-      address: address,
-    };
-    const data = await client.request(PowerLevelQuery, variables);
-    return data as T;
+/**
+ * bridge history rebuilt from recent SendNFT events, only loaded while badge-api fails or has not indexed
+ * a confirmed bridge of local
+ * @param address
+ * @param local - transactions sent from this browser by address
+ */
+export const useOnChainBridgeHistory = (address?: Address, local: BridgeTxRecord[] = []) => {
+  const { data: indexed, isError } = useBadgeHistory(address);
+  const enabled = !!address && (isError || (!!indexed && isHistoryBehind(indexed, local)));
+  return useQuery(['fetch_bridge_logs', address], () => (address ? fetchOnChainBridgeHistory(address) : { txs: [] }), {
+    enabled,
+    staleTime: 5 * 60 * 1000,
   });
 };
 
+export const usePowerLevel = (address?: Address) => {
+  return useQuery(['fetch_power_level', address], () => (address ? fetchBadgePowerLevel(address) : 0));
+};
+
 export function useNFTContract({ token, chainId }: { token?: Address; chainId?: number }) {
   return useContract(token, badgeABI, chainId);
 }
 
 export function useBridgeContract({ chainId }: { chainId?: number }) {
-  const address = chainId === polygon.id ? BADGE_BRIDGE_ADDRESS : BADGE_BRIDGE_ADDRESS_BSC;
-  return useContract(address, bridgeABI, chainId);
+  return useContract(getChainInfo(chainId)?.bridge, bridgeABI, chainId);
 }
 
 export const useFetchPowerLevel = (address?: Address) => {
-  return useQuery(['fetch_power_level_2', address], () => fetchPowerLevel(address), {
-    select: (data) => data.data,
+  return useQuery(['fetch_power_level_2', address], () => unwrapResult(fetchPowerLevel(address)), {
     enabled: !!address,
   });
 };
+
+/**
+ * bridge page transactions of the connected wallet, loaded by BridgeTxWatcher
+ */
+export const useBridgeTxs = () => {
+  const { address } = useAccount();
+  const [txs, setTxs] = useRecoilState(bridgeTxsAtom);
+
+  const save = useCallback(
+    (update: (txs: BridgeTxRecord[]) => BridgeTxRecord[]) =>
+      setTxs((prev) => {
+        const next = update(prev);
+        address && setBridgeTxs(address, next);
+        return next;
+      }),
+    [address, setTxs],
+  );
+
+  const addTx = useCallback(
+    (tx: BridgeTxRecord) => save((prev) => [tx, ...prev.filter((item) => item.hash !== tx.hash)]),
+    [save],
+  );
+
+  const updateTx = useCallback(
+    (hash: BridgeTxRecord['hash'], patch: Partial<BridgeTxRecord>) =>
+      save((prev) => prev.map((item) => (item.hash === hash ? { ...item, ...patch } : item))),
+    [save],
+  );
+
+  return { txs, addTx, updateTx };
+};
+
+/**
+ * badges picked for bridging with their amounts, and the sendBatchNFT batches they make up
+ */
+export const useBridgeCart = () => {
+  const [items, setItems] = useState<BridgeCartItem[]>([]);
+
+  const has = useCallback(
+    (badge: GalxeBadge) => items.some((item) => getCartItemKey(item.badge) === getCartItemKey(badge)),
+    [items],
+  );
+
+  const toggle = useCallback((badge: GalxeBadge) => {
+    const key = getCartItemKey(badge);
+    setItems((prev) =>
+      prev.some((item) => getCartItemKey(item.badge) === key)
+        ? prev.filter((item) => getCartItemKey(item.badge) !== key)
+        : [...prev, { badge, tokenIds: badge.tokenIds ?? [badge.tokenId] }],
+    );
+  }, []);
+
+  const toggleToken = useCallback((badge: GalxeBadge, tokenId: number) => {
+    const key = getCartItemKey(badge);
+    setItems((prev) =>
+      prev.map((item) => {
+        if (getCartItemKey(item.badge) !== key) return item;
+        const tokenIds = item.tokenIds.includes(tokenId)
+          ? item.tokenIds.filter((id) => id !== tokenId)
+          : [...item.tokenIds, tokenId];
+        return { ...item, tokenIds };
+      }),
+    );
+  }, []);
+
+  const setTokens = useCallback((badge: GalxeBadge, tokenIds: number[]) => {
+    const key = getCartItemKey(badge);
+    setItems((prev) => prev.map((item) => (getCartItemKey(item.badge) === key ? { ...item, tokenIds } : item)));
+  }, []);
+
+  // drop the badges of the batches already sent
+  const removeBatches = useCallback((batches: BridgeBatch[]) => {
+    const keys = new Set(batches.flatMap((batch) => batch.items.map((item) => getCartItemKey(item.badge))));
+    setItems((prev) => prev.filter((item) => !keys.has(getCartItemKey(item.badge))));
+  }, []);
+
+  const clear = useCallback(() => setItems([]), []);
+
+  const batches = useMemo(() => groupBridgeCart(items), [items]);
+
+  return { items, batches, has, toggle, toggleToken, setTokens, removeBatches, clear };
+};
+
+/**
+ * headless bridge flow over the cart, checks the approvals of every batch, derives its BridgePhase
+ * and runs the primary action of that phase
+ * @param driver - chain and contract access, wagmi unless a mock is passed in
+ */
+export const useBridgeFlow = (driver: BridgeDriver = wagmiBridgeDriver) => {
+  const { address } = useAccount();
+  const { chain } = useNetwork();
+  const { txs, addTx } = useBridgeTxs();
+  const queryClient = useQueryClient();
+  const cart = useBridgeCart();
+  const [steps, setSteps] = useState<BridgeStep[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [dstChainId, setDstChainId] = useState(BRIDGE_DESTINATION_CHAIN.id);
+
+  const { batches } = cart;
+  const sourceChainIds = Array.from(new Set(batches.map((batch) => batch.chainId)));
+  const destinationsQuery = useBridgeDestinations(sourceChainIds);
+  const destinations = getCommonDestinations(destinationsQuery.destinations, sourceChainIds);
+  const batchKeys = batches.map(getBatchKey);
+  const approvalsQuery = useQuery(
+    ['fetch_bridge_approvals', address, batchKeys],
+    async () => {
+      const approvals = await Promise.all(batches.map((batch) => driver.getApproval(batch, address as Address)));
+      return Object.fromEntries(batchKeys.map((key, i) => [key, approvals[i]]));
+    },
+    { enabled: !!address && batches.length > 0, keepPreviousData: true },
+  );
+
+  const { phase, action } = getBridgePhase({
+    batches,
+    chainId: chain?.id,
+    approvals: approvalsQuery.data ?? {},
+    dstChainId,
+    destinations,
+    steps,
+    txs,
+  });
+  const checking =
+    phase === BridgePhase.Select && batches.length > 0 && (approvalsQuery.isFetching || destinationsQuery.isFetching);
+
+  const isStep = (kind: BridgeTxKind, batch: BridgeBatch) => (step: BridgeStep) =>
+    step.kind === kind && getBatchKey(step.batch) === getBatchKey(batch);
+
+  const patchStep = (kind: BridgeTxKind, batch: BridgeBatch, patch: Partial<BridgeStep>) =>
+    setSteps((prev) => prev.map((step) => (isStep(kind, batch)(step) ? { ...step, ...patch } : step)));
+
+  // as previewed, undefined when the refund configuration of the chain is not loaded
+  const getExpectedRefund = (batch: BridgeBatch) => {
+    const config = queryClient.getQueryData<RefundConfig>(['fetch_bridge_refunds', batch.chainId]);
+    if (!config) return undefined;
+    return batch.items.reduce((sum, { badge, tokenIds }) => {
+      const { pl, usd } = getBadgeRefund(config, badge);
+      return addRefund(sum, { pl: pl * tokenIds.length, usd: usd * tokenIds.length });
+    }, EMPTY_REFUND);
+  };
+
+  const runStep = async (kind: BridgeTxKind, batch: BridgeBatch, account: Address) => {
+    setSteps((prev) => [
+      ...prev.filter((step) => !isStep(kind, batch)(step)),
+      { kind, batch, status: BridgeStepStatus.Running },
+    ]);
+    if (driver.getChainId() !== batch.chainId) {
+      await driver.switchChain(batch.chainId);
+    }
+    const { bridge, oldBridge } = getChainInfo(batch.chainId) ?? {};
+    let hash: Hash;
+    if (kind === BridgeTxKind.Bridge) {
+      batch.items.forEach(({ badge, tokenIds }) =>
+        track(EventName.BridgeConfirm, `${badge.galxeCampaign?.stringId}_${tokenIds.length}`),
+      );
+      hash = await driver.sendBatch(batch, account, dstChainId);
+    } else if (kind === BridgeTxKind.Approve) {
+      track(EventName.BadgeApprove, batch.items[0]?.badge.galxeCampaign?.stringId);
+      hash = await driver.setApproval(batch, bridge as Address, true);
+    } else {
+      hash = await driver.setApproval(batch, oldBridge as Address, false);
+    }
+    addTx({
+      hash,
+      kind,
+      chainId: batch.chainId,
+      timestamp: dayjs().unix(),
+      status: BridgeTxStatus.Pending,
+      ...(kind === BridgeTxKind.Bridge && {
+        galxeBadges: getBatchHistoryBadges(batch),
+        dstChainId,
+        expectedRefund: getExpectedRefund(batch),
+      }),
+    });
+    patchStep(kind, batch, { hash });
+    // BridgeTxWatcher follows bridge transactions, approvals are awaited before the next phase
+    if (kind !== BridgeTxKind.Bridge && !(await driver.waitForReceipt(batch.chainId, hash))) {
+      throw new Error(`${kind} transaction reverted`);
+    }
+    patchStep(kind, batch, { status: BridgeStepStatus.Done });
+  };
+
+  const advance = async () => {
+    if (!address || !action || busy) return;
+    setBusy(true);
+    let current: { kind: BridgeTxKind; batch: BridgeBatch } | undefined;
+    const sent: BridgeBatch[] = [];
+    try {
+      if (action.kind === 'switch') {
+        await driver.switchChain(action.chainId);
+      } else if (action.kind === BridgeTxKind.Bridge) {
+        for (const batch of action.batches) {
+          current = { kind: action.kind, batch };
+          await runStep(action.kind, batch, address);
+          sent.push(batch);
+        }
+      } else {
+        current = action;
+        await runStep(action.kind, action.batch, address);
+        await approvalsQuery.refetch();
+      }
+    } catch (error) {
+      // the failed step is shown in the cart
+      current && patchStep(current.kind, current.batch, { status: BridgeStepStatus.Failed });
+      // disabled since it was loaded, the retry lands on InvalidDestination
+      isDstNotAllowedError(error) && destinationsQuery.refetch();
+    } finally {
+      cart.removeBatches(sent);
+      setBusy(false);
+    }
+  };
+
+  const reset = useCallback(() => setSteps([]), []);
+
+  return {
+    cart,
+    txs,
+    steps,
+    phase,
+    action,
+    busy,
+    checking,
+    dstChainId,
+    setDstChainId,
+    destinations,
+    destinationsByChain: destinationsQuery.destinations,
+    advance,
+    reset,
+  };
+};
+
+export type BridgeFlow = ReturnType<typeof useBridgeFlow>;
+
+/**
+ * approvals the deprecated bridges still hold on the badge contracts of address
+ * @param address
+ */
+export const useOldBridgeApprovals = (address?: Address) => {
+  const { data: badges, isLoading } = useBadgeNFT(address);
+  const contracts = useMemo(() => getHeldBadgeContracts(badges ?? []), [badges]);
+  const query = useQuery(
+    ['fetch_old_bridge_approvals', address, contracts.map((contract) => `${contract.chainId}_${contract.contractAddress}`)],
+    () => fetchOldBridgeApprovals(address as Address, contracts),
+    { enabled: !!address && contracts.length > 0 },
+  );
+  return { ...query, contracts, isLoading: isLoading || (contracts.length > 0 && query.isLoading) };
+};
+
+/**
+ * revoke approvals one by one, switching network when the next one is on another chain.
+ * a rejected or reverted revoke stops the run, the rest stay waiting
+ * @param driver - chain and contract access, wagmi unless a mock is passed in
+ */
+export const useRevokeOldApprovals = (driver: BridgeDriver = wagmiBridgeDriver) => {
+  const { addTx } = useBridgeTxs();
+  const [statuses, setStatuses] = useState<Record<string, BridgeStepStatus>>({});
+  const [running, setRunning] = useState(false);
+
+  const setStatus = (approval: OldBridgeApproval, status: BridgeStepStatus) =>
+    setStatuses((prev) => ({ ...prev, [getApprovalKey(approval)]: status }));
+
+  const revoke = async (approvals: OldBridgeApproval[]) => {
+    if (running) return;
+    setRunning(true);
+    setStatuses((prev) => ({
+      ...prev,
+      ...Object.fromEntries(approvals.map((approval) => [getApprovalKey(approval), BridgeStepStatus.Waiting])),
+    }));
+    for (const approval of approvals) {
+      try {
+        setStatus(approval, BridgeStepStatus.Running);
+        if (driver.getChainId() !== approval.chainId) {
+          await driver.switchChain(approval.chainId);
+        }
+        const hash = await driver.setApproval(approval, approval.operator, false);
+        addTx({
+          hash,
+          kind: BridgeTxKind.Revoke,
+          chainId: approval.chainId,
+          timestamp: dayjs().unix(),
+          status: BridgeTxStatus.Pending,
+        });
+        if (!(await driver.waitForReceipt(approval.chainId, hash))) throw new Error('revoke transaction reverted');
+        setStatus(approval, BridgeStepStatus.Done);
+      } catch {
+        // the failed approval is shown in the audit table
+        setStatus(approval, BridgeStepStatus.Failed);
+        break;
+      }
+    }
+    setRunning(false);
+  };
+
+  return { statuses, running, revoke };
+};
+
+/**
+ * catalog campaigns with what address holds and has bridged, works for any address
+ * @param address
+ */
+export const useBadgeCollection = (address?: Address) => {
+  const { address: account } = useAccount();
+  const { txs } = useBridgeTxs();
+  const { data: badges, isLoading } = useBadgeNFT(address);
+  const { data: history } = useBadgeHistory(address);
+  // transactions sent from this browser only belong to the connected wallet
+  const isOwn = !!address && !!account && address.toLowerCase() === account.toLowerCase();
+  const local = useMemo(() => (isOwn ? txs : []), [isOwn, txs]);
+  const { data: onChainHistory } = useOnChainBridgeHistory(address, local);
+
+  const collection = useMemo(
+    () => buildBadgeCollection(badges ?? [], mergeBridgeHistory(history ?? [], onChainHistory?.txs ?? [], local)),
+    [badges, history, onChainHistory, local],
+  );
+  return { collection, isLoading };
+};
@@ -4,7 +4,8 @@ import { useAccount } from 'wagmi';
 import { useQuery } from '@tanstack/react-query';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 import { fetchCollabList, fetchCollabUserInfo } from '../lib/api';
-import { CollabShortInfo, CollabTimes, CollabUserInfo, Response } from '../lib/types';
+import { CollabTimes } from '../lib/types';
+import { unwrapResult } from '../lib/result';
 import { collabUserInfoAtom } from '../store/collab/state';
 import { CollabTimeLimeProps } from '../components/collab/CollabTimeLime';
 import { useLocalStorage } from 'react-use';
@@ -12,9 +13,7 @@ import { COLLAB_NFT_STATUS, COLLAB_TIME_STATUS, STORAGE_KEY } from '../constants
 import isBetween from 'dayjs/plugin/isBetween';
 
 export const useFetchCollabList = () => {
-  return useQuery(['collab_short_list'], () => fetchCollabList(), {
-    select: (data: Response<CollabShortInfo[]>) => (data.code === 200 ? data.data : undefined),
-  });
+  return useQuery(['collab_short_list'], () => unwrapResult(fetchCollabList()));
 };
 
 export const useFetchCollabUserInfo = (collabCode: string) => {
@@ -23,10 +22,9 @@ export const useFetchCollabUserInfo = (collabCode: string) => {
 
   const { isLoading, data: userInfo } = useQuery(
     ['collab_user_info', collabCode, address],
-    () => fetchCollabUserInfo({ walletAddress: address as string, collabCode }),
+    () => unwrapResult(fetchCollabUserInfo({ walletAddress: address as string, collabCode })),
     {
       enabled: !!address,
-      select: (data: Response<CollabUserInfo>) => (data.code === 200 && data?.data ? data.data : null),
     },
   );
   useEffect(() => {
@@ -1,19 +1,21 @@
 import { ProfileFormData } from '@/components/dialog/EditProfileDialog';
 import Message from '@/components/message';
 import { RadioOption } from '@/components/radio/RadioGroup';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { checkNameAvailable, editProfileData, updateChainNames } from '@/lib/api-nest';
+import { resultData } from '@/lib/result';
 import { CheckNameParams, CheckResult, ProfileParams } from '@/lib/types-nest';
 import { arcanaEditProfileDialogOpenAtom, arcanaPowerVoteAtom } from '@/store/arcana/state';
 import { aspectaIdSelector, userInfoAtom } from '@/store/user/state';
 import { shortenAddress } from '@/utils';
-import { toastStatus } from '@/utils/toast';
+import { toastApiError, toastStatus } from '@/utils/toast';
 import { useMutation } from '@tanstack/react-query';
 import { useCallback, useMemo } from 'react';
-import ReactGA from 'react-ga4';
 import { toast } from 'react-toastify';
 import { useRecoilState, useRecoilValue, useSetRecoilState } from 'recoil';
 import { useThrottle } from './useThrottle';
+import { useTranslation } from '../useTranslation';
 
 export const useMutationCheckName = () => {
   return useMutation({
@@ -22,23 +24,21 @@ export const useMutationCheckName = () => {
 };
 
 export const useMutationUpdateChainNames = () => {
+  const { t } = useTranslation();
   const [profile, setUserProfile] = useRecoilState(userInfoAtom);
   return useMutation({
     mutationFn: () => updateChainNames(),
     onMutate: () => {
       // 当 mutation 开始时显示加载提示
-      toastStatus('loading', 'Synchronizing...', 'UPDATE_CHAIN_NAMES_TOAST');
+      toastStatus('loading', t('profile.syncing'), 'UPDATE_CHAIN_NAMES_TOAST');
     },
-    onSuccess: ({ code, data }) => {
-      if (code === 200) {
-        toastStatus('success', 'Synchronize successfully', 'UPDATE_CHAIN_NAMES_TOAST');
-        if (data) setUserProfile({ ...(profile ?? {}), ...data });
-        return data;
+    onSuccess: (result) => {
+      if (!result.ok) {
+        toastStatus('error', t('profile.syncFailed'), 'UPDATE_CHAIN_NAMES_TOAST');
+        return;
       }
-      toastStatus('error', 'Synchronize failed. Please try again.', 'UPDATE_CHAIN_NAMES_TOAST');
-    },
-    onError: () => {
-      toastStatus('error', 'Synchronize failed. Please try again.', 'UPDATE_CHAIN_NAMES_TOAST');
+      toastStatus('success', t('profile.synced'), 'UPDATE_CHAIN_NAMES_TOAST');
+      if (result.data) setUserProfile({ ...(profile ?? {}), ...result.data });
     },
   });
 };
@@ -47,16 +47,14 @@ export const useMutationEditProfile = () => {
   const setOpen = useSetRecoilState(arcanaEditProfileDialogOpenAtom);
   return useMutation({
     mutationFn: (data: ProfileParams) => editProfileData(data),
-    onSuccess: ({ code, data }) => {
-      if (code === 200) {
-        setOpen(false);
-        return data;
-      }
+    onSuccess: (result) => {
+      if (result.ok) setOpen(false);
     },
   });
 };
 
 export const useProfileRadioOptions = () => {
+  const { t } = useTranslation();
   const { mutate: updateChainNames } = useMutationUpdateChainNames();
   const syncChainNames = useThrottle(updateChainNames, 1000);
   const aspectaId = useRecoilValue(aspectaIdSelector);
@@ -113,7 +111,7 @@ export const useProfileRadioOptions = () => {
         beforeOnChange: (value: string) => {
           if (value.includes('.')) {
             // 不允许输入 "."
-            toast.error(`Nickname shouldn't include dot, please try again.`);
+            toast.error(t('profile.nicknameDot'));
             return false;
           }
           return true;
@@ -124,10 +122,11 @@ export const useProfileRadioOptions = () => {
       },
     ];
     return radioOpts;
-  }, [aspectaId, profileData, syncChainNames]);
+  }, [aspectaId, profileData, syncChainNames, t]);
 };
 
 export const useProfileSubmit = (selectedRadioKey?: string) => {
+  const { t } = useTranslation();
   const [profileData, setProfileData] = useRecoilState(userInfoAtom);
 
   const { mutateAsync: updateProfile, isLoading } = useMutationEditProfile();
@@ -137,7 +136,7 @@ export const useProfileSubmit = (selectedRadioKey?: string) => {
   const onSubmit = useCallback(
     async (values: ProfileFormData) => {
       try {
-        ReactGA.event({ category: EventCategory.Assets, action: EventName.ProfileSave });
+        track(EventName.ProfileSave);
         const { showName, twitter, discord } = profileData ?? {};
         const { twitterHandle, discordHandle, displayName, bio } = values;
         const newProfile: ProfileParams = { bio, showName, twitter, discord };
@@ -150,7 +149,8 @@ export const useProfileSubmit = (selectedRadioKey?: string) => {
         if (['nickname', 'p12Name'].includes(displayNameKey)) {
           // Check Name Available
           const isUsing = displayName === profileData?.[displayNameKey as 'p12Name' | 'nickname'];
-          const { data: available } = await checkName({ type: displayNameKey, name: displayName });
+          const checkResult = await checkName({ type: displayNameKey, name: displayName });
+          const available = resultData(checkResult);
 
           if (isUsing || available === CheckResult.NOT_EXIST) {
             Object.assign(newProfile, {
@@ -158,16 +158,16 @@ export const useProfileSubmit = (selectedRadioKey?: string) => {
               showName: displayName,
             });
           } else if (!available) {
-            !isUsing && toast.error(<Message title={`${displayNameKey} check failed.`} />);
+            !isUsing && toast.error(<Message title={t('profile.nameCheckFailed', { name: displayNameKey })} />);
             return;
           } else {
-            !isUsing && toast.error(<Message title={`${displayNameKey} already exists, please change.`} />);
+            !isUsing && toast.error(<Message title={t('profile.nameExists', { name: displayNameKey })} />);
             return;
           }
         } else {
           if (['.eth', '.bnb', '.arb', 'aspecta.id', '.cyber'].includes(displayName)) {
             // Has not ensName spaceIdBnb spaceIdArb
-            toast.error(<Message message={`Have not ${displayName}, please click to sync`} />);
+            toast.error(<Message message={t('profile.chainNameMissing', { name: displayName })} />);
             return;
           } else {
             // ccProfileHandle / address / Has ensName spaceIdBnb spaceIdArb
@@ -184,19 +184,23 @@ export const useProfileSubmit = (selectedRadioKey?: string) => {
         //   category: EventCategory.Editorium,
         //   label: changeValue.toString(),
         // });
-        await updateProfile(newProfile);
+        const result = await updateProfile(newProfile);
+        if (!result.ok) {
+          toastApiError(result.error, t('profile.saveFailed'));
+          return;
+        }
         setProfileData((prev) => {
           return {
             ...prev,
             ...newProfile,
           };
         });
-        toast.success(<Message title="Save changes successfully." />);
+        toast.success(<Message title={t('profile.saved')} />);
       } catch (e: any) {
-        toast.error(<Message title="Save changes failed." message={e?.message} />);
+        toast.error(<Message title={t('profile.saveFailed')} message={e?.message} />);
       }
     },
-    [checkName, profileData, selectedRadioKey, setProfileData, updateProfile],
+    [checkName, profileData, selectedRadioKey, setProfileData, t, updateProfile],
   );
 
   return useMemo(
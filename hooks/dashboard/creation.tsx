@@ -1,4 +1,5 @@
 import { fetchUserNotSubmittedList, fetchUserSubmittedList } from '@/lib/api-nest';
+import { resultData } from '@/lib/result';
 import { arcanaNotSubmittedListAtom, arcanaSubmittedListAtom } from '@/store/arcana/state';
 import { useMutation } from '@tanstack/react-query';
 import { useSetRecoilState } from 'recoil';
@@ -8,15 +9,8 @@ export const useMutationUserSubmittedList = () => {
 
   return useMutation({
     mutationFn: () => fetchUserSubmittedList(),
-    onSuccess: (res) => {
-      const { code, data } = res ?? {};
-      if (code === 200) {
-        setArcanaSubmittedList(data);
-        return data;
-      }
-    },
-    onError: () => {
-      setArcanaSubmittedList([]);
+    onSuccess: (result) => {
+      setArcanaSubmittedList(resultData(result) ?? []);
     },
   });
 };
@@ -26,15 +20,8 @@ export const useFetchUserNotSubmittedList = () => {
 
   return useMutation({
     mutationFn: () => fetchUserNotSubmittedList(),
-    onSuccess: (res) => {
-      const { code, data } = res ?? {};
-      if (code === 200) {
-        setArcanaNotSubmittedList(data);
-        return data;
-      }
-    },
-    onError: () => {
-      setArcanaNotSubmittedList([]);
+    onSuccess: (result) => {
+      setArcanaNotSubmittedList(resultData(result) ?? []);
     },
   });
 };
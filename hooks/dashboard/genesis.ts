@@ -1,11 +1,11 @@
 import { useQuery } from '@tanstack/react-query';
 import { GenesisRole } from '@/constants';
 import { fetchGenesisNFT } from '@/lib/api-nest';
+import { unwrapResult } from '@/lib/result';
 
 export function useFetchGenesisNFT({ address, role }: { address?: string; role?: GenesisRole }) {
-  return useQuery(['fetch_genesis_nft', address, role], () => fetchGenesisNFT({ address, role }), {
+  return useQuery(['fetch_genesis_nft', address, role], () => unwrapResult(fetchGenesisNFT({ address, role })), {
     refetchOnWindowFocus: true,
     enabled: !!address,
-    select: (data) => (data.code === 200 ? data.data : undefined),
   });
 }
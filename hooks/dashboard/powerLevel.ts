@@ -1,38 +1,46 @@
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { fetchGenesisPL, fetchGenesisUpgrade, fetchUserPowerLevel } from '@/lib/api-nest';
+import { ApiResult, unwrapResult } from '@/lib/result';
 import { useResetRecoilState, useSetRecoilState } from 'recoil';
 import { userPowerLevelAtom } from '@/store/dashboard/state';
 import { GenesisRole } from '@/constants';
+import { setSessionProfile } from '@/utils/authorization';
+import { toastApiError } from '@/utils/toast';
+import { useTranslation } from '@/hooks/useTranslation';
 
 export function useFetchUserPowerLevel(address?: string) {
   const setUserPowerLevel = useSetRecoilState(userPowerLevelAtom);
   const resetUserPowerLevel = useResetRecoilState(userPowerLevelAtom);
 
-  return useQuery(['fetch_user_power_level', address], () => fetchUserPowerLevel(address), {
+  return useQuery(['fetch_user_power_level', address], () => unwrapResult(fetchUserPowerLevel(address)), {
     enabled: !!address,
-    select: (data) => (data.code === 200 ? data.data : undefined),
     onSuccess: (data) => {
       if (data) {
         setUserPowerLevel(data);
+        // keyed by address, so it is remembered for the account it was fetched for
+        if (address) setSessionProfile(address, { activatedPL: data.activatedPL });
       } else {
         resetUserPowerLevel();
       }
     },
-    onError: () => {
-      resetUserPowerLevel();
-    },
+    onError: () => resetUserPowerLevel(),
   });
 }
 
 export function useFetchGenesisPL() {
-  return useQuery(['fetch_genesis_pl'], () => fetchGenesisPL(), {
-    select: (data) => (data.code === 200 ? data.data : []),
-  });
+  return useQuery(['fetch_genesis_pl'], () => unwrapResult(fetchGenesisPL()));
 }
 
 export function useMutationGenesisUpgrade({ onSuccess }: { onSuccess?: () => void } = {}) {
+  const { t } = useTranslation();
   return useMutation({
     mutationFn: (data: { address: string; role: GenesisRole }) => fetchGenesisUpgrade(data),
-    onSuccess,
+    onSuccess: (result: ApiResult<number[]>) => {
+      if (!result.ok) {
+        toastApiError(result.error, t('toast.upgradeFailed'));
+        return;
+      }
+      onSuccess?.();
+    },
   });
 }
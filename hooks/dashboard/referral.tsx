@@ -1,17 +1,19 @@
 import Message from '@/components/message';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { fetchReferralCode } from '@/lib/api';
 import { fetchInvitationCode } from '@/lib/api-nest';
+import { unwrapResult } from '@/lib/result';
 import { arcanaInvitationInfoAtom, arcanaPowerVoteAtom } from '@/store/arcana/state';
 import { invitationCountSelector, referralCodeAtom } from '@/store/invite/state';
 import { useQuery } from '@tanstack/react-query';
 import { useCallback, useMemo } from 'react';
-import ReactGA from 'react-ga4';
 import { toast } from 'react-toastify';
 import { useCopyToClipboard } from 'react-use';
 import { useRecoilState, useRecoilValue, useSetRecoilState } from 'recoil';
 import { useAccount } from 'wagmi';
 import { useIsLogged } from '../user';
+import { useTranslation } from '../useTranslation';
 
 export const useReferralReward = () => {
   const powerVoteInfo = useRecoilValue(arcanaPowerVoteAtom);
@@ -25,44 +27,43 @@ export const useReferralReward = () => {
 export const useFetchArcanaInvitationInfo = () => {
   const setInviteInfo = useSetRecoilState(arcanaInvitationInfoAtom);
 
-  return useQuery(['fetch_arcana_invitation_info'], () => fetchInvitationCode(), {
-    select: (res) => (res.code === 200 ? res.data : null),
+  return useQuery(['fetch_arcana_invitation_info'], () => unwrapResult(fetchInvitationCode()), {
     onSuccess: (data) => {
       setInviteInfo(data);
     },
+    onError: () => setInviteInfo(null),
   });
 };
 
 export const useCopyReferralLink = () => {
   const { address } = useAccount();
+  const { t } = useTranslation();
 
   const [referralCode, setReferralCode] = useRecoilState(referralCodeAtom);
 
   const [, copyToClipboard] = useCopyToClipboard();
   const referralLink = useMemo(() => {
-    return referralCode ? window.location.origin + '/?code=' + referralCode : 'Please connect your wallet first';
-  }, [referralCode]);
+    return referralCode ? window.location.origin + '/?code=' + referralCode : t('common.connectWalletFirst');
+  }, [referralCode, t]);
 
-  useQuery(['invite', address], () => fetchReferralCode({ wallet_address: address }), {
+  useQuery(['invite', address], () => unwrapResult(fetchReferralCode({ wallet_address: address })), {
     enabled: !!address,
-    onSuccess: (data) => data.data.referral_code && setReferralCode(data.data.referral_code),
+    onSuccess: (data) => data.referral_code && setReferralCode(data.referral_code),
   });
 
   const onTwitterShare = useCallback(() => {
     if (!address) return;
-    ReactGA.event({ category: EventCategory.Global, action: EventName.ShareRefLink, label: 'steam' });
-    const text = encodeURIComponent(
-      'Join @_p12_ P12 Genesis Airdrop Steam gamers and get Soul-Bound NFT which captures your unique gaming credentials for free!',
-    );
+    track(EventName.ShareRefLink, 'steam');
+    const text = encodeURIComponent(t('referral.steamTweet'));
     const url = encodeURIComponent(referralLink);
     window.open('https://twitter.com/intent/tweet?text=' + text + '&hashtags=NFTGiveaway&hashtags=P12&url=' + url, '_blank');
-  }, [address, referralLink]);
+  }, [address, referralLink, t]);
 
   return {
     copyToClipboard: () => {
-      ReactGA.event({ category: EventCategory.Global, action: EventName.CopyRefLink, label: 'steam' });
+      track(EventName.CopyRefLink, 'steam');
       copyToClipboard(referralLink ?? '');
-      toast.success(<Message message="Copied to clipboard" title="Mission Complete" />);
+      toast.success(<Message message={t('common.copied')} title={t('common.missionComplete')} />);
     },
     referralLink,
     onTwitterShare,
@@ -73,24 +74,18 @@ export const useCopyArcanaReferralLink = () => {
   const { address } = useAccount();
   const [, copyToClipboard] = useCopyToClipboard();
   const inviteInfo = useRecoilValue(arcanaInvitationInfoAtom);
+  const { t } = useTranslation();
 
   const arcanaReferralLink = useMemo(
     () =>
-      address ? 'https://arcana.p12.games' + '/referral?code=' + inviteInfo?.referralCode : 'Please connect your wallet first',
-    [address, inviteInfo?.referralCode],
-  );
-  const tweetContent = useMemo(
-    () => [
-      `Join me at P12 Arcana Editorium! Create your own virtual wonders with P12 Editor and grab fantastic cash rewards.`,
-      `Dive into P12 Arcana Editorium now! Craft virtual magic with P12 Editor and score big with cash rewards and treasures!`,
-      `Ready for action at P12 Arcana Editorium? Use P12 Editor to conjure unique virtual assets and seize incredible cash bonuses and NFT gems!`,
-    ],
-    [],
+      address ? 'https://arcana.p12.games' + '/referral?code=' + inviteInfo?.referralCode : t('common.connectWalletFirst'),
+    [address, inviteInfo?.referralCode, t],
   );
+  const tweetContent = useMemo(() => [t('referral.arcanaTweet1'), t('referral.arcanaTweet2'), t('referral.arcanaTweet3')], [t]);
 
   const onArcanaTwitterShare = useCallback(() => {
     if (typeof window === undefined || !arcanaReferralLink) return;
-    ReactGA.event({ category: EventCategory.Global, action: EventName.ShareRefLink, label: 'arcana' });
+    track(EventName.ShareRefLink, 'arcana');
     const url = encodeURIComponent(arcanaReferralLink);
     const randomIndex = Math.floor(Math.random() * tweetContent.length);
     const text = encodeURIComponent(tweetContent[randomIndex]);
@@ -99,9 +94,9 @@ export const useCopyArcanaReferralLink = () => {
 
   return {
     copyToClipboardArcana: () => {
-      ReactGA.event({ category: EventCategory.Global, action: EventName.CopyRefLink, label: 'arcana' });
+      track(EventName.CopyRefLink, 'arcana');
       copyToClipboard(arcanaReferralLink ?? '');
-      toast.success(<Message message="Copied to clipboard" title="Mission Complete" />);
+      toast.success(<Message message={t('common.copied')} title={t('common.missionComplete')} />);
     },
     arcanaReferralLink,
     onArcanaTwitterShare,
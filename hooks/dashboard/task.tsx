@@ -1,9 +1,11 @@
 import { fetchTasksStatus } from '@/lib/api-nest';
+import { resultData } from '@/lib/result';
 import { TaskCode } from '@/lib/types-nest';
 import { arcanaTasksStatusAtom } from '@/store/arcana/state';
 import { useMutation } from '@tanstack/react-query';
 import { ReactNode, useMemo } from 'react';
 import { useSetRecoilState } from 'recoil';
+import { useTranslation } from '@/hooks/useTranslation';
 
 export type TaskData = {
   id: TaskCode;
@@ -18,88 +20,82 @@ export const useMutationTasksStatus = () => {
 
   return useMutation({
     mutationFn: () => fetchTasksStatus(),
-    onSuccess: (res) => {
-      const { code, data } = res ?? {};
-      if (code === 200) {
-        setTasksStatus(data);
-        return data;
-      }
-    },
-    onError: () => {
-      setTasksStatus(undefined);
+    onSuccess: (result) => {
+      setTasksStatus(resultData(result));
     },
   });
 };
 
 export const useTaskItems = () => {
   // const setEditorDownloadDialogOpen = useSetAtom(editorDownloadDialogOpen);
+  const { t } = useTranslation();
 
   return useMemo<TaskData[]>(
     () => [
       {
         id: TaskCode.LoginEditor,
-        title: 'Register P12 Editor',
-        subtitle: 'One-time Task',
+        title: t('task.loginEditor.title'),
+        subtitle: t('common.oneTimeTask'),
         PL: 24,
-        desc: 'The P12 Editor is now publicly available. Download, install, and register with your wallet to become a certified P12 developer and gain Power Level.',
+        desc: t('task.loginEditor.desc'),
       },
       {
         id: TaskCode.CreateGame,
-        title: 'Publish your Creation',
-        subtitle: 'One-time Task',
+        title: t('task.createGame.title'),
+        subtitle: t('common.oneTimeTask'),
         PL: 696,
-        desc: "Create your own metaverse assets using P12 Editor, then publish them via 'Project-Publish'. Manage your creations, including renaming and uploading images in the 'Creation' tab on the landing page.",
+        desc: t('task.createGame.desc'),
       },
       {
         id: TaskCode.ParticipateArcana,
-        title: 'Become a Voter',
-        subtitle: 'One-time Task',
+        title: t('task.participateArcana.title'),
+        subtitle: t('common.oneTimeTask'),
         PL: 12,
-        desc: "Activate your votes by completing a transaction in either the 'Gallery Tab' or Task Panel.",
+        desc: t('task.participateArcana.desc'),
       },
       {
         id: TaskCode.DoVote,
-        title: 'Vote Vote Vote',
-        subtitle: 'Daily Task',
+        title: t('task.doVote.title'),
+        subtitle: t('common.dailyTask'),
         PL: 3,
-        PLExpand: 'per day',
-        desc: "Your POWER LEVEL is your vote count, and it resets daily. Don't forget to vote everyday!",
+        PLExpand: t('common.perDay'),
+        desc: t('task.doVote.desc'),
       },
       {
         id: TaskCode.BurnBadge,
-        title: 'P12 Community Badge',
+        title: t('task.burnBadge.title'),
         PL: '12-600',
-        desc: "Acquire P12 Community Badge NFT through community or NFT marketplace.Click 'GO' above to access P12 BRIDGE (Beta), complete the required steps to verify your ownership, and receive rewards.",
+        desc: t('task.burnBadge.desc'),
       },
       {
         id: TaskCode.LinkAspecta,
-        title: 'Linked with Aspecta',
-        subtitle: 'One-time Task',
+        title: t('task.linkAspecta.title'),
+        subtitle: t('common.oneTimeTask'),
         PL: 12,
-        desc: 'Click "Go" and link GitHub when registering your Aspecta ID. Your developer skills will be automatically verified and receive PL.',
+        desc: t('task.linkAspecta.desc'),
       },
       {
         id: TaskCode.LinkUneMeta,
-        title: 'Linked with UneMeta',
-        subtitle: 'One-time Task',
+        title: t('task.linkUneMeta.title'),
+        subtitle: t('common.oneTimeTask'),
         PL: 12,
-        desc: 'Visit the P12 portal on the UneMeta official website to complete the task. Task verification may require a delay of up to 1 day. Please be patient and wait.',
+        desc: t('task.linkUneMeta.desc'),
       },
       {
         id: TaskCode.GenesisNFTGamer,
-        title: 'Claim P12 Genesis NFT(Gamer)',
-        subtitle: 'One-time Task',
+        title: t('task.genesisNFTGamer.title'),
+        subtitle: t('common.oneTimeTask'),
         PL: '1-30000',
-        desc: 'P12 Genesis NFT is a tribute to Steam gamers, and a Soul-bound token that captures web2 gaming credentials.',
+        desc: t('task.genesisNFTGamer.desc'),
       },
       {
         id: TaskCode.AttendedTiArcana,
-        title: 'Bonus for P12 Arcana: TI11',
-        subtitle: 'One-time Task',
+        title: t('task.attendedTiArcana.title'),
+        subtitle: t('common.oneTimeTask'),
         PL: '12-300',
-        desc: 'The Arcana TI event was held in November 2022. Participated users can get extra Power Level based on their involvement. P12 Arcana is an ongoing series event, offering long-term value to followers.',
+        desc: t('task.attendedTiArcana.desc'),
       },
     ],
-    [],
+    [t],
   );
 };
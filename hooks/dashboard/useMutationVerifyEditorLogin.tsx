@@ -1,31 +1,34 @@
 import Message from '@/components/message';
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
+import { useTranslation } from '@/hooks/useTranslation';
 import { verifyEditorLogin } from '@/lib/api-nest';
 import { arcanaEditorDownloadDialogOpen } from '@/store/arcana/state';
 import { arcanaIsVerifySelector } from '@/store/user/state';
 import { useMutation } from '@tanstack/react-query';
-import ReactGA from 'react-ga4';
 import { toast } from 'react-toastify';
 import { useSetRecoilState } from 'recoil';
 
 export const useMutationVerifyEditorLogin = ({ position }: { position?: string } = {}) => {
+  const { t } = useTranslation();
   const setVerifyEditorLogin = useSetRecoilState(arcanaIsVerifySelector);
   const setIsOpen = useSetRecoilState(arcanaEditorDownloadDialogOpen);
   return useMutation({
     mutationFn: () => verifyEditorLogin(),
-    onSuccess: () => {
-      toast.success(<Message title="Verify Editor login succeeded." />);
+    onSuccess: (result) => {
+      if (!result.ok) {
+        if (position !== 'start') {
+          toast.error(<Message title={t('editor.verifyLoginFailed')} />);
+        }
+        setIsOpen(true);
+        setVerifyEditorLogin(false);
+        track(EventName.EditorLoginVerify, 'failed');
+        return;
+      }
+      toast.success(<Message title={t('editor.verifyLoginSucceeded')} />);
       setVerifyEditorLogin(true);
       setIsOpen(false);
-      ReactGA.event({ category: EventCategory.Assets, action: EventName.EditorLoginVerify, label: 'success' });
-    },
-    onError: () => {
-      if (position !== 'start') {
-        toast.error(<Message title="Verify Editor login failed." />);
-      }
-      setIsOpen(true);
-      setVerifyEditorLogin(false);
-      ReactGA.event({ category: EventCategory.Assets, action: EventName.EditorLoginVerify, label: 'failed' });
+      track(EventName.EditorLoginVerify, 'success');
     },
   });
 };
@@ -1,12 +1,12 @@
 import { useAccount } from 'wagmi';
-import { toast } from 'react-toastify';
 import { useRouter } from 'next/router';
 import { useRecoilState, useRecoilValue, useSetRecoilState } from 'recoil';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { STORAGE_KEY } from '@/constants';
-import Message from '../components/message';
 import { getLocalStorage } from '@/utils/storage';
-import { BinSteamParams, Response } from '@/lib/types';
+import { BinSteamParams } from '@/lib/types';
+import { ApiError, ApiResult, unwrapResult } from '@/lib/result';
+import { toastApiError } from '@/utils/toast';
 import { gamerGamesAtom, gamerInfoAtom, gamerInfoCodeAtom, gamerPermissionSettingAtom } from '@/store/gamer/state';
 import {
   fetchBindSteam,
@@ -23,21 +23,25 @@ export const useGamerInfo = (addr?: string) => {
   const [gamerGames, setGamerGames] = useRecoilState(gamerGamesAtom);
   const { refetch } = useGamerGames(addr);
 
-  return useQuery(['gamer_info', addr], () => fetchGamerInfo({ addr }), {
+  return useQuery(['gamer_info', addr], () => unwrapResult(fetchGamerInfo({ addr })), {
     enabled: !!addr,
     refetchOnWindowFocus: true,
     onSuccess: (data) => {
-      setGamerInfoCode(data.code);
-      if (data.code === 0 && data.data) {
-        if (data.data.steam_id && gamerGames?.wallet_address !== addr) {
+      setGamerInfoCode(0);
+      if (data) {
+        if (data.steam_id && gamerGames?.wallet_address !== addr) {
           setGamerGames(undefined);
           refetch().then();
         }
-        setGamerInfo({ ...data.data });
+        setGamerInfo({ ...data });
       } else {
         setGamerInfo(undefined);
       }
     },
+    onError: (error: ApiError) => {
+      setGamerInfoCode(error.code ?? -1);
+      setGamerInfo(undefined);
+    },
   });
 };
 
@@ -45,12 +49,12 @@ export const useBindSteamAccount = () => {
   const { address } = useAccount();
   const queryClient = useQueryClient();
 
-  return useMutation<Response<any>, any, BinSteamParams, any>((data) => fetchBindSteam(data), {
-    onSuccess: (data) => {
-      if (data.code === 0) {
+  return useMutation<ApiResult<any>, any, BinSteamParams, any>((data) => fetchBindSteam(data), {
+    onSuccess: (result) => {
+      if (result.ok) {
         queryClient.refetchQueries(['gamer_info', address]).then();
       } else {
-        toast.error(<Message title="Ah shit, here we go again" message={data.msg} />);
+        toastApiError(result.error);
       }
     },
   });
@@ -66,27 +70,25 @@ export const useGamerGames = (wallet_address?: string) => {
     ['gamer_games', { wallet_address }],
     () => {
       const localCode = getLocalStorage(STORAGE_KEY.INVITE_CODE);
-      return fetchGamerGames({
-        wallet_address,
-        referral_code: code || localCode,
-      });
+      return unwrapResult(
+        fetchGamerGames({
+          wallet_address,
+          referral_code: code || localCode,
+        }),
+      );
     },
     {
       enabled: false,
-      onSuccess: (data) => {
-        setGamerGames(data.code === 0 ? { ...data.data, wallet_address } : undefined);
-      },
+      onSuccess: (data) => setGamerGames({ ...data, wallet_address }),
+      onError: () => setGamerGames(undefined),
     },
   );
 };
 
 export const useGamerInvitation = (addr?: string) => {
-  return useQuery(['gamer_invitation', addr], () => fetchGamerInvitation({ addr }), {
+  return useQuery(['gamer_invitation', addr], () => unwrapResult(fetchGamerInvitation({ addr })), {
     enabled: !!addr,
-    select: (data) => {
-      if (data.code !== 0) return [];
-      return data.data.invitation_info;
-    },
+    select: (data) => data.invitation_info,
   });
 };
 
@@ -95,20 +97,20 @@ export const useFetchReload = () => {
   const queryClient = useQueryClient();
   const setOpen = useSetRecoilState(gamerPermissionSettingAtom);
 
-  return useMutation<any, any, { wallet_address?: string }>((data) => fetchGamerReload(data), {
-    onSuccess: (data) => {
-      if (data.code === 0) {
+  return useMutation<ApiResult<null>, any, { wallet_address?: string }>((data) => fetchGamerReload(data), {
+    onSuccess: (result) => {
+      if (result.ok) {
         queryClient.refetchQueries(['gamer_info', address]).then();
         setOpen(false);
       } else {
-        toast.error(<Message title="Ah shit, here we go again" message={data.msg} />);
+        toastApiError(result.error);
       }
     },
   });
 };
 
 export const useGamerVerifyEmailCode = () => {
-  return useMutation<Response<any>, any, { wallet_address?: string; email_verify_code: string }>((data) =>
+  return useMutation<ApiResult<any>, any, { wallet_address?: string; email_verify_code: string }>((data) =>
     fetchGamerVerifyEmailCode(data),
   );
 };
@@ -9,6 +9,7 @@ import {
   fetchGamerTokenRank,
   fetchGamerVerifiedCount,
 } from '../lib/api';
+import { unwrapResult } from '../lib/result';
 
 type Pagination = {
   page: number;
@@ -17,78 +18,50 @@ type Pagination = {
 
 type Options = Pick<UseQueryOptions, 'staleTime' | 'enabled'>;
 
+const rankPlaceholder = { rankLength: 10, size: 10, page: 1, rankList: new Array(10).fill({}) };
+
 export const useDeveloperVerifiedCount = () => {
-  return useQuery(['dev_verified_count'], () => fetchDeveloperVerifiedCount(), {
-    select: (data) => data.data,
-  });
+  return useQuery(['dev_verified_count'], () => unwrapResult(fetchDeveloperVerifiedCount()));
 };
 
 export const useDeveloperRank = (addr?: string) => {
-  return useQuery(['dev_rank', addr], () => fetchDeveloperRank({ addr }), {
+  return useQuery(['dev_rank', addr], () => unwrapResult(fetchDeveloperRank({ addr })), {
     enabled: !!addr,
-    select: (data) => data.data,
   });
 };
 
 export const useDeveloperTimeRank = ({ page, size }: Pagination) => {
-  return useQuery(['dev_time_rank', { page, size }], () => fetchDeveloperTimeRank({ page, size }), {
-    select: (data) => data.data,
-    placeholderData: {
-      code: 0,
-      msg: '',
-      status: 'success',
-      data: { rankLength: 10, size: 10, page: 1, rankList: new Array(10).fill({}) },
-    },
+  return useQuery(['dev_time_rank', { page, size }], () => unwrapResult(fetchDeveloperTimeRank({ page, size })), {
+    placeholderData: rankPlaceholder,
   });
 };
 
 export const useDeveloperTokenRank = ({ page, size }: Pagination, options?: Options) => {
-  return useQuery(['dev_token_rank', { page, size }], () => fetchDeveloperTokenRank({ page, size }), {
-    select: (data) => data.data,
-    placeholderData: {
-      code: 0,
-      msg: '',
-      status: 'success',
-      data: { rankLength: 10, size: 10, page: 1, rankList: new Array(10).fill({}) },
-    },
+  return useQuery(['dev_token_rank', { page, size }], () => unwrapResult(fetchDeveloperTokenRank({ page, size })), {
+    placeholderData: rankPlaceholder,
     ...options,
   });
 };
 
 export const useGamerVerifiedCount = () => {
-  return useQuery(['gamer_verified_count'], () => fetchGamerVerifiedCount(), {
-    select: (data) => data.data,
-  });
+  return useQuery(['gamer_verified_count'], () => unwrapResult(fetchGamerVerifiedCount()));
 };
 
 export const useGamerRank = (addr?: string) => {
-  return useQuery(['gamer_rank', addr], () => fetchGamerRank({ addr }), {
+  return useQuery(['gamer_rank', addr], () => unwrapResult(fetchGamerRank({ addr })), {
     enabled: !!addr,
-    select: (data) => data.data,
   });
 };
 
 export const useGamerTimeRank = ({ page, size }: Pagination) => {
-  return useQuery(['gamer_time_rank', { page, size }], () => fetchGamerTimeRank({ page, size }), {
-    select: (data) => data.data,
-    placeholderData: {
-      code: 0,
-      msg: '',
-      status: 'success',
-      data: { rankLength: 10, size: 10, page: 1, rankList: new Array(10).fill({}) },
-    },
+  return useQuery(['gamer_time_rank', { page, size }], () => unwrapResult(fetchGamerTimeRank({ page, size })), {
+    placeholderData: rankPlaceholder,
   });
 };
 
 export const useGamerTokenRank = ({ page, size }: Pagination, options?: Options) => {
-  return useQuery(['gamer_token_rank', { page, size }], () => fetchGamerTokenRank({ page, size }), {
-    select: (data) => data.data,
-    placeholderData: {
-      code: 0,
-      msg: '',
-      status: 'success',
-      data: { rankLength: 10, size: 10, page: 1, rankList: new Array(10).fill({}) },
-    },
+  return useQuery(['gamer_token_rank', { page, size }], () => unwrapResult(fetchGamerTokenRank({ page, size })), {
+    placeholderData: rankPlaceholder,
     ...options,
   });
 };
@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRecoilValue } from 'recoil';
+import { useAccount } from 'wagmi';
+import { accessTokenAtom, userInfoAtom } from '@/store/user/state';
+import {
+  Authorization,
+  getAuthorizations,
+  isAuthorizationExpired,
+  removeAccessToken,
+  setSessionProfile,
+} from '@/utils/authorization';
+import { useLogoutCallback } from './user';
+
+export type Session = Authorization & {
+  isCurrent: boolean;
+  isValid: boolean;
+};
+
+/**
+ * keep the showName and avatar of the signed in account next to its cached token, activatedPL is kept by
+ * useFetchUserPowerLevel. userInfo still holds the previous account right after a switch, so it is only
+ * written once it belongs to the connected address
+ */
+export const useRememberSession = () => {
+  const { address } = useAccount();
+  const accessToken = useRecoilValue(accessTokenAtom);
+  const userInfo = useRecoilValue(userInfoAtom);
+
+  useEffect(() => {
+    if (!address || !accessToken || !userInfo?.walletAddress) return;
+    if (userInfo.walletAddress.toLowerCase() !== address.toLowerCase()) return;
+    setSessionProfile(address, { showName: userInfo.showName, avatar: userInfo.avatar });
+  }, [accessToken, address, userInfo]);
+};
+
+/**
+ * remembered sessions, the connected account first
+ */
+export const useSessions = () => {
+  const { address } = useAccount();
+  const accessToken = useRecoilValue(accessTokenAtom);
+  const [authorizations, setAuthorizations] = useState<Authorization[]>([]);
+  const logout = useLogoutCallback();
+
+  const refresh = useCallback(() => setAuthorizations(getAuthorizations()), []);
+
+  useEffect(() => {
+    refresh();
+  }, [accessToken, address, refresh]);
+
+  const sessions = useMemo<Session[]>(
+    () =>
+      authorizations
+        .map((item) => ({ ...item, isCurrent: item.address === address, isValid: !isAuthorizationExpired(item) }))
+        .sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent)),
+    [address, authorizations],
+  );
+
+  const forget = useCallback(
+    (session: Session) => {
+      if (session.isCurrent) {
+        logout();
+      } else {
+        removeAccessToken({ address: session.address });
+      }
+      refresh();
+    },
+    [logout, refresh],
+  );
+
+  return { sessions, forget };
+};
+
+/**
+ * open the account permissions of the wallet, a dapp can not pick the account so the user selects it there,
+ * the cached token and global data then follow the new address through Web3Status and LayoutHeader
+ * @returns false when the wallet has no such dialog, rejects when the wallet fails or the user closes it
+ */
+export const useOpenWalletAccounts = () => {
+  const { connector } = useAccount();
+
+  return useCallback(async () => {
+    const provider = await connector?.getProvider();
+    if (!provider?.request) return false;
+    await provider.request({ method: 'wallet_requestPermissions', params: [{ eth_accounts: {} }] });
+    return true;
+  }, [connector]);
+};
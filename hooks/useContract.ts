@@ -3,7 +3,8 @@ import { Abi, WalletClient } from 'viem';
 import { getContract } from '../utils/getContract';
 import { babtABI, collabABI } from '../abis';
 import { Address, useContractRead, useNetwork, usePublicClient, useWalletClient } from 'wagmi';
-import { BABT_ADDRESSES, COLLAB_ADDRESS } from '../constants/addresses';
+import { COLLAB_ADDRESS } from '../constants/addresses';
+import { getChainInfo } from '../constants/chains';
 
 export function useContract<TAbi extends Abi>(address?: Address, abi?: TAbi, chainId?: number) {
   const publicClient = usePublicClient({ chainId });
@@ -27,7 +28,7 @@ export function useContract<TAbi extends Abi>(address?: Address, abi?: TAbi, cha
 
 export function useBABTBalanceOf({ address }: { address?: Address }) {
   const { chain } = useNetwork();
-  const babtAddress = chain ? BABT_ADDRESSES[chain.id] : undefined;
+  const babtAddress = getChainInfo(chain?.id)?.babt;
 
   return useContractRead({
     address: babtAddress,
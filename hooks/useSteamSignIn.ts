@@ -1,9 +1,9 @@
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import Cookies from 'js-cookie';
 import { useRouter } from 'next/router';
 import { useCallback, useEffect, useState } from 'react';
 import { isMobile } from 'react-device-detect';
-import ReactGA from 'react-ga4';
 import { useEvent } from 'react-use';
 import { useAccount } from 'wagmi';
 import { STORAGE_KEY } from '../constants';
@@ -28,7 +28,7 @@ export const useSteamSignIn = (): [signInCallback: () => void] => {
   useEvent('storage', (event: StorageEvent) => {
     if (!event.newValue) return;
     if (event.key === STORAGE_KEY.SECRET_TOKEN) {
-      ReactGA.event({ category: EventCategory.Assets, action: EventName.SignInSteam, label: 'success' });
+      track(EventName.SignInSteam, 'success');
       const secretToken = event.newValue;
       setSteamSecretToken(secretToken);
       Cookies.set(STORAGE_KEY.SECRET_TOKEN, secretToken);
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useRecoilValue, useSetRecoilState } from 'recoil';
+import { STORAGE_KEY } from '@/constants';
+import { applyLocale, detectLocale, Locale, MessageKey, translate } from '@/i18n';
+import { localeAtom } from '@/store/locale/state';
+import { setLocalStorage } from '@/utils/storage';
+
+/**
+ * `t` re-renders the component when the language is switched
+ */
+export const useTranslation = () => {
+  const locale = useRecoilValue(localeAtom);
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) => translate(key, params, locale),
+    [locale],
+  );
+  return useMemo(() => ({ t, locale }), [locale, t]);
+};
+
+/**
+ * switch and remember the language
+ */
+export const useSetLocale = () => {
+  const setLocale = useSetRecoilState(localeAtom);
+
+  return useCallback(
+    (locale: Locale) => {
+      applyLocale(locale);
+      setLocalStorage(STORAGE_KEY.LOCALE, locale);
+      setLocale(locale);
+    },
+    [setLocale],
+  );
+};
+
+/**
+ * pick the saved or browser language once on the client, SSR always renders English
+ */
+export const useLocaleDetection = () => {
+  const setLocale = useSetRecoilState(localeAtom);
+
+  useEffect(() => {
+    const locale = detectLocale();
+    applyLocale(locale);
+    setLocale(locale);
+  }, [setLocale]);
+};
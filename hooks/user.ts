@@ -1,6 +1,9 @@
-import { EventCategory, EventName } from '@/constants/event';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 import { fetchLogin, fetchPowerVote, fetchUserInfo } from '@/lib/api-nest';
-import instance from '@/lib/request-nest';
+import { removeWalletQueries } from '@/lib/query-cache';
+import instance, { onUnauthorized } from '@/lib/request-nest';
+import { resultData, unwrapResult } from '@/lib/result';
 import { LoginParams } from '@/lib/types-nest';
 import {
   arcanaInvitationInfoAtom,
@@ -11,29 +14,35 @@ import {
 } from '@/store/arcana/state';
 import { userPowerLevelAtom } from '@/store/dashboard/state';
 import { accessTokenAtom, userInfoAtom } from '@/store/user/state';
-import { removeAccessToken, setAccessToken } from '@/utils/authorization';
-import { useMutation, useQuery } from '@tanstack/react-query';
-import { useCallback, useMemo } from 'react';
-import ReactGA from 'react-ga4';
+import { getAuthorization, isAuthorizationExpired, removeAccessToken, setAccessToken } from '@/utils/authorization';
+import { toastApiError, toastSessionExpired } from '@/utils/toast';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
 import { useRecoilValue, useResetRecoilState, useSetRecoilState } from 'recoil';
-import { useAccount, useDisconnect } from 'wagmi';
+import { Address, useAccount, useDisconnect } from 'wagmi';
 import { useFetchUserNotSubmittedList, useMutationUserSubmittedList } from './dashboard/creation';
 import { useFetchArcanaInvitationInfo } from './dashboard/referral';
+import { useTranslation } from './useTranslation';
 import { useMutationTasksStatus } from './dashboard/task';
 
 export const useMutationLogin = () => {
+  const { t } = useTranslation();
   const setUserInfo = useSetRecoilState(userInfoAtom);
   const setAccessTokenAtom = useSetRecoilState(accessTokenAtom);
 
   return useMutation({
     mutationFn: (params: LoginParams) => fetchLogin(params),
-    onSuccess: ({ code, data }) => {
-      if (code === 200) {
-        setAccessToken(data?.accessToken ?? '');
-        instance.defaults.headers.common['Authorization'] = 'Bearer ' + data.accessToken;
-        setUserInfo(data);
-        setAccessTokenAtom(data.accessToken);
+    onSuccess: (result, { message }) => {
+      if (!result.ok) {
+        toastApiError(result.error, t('toast.signInFailed'));
+        return;
       }
+      const { data } = result;
+      const expiresAt = message.expirationTime ? new Date(message.expirationTime).getTime() : undefined;
+      setAccessToken(data?.accessToken ?? '', expiresAt);
+      instance.defaults.headers.common['Authorization'] = 'Bearer ' + data.accessToken;
+      setUserInfo(data);
+      setAccessTokenAtom(data.accessToken);
     },
   });
 };
@@ -43,9 +52,9 @@ export const useFetchUserInfo = () => {
   const accessToken = useRecoilValue(accessTokenAtom);
   const setUserInfo = useSetRecoilState(userInfoAtom);
 
-  return useQuery(['fetch_user_info', accessToken], () => fetchUserInfo(), {
-    select: (data) => (data.code === 200 ? data.data : undefined),
+  return useQuery(['fetch_user_info', accessToken], () => unwrapResult(fetchUserInfo()), {
     onSuccess: (data) => setUserInfo(data),
+    onError: () => setUserInfo(undefined),
     enabled: !!address && !!accessToken,
   });
 };
@@ -60,15 +69,8 @@ export const useMutationUserInfo = () => {
   const setUserInfo = useSetRecoilState(userInfoAtom);
 
   return useMutation(() => fetchUserInfo(), {
-    onSuccess: (res) => {
-      const { code, data } = res ?? {};
-      if (code === 200) {
-        setUserInfo(data);
-        return data;
-      }
-    },
-    onError: () => {
-      setUserInfo(undefined);
+    onSuccess: (result) => {
+      setUserInfo(resultData(result));
     },
   });
 };
@@ -77,15 +79,8 @@ export const useMutationPowerVoteInfo = () => {
   const setPowerVoteInfo = useSetRecoilState(arcanaPowerVoteAtom);
   return useMutation({
     mutationFn: () => fetchPowerVote(),
-    onSuccess: (res) => {
-      const { code, data } = res ?? {};
-      if (code === 200) {
-        setPowerVoteInfo(data);
-        return data;
-      }
-    },
-    onError: () => {
-      setPowerVoteInfo(undefined);
+    onSuccess: (result) => {
+      setPowerVoteInfo(resultData(result));
     },
   });
 };
@@ -154,10 +149,52 @@ export const useRemoveGlobalState = () => {
 export const useLogoutCallback = () => {
   const removeGlobalState = useRemoveGlobalState();
   const { disconnect } = useDisconnect();
+  const queryClient = useQueryClient();
 
   return useCallback(() => {
-    ReactGA.event({ category: EventCategory.Global, action: EventName.DisconnectWallet });
+    track(EventName.DisconnectWallet);
     removeGlobalState();
+    removeWalletQueries(queryClient);
     disconnect?.();
-  }, [disconnect, removeGlobalState]);
+  }, [disconnect, queryClient, removeGlobalState]);
+};
+
+// setTimeout overflows above 2^31-1 ms
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * clear the session once the access token expires or the nest api answers 401, then ask to sign in again
+ * @param onExpired - re-prompt sign in for the connected address
+ */
+export const useSessionExpiry = (onExpired: (address: Address) => void) => {
+  const { address } = useAccount();
+  const accessToken = useRecoilValue(accessTokenAtom);
+  const removeGlobalState = useRemoveGlobalState();
+  const expiring = useRef(false);
+
+  const expire = useCallback(() => {
+    // concurrent 401s should only prompt once
+    if (!address || expiring.current) return;
+    expiring.current = true;
+    removeGlobalState();
+    toastSessionExpired();
+    onExpired(address);
+  }, [address, onExpired, removeGlobalState]);
+
+  useEffect(() => {
+    if (accessToken) expiring.current = false;
+  }, [accessToken]);
+
+  useEffect(() => onUnauthorized(expire), [expire]);
+
+  useEffect(() => {
+    const authorization = getAuthorization({ address });
+    if (!authorization?.expiresAt) return;
+    if (isAuthorizationExpired(authorization)) {
+      expire();
+      return;
+    }
+    const timer = setTimeout(expire, Math.min(authorization.expiresAt - Date.now(), MAX_TIMEOUT));
+    return () => clearTimeout(timer);
+  }, [accessToken, address, expire]);
 };
@@ -0,0 +1,230 @@
+/**
+ * English catalog, the source of truth for message keys
+ * `{name}` placeholders are filled by translate
+ */
+const en = {
+  // common
+  'common.connectWalletFirst': 'Please connect your wallet first',
+  'common.copied': 'Copied to clipboard',
+  'common.missionComplete': 'Mission Complete',
+  'common.oneTimeTask': 'One-time Task',
+  'common.dailyTask': 'Daily Task',
+  'common.specialTask': 'Special Task',
+  'common.perDay': 'per day',
+  // header
+  'header.language': 'Language',
+  'header.landingSite': 'P12 Landingsite',
+  'cache.stale': 'Cached data from {time}',
+  'cache.refreshing': 'refreshing',
+  'cache.offline': 'could not refresh',
+  'footer.analytics': 'Share anonymous usage data',
+  'footer.analyticsHint': 'Helps us improve P12. Nothing is sent while this is off.',
+  // account switcher
+  'session.accounts': 'Accounts',
+  'session.signedIn': 'Signed in',
+  'session.expired': 'Expired',
+  'session.forget': 'Forget this account',
+  'session.switchTitle': 'Switch account in your wallet',
+  'session.switchMessage': 'P12 can not switch accounts for you, select {address} in your wallet and P12 follows it.',
+  'session.switchHint': 'Select this account in your wallet to switch to it',
+  'session.walletFailed': 'Could not open the wallet accounts',
+  'session.expiredTitle': 'Session expired',
+  'session.expiredMessage': 'Please sign in again.',
+  // api errors
+  'apiError.httpTitle': 'Server error',
+  'apiError.businessTitle': 'Request failed',
+  'apiError.networkTitle': 'Network error',
+  'apiError.timeoutTitle': 'Request timed out',
+  'apiError.httpMessage': 'Something went wrong on our side, please try again later.',
+  'apiError.businessMessage': 'Please try again.',
+  'apiError.networkMessage': 'Please check your network connection and try again.',
+  'apiError.timeoutMessage': 'The server took too long to respond, please try again.',
+  // arcana tasks
+  'task.loginEditor.title': 'Register P12 Editor',
+  'task.loginEditor.desc':
+    'The P12 Editor is now publicly available. Download, install, and register with your wallet to become a certified P12 developer and gain Power Level.',
+  'task.createGame.title': 'Publish your Creation',
+  'task.createGame.desc':
+    "Create your own metaverse assets using P12 Editor, then publish them via 'Project-Publish'. Manage your creations, including renaming and uploading images in the 'Creation' tab on the landing page.",
+  'task.participateArcana.title': 'Become a Voter',
+  'task.participateArcana.desc': "Activate your votes by completing a transaction in either the 'Gallery Tab' or Task Panel.",
+  'task.doVote.title': 'Vote Vote Vote',
+  'task.doVote.desc': "Your POWER LEVEL is your vote count, and it resets daily. Don't forget to vote everyday!",
+  'task.burnBadge.title': 'P12 Community Badge',
+  'task.burnBadge.desc':
+    "Acquire P12 Community Badge NFT through community or NFT marketplace.Click 'GO' above to access P12 BRIDGE (Beta), complete the required steps to verify your ownership, and receive rewards.",
+  'task.linkAspecta.title': 'Linked with Aspecta',
+  'task.linkAspecta.desc':
+    'Click "Go" and link GitHub when registering your Aspecta ID. Your developer skills will be automatically verified and receive PL.',
+  'task.linkUneMeta.title': 'Linked with UneMeta',
+  'task.linkUneMeta.desc':
+    'Visit the P12 portal on the UneMeta official website to complete the task. Task verification may require a delay of up to 1 day. Please be patient and wait.',
+  'task.genesisNFTGamer.title': 'Claim P12 Genesis NFT(Gamer)',
+  'task.genesisNFTGamer.desc':
+    'P12 Genesis NFT is a tribute to Steam gamers, and a Soul-bound token that captures web2 gaming credentials.',
+  'task.attendedTiArcana.title': 'Bonus for P12 Arcana: TI11',
+  'task.attendedTiArcana.desc':
+    'The Arcana TI event was held in November 2022. Participated users can get extra Power Level based on their involvement. P12 Arcana is an ongoing series event, offering long-term value to followers.',
+  // my tasks
+  'myTasks.title': 'My Arcana Tasks',
+  'myTasks.referral': 'Arcana Referral',
+  'myTasks.referralDescPrefix': 'Log in to the Arcana event through your referral link and complete the',
+  'myTasks.referralDescSuffix': 'task is considered a valid referral.',
+  'myTasks.plReward': 'PL Reward :',
+  'myTasks.validReferral': 'Your Valid Referral :',
+  'myTasks.verified': 'Verify Successfully',
+  'myTasks.getMorePL': 'Get More PL',
+  'myTasks.empty': "You haven't completed any arcana tasks yet.",
+  // referral tweets
+  'referral.steamTweet':
+    'Join @_p12_ P12 Genesis Airdrop Steam gamers and get Soul-Bound NFT which captures your unique gaming credentials for free!',
+  'referral.arcanaTweet1':
+    'Join me at P12 Arcana Editorium! Create your own virtual wonders with P12 Editor and grab fantastic cash rewards.',
+  'referral.arcanaTweet2':
+    'Dive into P12 Arcana Editorium now! Craft virtual magic with P12 Editor and score big with cash rewards and treasures!',
+  'referral.arcanaTweet3':
+    'Ready for action at P12 Arcana Editorium? Use P12 Editor to conjure unique virtual assets and seize incredible cash bonuses and NFT gems!',
+  'referral.predictionTweet':
+    'Join P12 Arcana @ TI11 tune into the Great Web3 Gaming Event Featuring #Dota2\nMake your pick to unlock the awesome prize pool sponsored by @_p12_ & great partners!',
+  // steam permission
+  'permission.title': 'Permission Setting',
+  'permission.notice':
+    'We cannot view your profile. Please go to Privacy Settings and set all profile items to "Public" including secondary options. You can turn off after the airdrop!',
+  'permission.reload': 'Reload Stats',
+  'permission.openSteam': 'Open Steam',
+  // toasts
+  'toast.errorTitle': 'Ah shit, here we go again',
+  'toast.oops': 'Oops',
+  'toast.saveError': 'save error',
+  'toast.submitted': 'Submitted',
+  'toast.viewOnEtherscan': 'View on Etherscan',
+  'toast.allowPopups': 'Please allow popups for this website.',
+  'toast.chooseAgain': 'Go wash your face and choose again',
+  'toast.signInFailed': 'Sign in failed',
+  'toast.upgradeFailed': 'Upgrade failed',
+  'collab.joined': 'Join successfully',
+  'collab.joinFailed': 'Join failed',
+  'collab.verified': 'Verify successfully!',
+  'collab.verifyFailed': 'Verify failed!',
+  'collab.invalidTweet': 'Not a legitimate twitter link!',
+  'email.bound': 'Bind email successfully',
+  'developer.verified': 'Verified successfully',
+  'developer.verifyFailed': 'Verification failed',
+  'developer.duplicateGame': 'Duplicate Steam game',
+  'editor.verifyLoginFailed': 'Verify Editor login failed.',
+  'editor.verifyLoginSucceeded': 'Verify Editor login succeeded.',
+  'profile.syncing': 'Synchronizing...',
+  'profile.syncFailed': 'Synchronize failed. Please try again.',
+  'profile.synced': 'Synchronize successfully',
+  'profile.nicknameDot': "Nickname shouldn't include dot, please try again.",
+  'profile.nameCheckFailed': '{name} check failed.',
+  'profile.nameExists': '{name} already exists, please change.',
+  'profile.chainNameMissing': 'Have not {name}, please click to sync',
+  'profile.saved': 'Save changes successfully.',
+  'profile.saveFailed': 'Save changes failed.',
+  // bridge
+  'bridge.success': 'Bridge Successfully',
+  'bridge.failed': 'Bridge Failed',
+  'bridge.failedMessage': 'The transaction did not go through, your badges stay on the source chain.',
+  'bridge.refundGet': 'Get',
+  'bridge.refundPowerLevel': 'Power Level',
+  'bridge.refundLoading': 'Loading refund configuration...',
+  'bridge.refundEstimated': 'Refund configuration unavailable, Power Level is estimated from rarity.',
+  'bridge.refundAmount': '{pl} PL and ${usd}',
+  'bridge.refunded': 'Refunded {refund}',
+  'bridge.refundDiffers': 'Refund differs from preview',
+  'bridge.refundDiffersMessage': 'Expected {expected}, received {received}.',
+  // bridge history
+  'bridgeHistory.title': 'Bridge History',
+  'bridgeHistory.time': 'Time',
+  'bridgeHistory.from': 'From',
+  'bridgeHistory.to': 'To',
+  'bridgeHistory.bridged': 'Bridged',
+  'bridgeHistory.amount': 'Amount',
+  'bridgeHistory.tx': 'Bridge tx',
+  'bridgeHistory.status': 'Status',
+  'bridgeHistory.pending': 'Pending',
+  'bridgeHistory.confirmed': 'Confirmed',
+  'bridgeHistory.failed': 'Failed',
+  'bridgeHistory.replaced': 'Replaced',
+  'bridgeHistory.unknown': 'unknown',
+  'bridgeHistory.hide': 'Hide',
+  'bridgeHistory.more': '+{count} more',
+  'bridgeHistory.onChain': 'On-chain',
+  'bridgeHistory.notIndexed': 'Not indexed by badge-api yet',
+  'bridgeHistory.allChains': 'All chains',
+  'bridgeHistory.allCampaigns': 'All campaigns',
+  'bridgeHistory.apiUnavailable': 'Badge API is unavailable, showing recent transactions read from the bridge contracts',
+  'bridgeHistory.apiUnavailableSince':
+    'Badge API is unavailable, showing transactions since {date} read from the bridge contracts, older ones are not listed',
+  // approval audit
+  'approvalAudit.title': 'Deprecated Bridge Approvals',
+  'approvalAudit.chain': 'Chain',
+  'approvalAudit.contract': 'Badge contract',
+  'approvalAudit.operator': 'Approved operator',
+  'approvalAudit.status': 'Status',
+  'approvalAudit.unknown': 'unknown',
+  'approvalAudit.held': '{count} held',
+  'approvalAudit.deprecatedBridge': 'Deprecated bridge',
+  'approvalAudit.waiting': 'Waiting',
+  'approvalAudit.revoking': 'Revoking',
+  'approvalAudit.revoked': 'Revoked',
+  'approvalAudit.failed': 'Failed',
+  'approvalAudit.revoke': 'Revoke',
+  'approvalAudit.revokeAll': 'Revoke all ({count})',
+  'approvalAudit.connect': 'Connect a wallet to check the approvals of its badges.',
+  'approvalAudit.connectWallet': 'Connect wallet',
+  'approvalAudit.readError': 'Approvals could not be read, try again later.',
+  'approvalAudit.noBadges': 'No badges held on the bridge source chains.',
+  'approvalAudit.checked': '{count} badge contracts checked on {chains}.',
+  'approvalAudit.checkedOne': '1 badge contract checked on {chains}.',
+  // badge collection
+  'collection.title': 'Badge Collection',
+  'collection.share': 'Share',
+  'collection.link': 'Collection link',
+  'collection.collected': '{collected} / {total} collected',
+  'collection.community': 'Community Badges',
+  'collection.ama': 'AMA OATs',
+  'collection.retired': 'Retired',
+  'collection.bridged': 'Bridged',
+  'collection.obtain': 'Obtain on Galxe',
+  'collection.connect': 'Connect a wallet to see its badge collection.',
+  'collection.connectWallet': 'Connect wallet',
+  // predictions
+  'prediction.title': 'Tips & Predictions',
+  'prediction.subtitle': 'More Votes, More Bounties!',
+  'prediction.share': 'Share',
+  // prediction review
+  'predictionReview.open': 'Review Picks',
+  'predictionReview.title': 'Review Your Picks',
+  'predictionReview.empty': 'No changed picks.',
+  'predictionReview.none': 'None',
+  'predictionReview.ended': 'Ended, can no longer be submitted',
+  'predictionReview.ends': 'Ends {time}',
+  'predictionReview.submitted': 'Submitted: ',
+  'predictionReview.draft': 'Draft: ',
+  'predictionReview.discard': 'Discard Drafts',
+  'predictionReview.keepEditing': 'Keep Editing',
+  'predictionReview.submit': 'Submit ({count})',
+  'predictionReview.submitDone': 'Your picks are submitted',
+  'predictionReview.submitFailed': 'Submit failed',
+  // multicast calculator
+  'multicast.settled': 'settled',
+  'multicast.maxPool': 'Pool at its max ({amount})',
+  'multicast.otherVotes': '{count} other votes',
+  'multicast.otherWinnersVotes': "Other winners' votes",
+  'multicast.projection': 'With your {votes} votes you would take {share} of {pool} if your pick wins:',
+  'multicast.referral': 'One more referral, about {votes} votes, is worth on this prediction:',
+  'multicast.noReferral': 'Invite your first friend to see what one more referral is worth.',
+  'multicast.scenarioHalf': 'Half the winners',
+  'multicast.scenarioCurrent': 'As it stands',
+  'multicast.scenarioTwice': 'Twice the winners',
+  'multicast.scenarioCrowded': 'Crowded pick',
+  'multicast.scenarioAlone': 'Only you',
+  'multicast.scenarioMatched': 'As many as yours',
+  'multicast.scenarioDouble': 'Twice yours',
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,68 @@
+import dayjs from 'dayjs';
+import 'dayjs/locale/zh-cn';
+import { STORAGE_KEY } from '@/constants';
+import { getLocalStorage } from '@/utils/storage';
+import en, { MessageKey } from './en';
+import zhCN from './zh-CN';
+
+export type { MessageKey } from './en';
+
+export enum Locale {
+  En = 'en',
+  ZhCN = 'zh-CN',
+}
+
+// shown in the language switch, always in its own language
+export const LOCALE_NAME: Record<Locale, string> = {
+  [Locale.En]: 'English',
+  [Locale.ZhCN]: '简体中文',
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  [Locale.En]: en,
+  [Locale.ZhCN]: zhCN,
+};
+
+const DAYJS_LOCALE: Record<Locale, string> = {
+  [Locale.En]: 'en',
+  [Locale.ZhCN]: 'zh-cn',
+};
+
+// module state so toasts and formatters outside React follow the switch too
+let currentLocale = Locale.En;
+
+const isLocale = (value: unknown): value is Locale => Object.values(Locale).includes(value as Locale);
+
+/**
+ * saved choice first, then the browser languages, English otherwise
+ */
+export function detectLocale(): Locale {
+  const saved = getLocalStorage<string>(STORAGE_KEY.LOCALE);
+  if (isLocale(saved)) return saved;
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  return languages.some((language) => language.toLowerCase().startsWith('zh')) ? Locale.ZhCN : Locale.En;
+}
+
+export const getLocale = () => currentLocale;
+
+/**
+ * switch module state, dayjs and the document language
+ * @param locale
+ */
+export function applyLocale(locale: Locale) {
+  currentLocale = locale;
+  dayjs.locale(DAYJS_LOCALE[locale]);
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+}
+
+/**
+ * look up a message, `{name}` placeholders are replaced from params
+ * @param key
+ * @param params
+ * @param locale - defaults to the current locale
+ */
+export function translate(key: MessageKey, params?: Record<string, string | number>, locale: Locale = currentLocale) {
+  const message = MESSAGES[locale][key] ?? en[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
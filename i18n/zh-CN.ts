@@ -0,0 +1,216 @@
+import { MessageKey } from './en';
+
+const zhCN: Record<MessageKey, string> = {
+  // common
+  'common.connectWalletFirst': '请先连接钱包',
+  'common.copied': '已复制到剪贴板',
+  'common.missionComplete': '任务完成',
+  'common.oneTimeTask': '一次性任务',
+  'common.dailyTask': '每日任务',
+  'common.specialTask': '特殊任务',
+  'common.perDay': '每天',
+  // header
+  'header.language': '语言',
+  'header.landingSite': 'P12 官网',
+  'cache.stale': '缓存数据，更新于{time}',
+  'cache.refreshing': '刷新中',
+  'cache.offline': '刷新失败',
+  'footer.analytics': '分享匿名使用数据',
+  'footer.analyticsHint': '帮助我们改进 P12，关闭后不会发送任何数据。',
+  // account switcher
+  'session.accounts': '账户',
+  'session.signedIn': '已登录',
+  'session.expired': '已过期',
+  'session.forget': '移除此账户',
+  'session.switchTitle': '请在钱包中切换账户',
+  'session.switchMessage': 'P12 无法替你切换账户，请在钱包中选择 {address}，P12 会随之切换。',
+  'session.switchHint': '在钱包中选择此账户以切换',
+  'session.walletFailed': '无法打开钱包账户',
+  'session.expiredTitle': '登录已过期',
+  'session.expiredMessage': '请重新登录。',
+  // api errors
+  'apiError.httpTitle': '服务器错误',
+  'apiError.businessTitle': '请求失败',
+  'apiError.networkTitle': '网络错误',
+  'apiError.timeoutTitle': '请求超时',
+  'apiError.httpMessage': '服务器出了点问题，请稍后重试。',
+  'apiError.businessMessage': '请重试。',
+  'apiError.networkMessage': '请检查网络连接后重试。',
+  'apiError.timeoutMessage': '服务器响应超时，请重试。',
+  // arcana tasks
+  'task.loginEditor.title': '注册 P12 Editor',
+  'task.loginEditor.desc': 'P12 Editor 现已公开发布。下载、安装并使用钱包注册，即可成为认证的 P12 开发者并获得 Power Level。',
+  'task.createGame.title': '发布你的作品',
+  'task.createGame.desc':
+    "使用 P12 Editor 创作你自己的元宇宙资产，然后通过 'Project-Publish' 发布。你可以在官网的 'Creation' 标签页中管理作品，包括重命名和上传图片。",
+  'task.participateArcana.title': '成为投票者',
+  'task.participateArcana.desc': "在 'Gallery Tab' 或任务面板中完成一笔交易即可激活你的投票。",
+  'task.doVote.title': '投票投票投票',
+  'task.doVote.desc': '你的 POWER LEVEL 就是你的票数，每天重置。别忘了每天投票！',
+  'task.burnBadge.title': 'P12 社区徽章',
+  'task.burnBadge.desc':
+    "通过社区或 NFT 市场获取 P12 社区徽章 NFT。点击上方的 'GO' 进入 P12 BRIDGE (Beta)，完成所需步骤验证持有后即可获得奖励。",
+  'task.linkAspecta.title': '关联 Aspecta',
+  'task.linkAspecta.desc': '点击 "Go"，在注册 Aspecta ID 时关联 GitHub。你的开发者技能将被自动验证并获得 PL。',
+  'task.linkUneMeta.title': '关联 UneMeta',
+  'task.linkUneMeta.desc': '前往 UneMeta 官网的 P12 专区完成任务。任务验证最多可能延迟 1 天，请耐心等待。',
+  'task.genesisNFTGamer.title': '领取 P12 Genesis NFT（玩家）',
+  'task.genesisNFTGamer.desc': 'P12 Genesis NFT 是献给 Steam 玩家的灵魂绑定代币，记录你的 web2 游戏履历。',
+  'task.attendedTiArcana.title': 'P12 Arcana: TI11 奖励',
+  'task.attendedTiArcana.desc':
+    'Arcana TI 活动已于 2022 年 11 月举办。参与过的用户可根据参与程度获得额外的 Power Level。P12 Arcana 是持续进行的系列活动，为关注者提供长期价值。',
+  // my tasks
+  'myTasks.title': '我的 Arcana 任务',
+  'myTasks.referral': 'Arcana 邀请',
+  'myTasks.referralDescPrefix': '通过你的邀请链接登录 Arcana 活动并完成',
+  'myTasks.referralDescSuffix': '任务，即视为有效邀请。',
+  'myTasks.plReward': 'PL 奖励：',
+  'myTasks.validReferral': '有效邀请：',
+  'myTasks.verified': '验证成功',
+  'myTasks.getMorePL': '获取更多 PL',
+  'myTasks.empty': '你还没有完成任何 Arcana 任务。',
+  // referral tweets
+  'referral.steamTweet': '加入 @_p12_ P12 Genesis 空投，Steam 玩家可免费获得记录你独特游戏履历的灵魂绑定 NFT！',
+  'referral.arcanaTweet1': '和我一起参加 P12 Arcana Editorium！用 P12 Editor 创造你的虚拟奇观，赢取丰厚现金奖励。',
+  'referral.arcanaTweet2': '立即加入 P12 Arcana Editorium！用 P12 Editor 施展虚拟魔法，赢取现金奖励和宝藏！',
+  'referral.arcanaTweet3': '准备好参加 P12 Arcana Editorium 了吗？用 P12 Editor 打造独特的虚拟资产，赢取现金奖励和 NFT 珍宝！',
+  'referral.predictionTweet':
+    '加入 P12 Arcana @ TI11，关注这场 #Dota2 Web3 游戏盛事\n做出你的预测，解锁由 @_p12_ 和众多合作伙伴赞助的丰厚奖池！',
+  // steam permission
+  'permission.title': '权限设置',
+  'permission.notice': '我们无法查看你的资料。请前往隐私设置，将所有资料项（包括二级选项）设为“公开”。空投结束后即可关闭！',
+  'permission.reload': '刷新数据',
+  'permission.openSteam': '打开 Steam',
+  // toasts
+  'toast.errorTitle': '啊这，又出错了',
+  'toast.oops': '哎呀',
+  'toast.saveError': '保存失败',
+  'toast.submitted': '已提交',
+  'toast.viewOnEtherscan': '在 Etherscan 上查看',
+  'toast.allowPopups': '请允许本网站打开弹出窗口。',
+  'toast.chooseAgain': '洗把脸，再选一次吧',
+  'toast.signInFailed': '登录失败',
+  'toast.upgradeFailed': '升级失败',
+  'collab.joined': '加入成功',
+  'collab.joinFailed': '加入失败',
+  'collab.verified': '验证成功！',
+  'collab.verifyFailed': '验证失败！',
+  'collab.invalidTweet': '不是有效的推特链接！',
+  'email.bound': '邮箱绑定成功',
+  'developer.verified': '验证成功',
+  'developer.verifyFailed': '验证失败',
+  'developer.duplicateGame': 'Steam 游戏重复',
+  'editor.verifyLoginFailed': '编辑器登录验证失败。',
+  'editor.verifyLoginSucceeded': '编辑器登录验证成功。',
+  'profile.syncing': '同步中...',
+  'profile.syncFailed': '同步失败，请重试。',
+  'profile.synced': '同步成功',
+  'profile.nicknameDot': '昵称不能包含“.”，请重试。',
+  'profile.nameCheckFailed': '{name} 校验失败。',
+  'profile.nameExists': '{name} 已被占用，请更换。',
+  'profile.chainNameMissing': '尚未拥有 {name}，请点击同步',
+  'profile.saved': '保存成功。',
+  'profile.saveFailed': '保存失败。',
+  // bridge
+  'bridge.success': '跨链成功',
+  'bridge.failed': '跨链失败',
+  'bridge.failedMessage': '交易未能完成，你的徽章仍在源链上。',
+  'bridge.refundGet': '获得',
+  'bridge.refundPowerLevel': 'Power Level',
+  'bridge.refundLoading': '正在加载退款配置...',
+  'bridge.refundEstimated': '退款配置不可用，Power Level 按稀有度估算。',
+  'bridge.refundAmount': '{pl} PL 和 ${usd}',
+  'bridge.refunded': '已退还 {refund}',
+  'bridge.refundDiffers': '退款与预估不一致',
+  'bridge.refundDiffersMessage': '预计 {expected}，实际收到 {received}。',
+  // bridge history
+  'bridgeHistory.title': '跨链记录',
+  'bridgeHistory.time': '时间',
+  'bridgeHistory.from': '来源链',
+  'bridgeHistory.to': '目标链',
+  'bridgeHistory.bridged': '跨链徽章',
+  'bridgeHistory.amount': '数量',
+  'bridgeHistory.tx': '跨链交易',
+  'bridgeHistory.status': '状态',
+  'bridgeHistory.pending': '处理中',
+  'bridgeHistory.confirmed': '已确认',
+  'bridgeHistory.failed': '失败',
+  'bridgeHistory.replaced': '已替换',
+  'bridgeHistory.unknown': '未知',
+  'bridgeHistory.hide': '收起',
+  'bridgeHistory.more': '另有 {count} 个',
+  'bridgeHistory.onChain': '链上',
+  'bridgeHistory.notIndexed': 'badge-api 尚未收录',
+  'bridgeHistory.allChains': '全部链',
+  'bridgeHistory.allCampaigns': '全部活动',
+  'bridgeHistory.apiUnavailable': 'Badge API 不可用，显示从跨链合约读取的近期交易',
+  'bridgeHistory.apiUnavailableSince': 'Badge API 不可用，显示从跨链合约读取的 {date} 以来的交易，更早的交易未列出',
+  // approval audit
+  'approvalAudit.title': '旧跨链桥授权',
+  'approvalAudit.chain': '链',
+  'approvalAudit.contract': '徽章合约',
+  'approvalAudit.operator': '被授权地址',
+  'approvalAudit.status': '状态',
+  'approvalAudit.unknown': '未知',
+  'approvalAudit.held': '持有 {count} 个',
+  'approvalAudit.deprecatedBridge': '已弃用的跨链桥',
+  'approvalAudit.waiting': '等待中',
+  'approvalAudit.revoking': '撤销中',
+  'approvalAudit.revoked': '已撤销',
+  'approvalAudit.failed': '失败',
+  'approvalAudit.revoke': '撤销',
+  'approvalAudit.revokeAll': '全部撤销（{count}）',
+  'approvalAudit.connect': '连接钱包以检查其徽章的授权。',
+  'approvalAudit.connectWallet': '连接钱包',
+  'approvalAudit.readError': '无法读取授权，请稍后重试。',
+  'approvalAudit.noBadges': '在跨链桥的来源链上未持有徽章。',
+  'approvalAudit.checked': '已在 {chains} 上检查 {count} 个徽章合约。',
+  'approvalAudit.checkedOne': '已在 {chains} 上检查 1 个徽章合约。',
+  // badge collection
+  'collection.title': '徽章收藏',
+  'collection.share': '分享',
+  'collection.link': '收藏链接',
+  'collection.collected': '已收集 {collected} / {total}',
+  'collection.community': '社区徽章',
+  'collection.ama': 'AMA OAT',
+  'collection.retired': '已下架',
+  'collection.bridged': '已跨链',
+  'collection.obtain': '前往 Galxe 获取',
+  'collection.connect': '连接钱包以查看其徽章收藏。',
+  'collection.connectWallet': '连接钱包',
+  // predictions
+  'prediction.title': '提示与预测',
+  'prediction.subtitle': '票数越多，奖励越多！',
+  'prediction.share': '分享',
+  // prediction review
+  'predictionReview.open': '查看选择',
+  'predictionReview.title': '查看你的选择',
+  'predictionReview.empty': '没有改动的选择。',
+  'predictionReview.none': '无',
+  'predictionReview.ended': '已结束，无法再提交',
+  'predictionReview.ends': '{time} 结束',
+  'predictionReview.submitted': '已提交：',
+  'predictionReview.draft': '草稿：',
+  'predictionReview.discard': '放弃草稿',
+  'predictionReview.keepEditing': '继续编辑',
+  'predictionReview.submit': '提交（{count}）',
+  'predictionReview.submitDone': '你的选择已提交',
+  'predictionReview.submitFailed': '提交失败',
+  // multicast calculator
+  'multicast.settled': '已结算',
+  'multicast.maxPool': '奖池达到上限（{amount}）',
+  'multicast.otherVotes': '其他获胜者 {count} 票',
+  'multicast.otherWinnersVotes': '其他获胜者票数',
+  'multicast.projection': '若你的选择获胜，你的 {votes} 票可分得 {pool} 中的 {share}：',
+  'multicast.referral': '再邀请一人约带来 {votes} 票，在此预测中价值：',
+  'multicast.noReferral': '邀请第一位好友后，即可查看多邀请一人的价值。',
+  'multicast.scenarioHalf': '获胜者减半',
+  'multicast.scenarioCurrent': '当前',
+  'multicast.scenarioTwice': '获胜者翻倍',
+  'multicast.scenarioCrowded': '热门选择',
+  'multicast.scenarioAlone': '仅你一人',
+  'multicast.scenarioMatched': '与你票数相同',
+  'multicast.scenarioDouble': '你的两倍',
+};
+
+export default zhCN;
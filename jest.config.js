@@ -0,0 +1,30 @@
+const nextJest = require('next/jest');
+
+const createJestConfig = nextJest({ dir: './' });
+
+// esm only packages, transpiled as well
+const ESM_PACKAGES = ['wagmi', '@wagmi', 'lodash-es'];
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: 'node',
+  // the node builds in jsdom as well, the browser ones are esm only
+  testEnvironmentOptions: { customExportConditions: ['node', 'node-addons'] },
+  setupFiles: ['<rootDir>/jest.setup.js'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+};
+
+module.exports = async () => {
+  const nextConfig = await createJestConfig(config)();
+  return {
+    ...nextConfig,
+    transform: {
+      // without the tsconfig paths, swc would resolve their imports to the esm builds
+      '/node_modules/.+\\.js$': [require.resolve('next/dist/build/swc/jest-transformer'), {}],
+      ...nextConfig.transform,
+    },
+    transformIgnorePatterns: [`/node_modules/(?!(${ESM_PACKAGES.join('|')})/)`],
+  };
+};
@@ -0,0 +1,4 @@
+const { TextDecoder, TextEncoder } = require('util');
+
+// viem encodes with them, jsdom does not provide them
+Object.assign(global, { TextDecoder, TextEncoder });
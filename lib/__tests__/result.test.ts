@@ -0,0 +1,30 @@
+import { ApiError, ApiErrorKind, shouldRetryQuery, unwrapResult } from '@/lib/result';
+
+describe('unwrapResult', () => {
+  it('resolves to the data of a successful result', async () => {
+    await expect(unwrapResult(Promise.resolve({ ok: true as const, data: [1, 2] }))).resolves.toEqual([1, 2]);
+  });
+
+  it('rejects with the ApiError of a failed result', async () => {
+    const error = new ApiError(ApiErrorKind.Network, 'Network Error');
+    await expect(unwrapResult(Promise.resolve({ ok: false as const, error }))).rejects.toBe(error);
+  });
+});
+
+describe('shouldRetryQuery', () => {
+  it('retries network failures, timeouts and 5xx answers up to 3 times', () => {
+    expect(shouldRetryQuery(0, new ApiError(ApiErrorKind.Network, ''))).toBe(true);
+    expect(shouldRetryQuery(1, new ApiError(ApiErrorKind.Timeout, ''))).toBe(true);
+    expect(shouldRetryQuery(2, new ApiError(ApiErrorKind.Http, '', { status: 502 }))).toBe(true);
+    expect(shouldRetryQuery(3, new ApiError(ApiErrorKind.Network, ''))).toBe(false);
+  });
+
+  it('does not retry business errors and 4xx answers', () => {
+    expect(shouldRetryQuery(0, new ApiError(ApiErrorKind.Business, '', { code: 400 }))).toBe(false);
+    expect(shouldRetryQuery(0, new ApiError(ApiErrorKind.Http, '', { status: 404 }))).toBe(false);
+  });
+
+  it('retries errors thrown by other query functions', () => {
+    expect(shouldRetryQuery(0, new Error('execution reverted'))).toBe(true);
+  });
+});
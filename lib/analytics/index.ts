@@ -0,0 +1,76 @@
+import { STORAGE_KEY } from '@/constants';
+import { EVENT_CATEGORY, EventLabels, EventName } from '@/constants/event';
+import { isBrowser } from '@/utils';
+import { getLocalStorage, setLocalStorage } from '@/utils/storage';
+import { AnalyticsSink, consoleSink, createGA4Sink, noopSink } from './sinks';
+
+export * from './sinks';
+
+type TrackArgs<E extends EventName> = EventLabels[E] extends undefined ? [] : [label: EventLabels[E]];
+
+let sinks: AnalyticsSink[] = [createGA4Sink(), ...(process.env.NEXT_PUBLIC_ANALYTICS_DEBUG ? [consoleSink] : [])];
+// loaded from storage on first read
+let consent: boolean | undefined;
+
+const activeSinks = () => (getAnalyticsConsent() ? sinks : [noopSink]);
+
+/**
+ * replace where events are sent to, e.g. a memory sink in tests
+ * @param next
+ */
+export function setAnalyticsSinks(next: AnalyticsSink[]) {
+  sinks = next;
+}
+
+/**
+ * analytics is on unless the user switched it off
+ */
+export function getAnalyticsConsent() {
+  if (consent === undefined && isBrowser) {
+    consent = getLocalStorage<boolean>(STORAGE_KEY.ANALYTICS_CONSENT) ?? true;
+  }
+  return consent ?? true;
+}
+
+/**
+ * switch analytics on or off and remember the choice
+ * @param granted
+ */
+export function setAnalyticsConsent(granted: boolean) {
+  consent = granted;
+  setLocalStorage(STORAGE_KEY.ANALYTICS_CONSENT, granted);
+  sinks.forEach((sink) => sink.consent?.(granted));
+}
+
+/**
+ * read the saved consent and start the sinks, call once on the client
+ */
+export function initAnalytics() {
+  if (!isBrowser) return;
+  const granted = getAnalyticsConsent();
+  sinks.forEach((sink) => sink.consent?.(granted));
+}
+
+/**
+ * send an event declared in constants/event, the label type follows the event name
+ * @param name
+ * @param label
+ */
+export function track<E extends EventName>(name: E, ...[label]: TrackArgs<E>) {
+  const event = { name, category: EVENT_CATEGORY[name], label: label as string | undefined, timestamp: Date.now() };
+  activeSinks().forEach((sink) => {
+    try {
+      sink.track(event);
+    } catch (e) {
+      console.error(`[analytics] ${sink.name}`, e);
+    }
+  });
+}
+
+/**
+ * attach the connected wallet to later events
+ * @param address
+ */
+export function identify(address?: string) {
+  activeSinks().forEach((sink) => sink.identify?.(address));
+}
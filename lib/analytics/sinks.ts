@@ -0,0 +1,77 @@
+import ReactGA from 'react-ga4';
+import { EventCategory, EventName } from '@/constants/event';
+
+export type TrackedEvent = {
+  name: EventName;
+  category: EventCategory;
+  label?: string;
+  timestamp: number;
+};
+
+export interface AnalyticsSink {
+  name: string;
+  track: (event: TrackedEvent) => void;
+  // attach the wallet address to later events, undefined after disconnect
+  identify?: (address?: string) => void;
+  // analytics consent switched, sinks holding cookies should react here
+  consent?: (granted: boolean) => void;
+}
+
+const GOOGLE_ANALYTICS_ID = process.env.NEXT_PUBLIC_GOOGLE_ANALYTICS_ID;
+
+/**
+ * Google Analytics 4, initialized on first use so nothing is loaded without consent
+ */
+export const createGA4Sink = (measurementId = GOOGLE_ANALYTICS_ID): AnalyticsSink => {
+  const init = () => {
+    if (ReactGA.isInitialized) return;
+    if (measurementId) {
+      ReactGA.initialize(measurementId);
+    } else {
+      ReactGA.initialize('test', { testMode: true });
+    }
+  };
+
+  return {
+    name: 'ga4',
+    track: ({ name, category, label }) => {
+      init();
+      ReactGA.event({ action: name, category, label });
+    },
+    identify: (address) => {
+      init();
+      ReactGA.set({ userId: address, wallet_address: address?.substring(2) });
+    },
+    consent: (granted) => {
+      if (granted) init();
+      if (!ReactGA.isInitialized) return;
+      ReactGA.gtag('consent', 'update', { analytics_storage: granted ? 'granted' : 'denied' });
+    },
+  };
+};
+
+export const consoleSink: AnalyticsSink = {
+  name: 'console',
+  track: ({ name, category, label }) => console.debug('[analytics]', category, name, label ?? ''),
+  identify: (address) => console.debug('[analytics] identify', address ?? '-'),
+};
+
+/**
+ * keeps every event in memory, for tests and debugging
+ */
+export const createMemorySink = () => {
+  const events: TrackedEvent[] = [];
+  const sink: AnalyticsSink & { events: TrackedEvent[]; clear: () => void } = {
+    name: 'memory',
+    events,
+    track: (event) => events.push(event),
+    clear: () => events.splice(0, events.length),
+  };
+  return sink;
+};
+
+// used while the user opted out of analytics
+export const noopSink: AnalyticsSink = {
+  name: 'noop',
+  track: () => {},
+};
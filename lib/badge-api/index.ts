@@ -0,0 +1,76 @@
+import { GraphQLClient } from 'graphql-request';
+import { Address } from 'wagmi';
+import { GalxeBadge, GalxeCampaign } from '@/constants';
+import {
+  BadgeHistoryDocument,
+  BadgeHistoryQuery,
+  BadgeNftDocument,
+  BadgeNftQuery,
+  BadgePowerLevelDocument,
+  BadgeTokensDocument,
+  BadgeTokensQuery,
+} from './generated';
+
+export const BADGE_API_ENDPOINT = process.env.NEXT_PUBLIC_BADGE_API ?? 'https://badge-api.p12.games/graphql';
+
+export type BridgeTxs = NonNullable<BadgeHistoryQuery['user']>['bridgeTxs'][number];
+
+export type BadgeToken = NonNullable<BadgeTokensQuery['user']>['galxeBadges'][number];
+
+type BadgeNFT = NonNullable<BadgeNftQuery['user']>['galxeBadges'][number];
+
+const client = new GraphQLClient(
+  BADGE_API_ENDPOINT,
+  process.env.NEXT_PUBLIC_MOCK_API
+    ? { fetch: (input, init) => import('@/lib/mock').then(({ mockBadgeFetch }) => mockBadgeFetch(input, init)) }
+    : undefined,
+);
+
+/**
+ * the schema keeps addresses and campaign types as plain strings
+ * @param badge
+ */
+const toGalxeBadge = ({ contractAddress, galxeCampaign, ...badge }: BadgeNFT): GalxeBadge => ({
+  ...badge,
+  contractAddress: contractAddress as Address,
+  galxeCampaign: galxeCampaign
+    ? { ...galxeCampaign, campaignType: galxeCampaign.campaignType as GalxeCampaign['campaignType'] }
+    : undefined,
+});
+
+/**
+ * get galxe badges held by address
+ * @param address
+ */
+export const fetchBadgeNFT = async (address: Address) => {
+  const { user } = await client.request(BadgeNftDocument, { address });
+  return user?.galxeBadges.map(toGalxeBadge) ?? [];
+};
+
+/**
+ * get every badge token held by address with its mint info, kept apart from fetchBadgeNFT so the inventory
+ * still loads when the mint fields are unavailable
+ * @param address
+ */
+export const fetchBadgeTokens = async (address: Address) => {
+  const { user } = await client.request(BadgeTokensDocument, { address });
+  return user?.galxeBadges ?? [];
+};
+
+/**
+ * get badge bridge transactions of address
+ * @param address
+ */
+export const fetchBadgeHistory = async (address: Address) => {
+  const { user } = await client.request(BadgeHistoryDocument, { address });
+  return user?.bridgeTxs ?? [];
+};
+
+/**
+ * get power level earned from badges
+ * @param address
+ */
+export const fetchBadgePowerLevel = async (address: Address) => {
+  const { user } = await client.request(BadgePowerLevelDocument, { address });
+  return user?.badgePL ?? 0;
+};
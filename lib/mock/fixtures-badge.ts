@@ -0,0 +1,85 @@
+import dayjs from 'dayjs';
+import { bsc, polygon } from 'wagmi/chains';
+import { P12_CHAIN_ID } from '@/constants/chains';
+import { CatalogBadge, getCatalogBadge } from '@/constants';
+import { BadgeToken, BridgeTxs } from '@/lib/badge-api';
+import { BadgeNftQuery } from '@/lib/badge-api/generated';
+import { MockScenario } from './reply';
+
+const MOCK_BADGE_CONTRACT_POLYGON = '0x1200000000000000000000000000000000000137';
+const MOCK_BADGE_CONTRACT_BSC = '0x1200000000000000000000000000000000000056';
+
+// wire shape, before lib/badge-api maps it to the app GalxeBadge
+type GalxeBadge = NonNullable<BadgeNftQuery['user']>['galxeBadges'][number];
+
+const catalogBadge = (stringId: string, chainId: number, tokenId: number): GalxeBadge => {
+  const { type, name, rarity, image } = getCatalogBadge(stringId) as CatalogBadge;
+  return {
+    chainId,
+    image: image ?? '',
+    contractAddress: chainId === polygon.id ? MOCK_BADGE_CONTRACT_POLYGON : MOCK_BADGE_CONTRACT_BSC,
+    tokenId,
+    galxeCampaign: { cid: tokenId, stringId, name, rarity, campaignType: type },
+  };
+};
+
+const galxeBadges = (): GalxeBadge[] => [
+  catalogBadge('GC6YGUUpaT', polygon.id, 1001),
+  catalogBadge('GC6YGUUpaT', polygon.id, 1002),
+  catalogBadge('GC6YGUUpaT', polygon.id, 1003),
+  catalogBadge('GCXBcUUM56', polygon.id, 1004),
+  catalogBadge('GCbVwUt9SD', bsc.id, 2001),
+  catalogBadge('GCohBUjYYY', bsc.id, 2002),
+  catalogBadge('GC9ErUtrZN', polygon.id, 3001),
+  catalogBadge('GCPkMUt6uC', bsc.id, 4001),
+  catalogBadge('GCPkMUt6uC', bsc.id, 4002),
+];
+
+const bridgeTxs = (): BridgeTxs[] => [
+  {
+    hash: '0x1200000000000000000000000000000000000000000000000000000000000001',
+    chainId: String(polygon.id),
+    dstChainId: P12_CHAIN_ID,
+    timestamp: dayjs().subtract(3, 'day').unix(),
+    galxeBadges: [catalogBadge('GCj44UtwmA', polygon.id, 901)],
+  },
+  {
+    hash: '0x1200000000000000000000000000000000000000000000000000000000000002',
+    chainId: String(bsc.id),
+    dstChainId: P12_CHAIN_ID,
+    timestamp: dayjs().subtract(10, 'day').unix(),
+    galxeBadges: [catalogBadge('GC8NPUUqJC', bsc.id, 902), catalogBadge('GCdFZUtN2T', bsc.id, 903)],
+  },
+];
+
+const badgeTokens = (): BadgeToken[] =>
+  galxeBadges().map(({ chainId, contractAddress, tokenId, image }, index) => ({
+    chainId,
+    contractAddress,
+    tokenId,
+    image,
+    mintedAt: dayjs()
+      .subtract(30 * (index + 1), 'day')
+      .unix(),
+    mintTx: `0x${tokenId.toString(16).padStart(64, '0')}`,
+  }));
+
+/**
+ * answer a badge-api GraphQL document, picked by the field it selects on `user`
+ * @param query
+ * @param variables
+ * @param scenario
+ */
+export function badgeQuery(query: string, variables: Record<string, any>, scenario: MockScenario) {
+  const isNewUser = scenario === MockScenario.NewUser;
+  if (query.includes('bridgeTxs')) {
+    return { user: { bridgeTxs: isNewUser ? [] : bridgeTxs() } };
+  }
+  if (query.includes('mintedAt')) {
+    return { user: { galxeBadges: isNewUser ? [] : badgeTokens() } };
+  }
+  if (query.includes('badgePL')) {
+    return { user: { badgePL: isNewUser ? 0 : 120 } };
+  }
+  return { user: { address: variables.address, galxeBadges: isNewUser ? [] : galxeBadges() } };
+}
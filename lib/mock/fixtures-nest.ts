@@ -0,0 +1,176 @@
+import dayjs from 'dayjs';
+import { GenesisClaim, GenesisRarity, GenesisRole } from '@/constants';
+import { CheckResult, GameInfo, GenesisNFT, PowerVoteResult, TaskCode, UserInfo, UserPowerLevel } from '@/lib/types-nest';
+import { MOCK_ADDRESS } from './fixtures';
+import { MockRequest, MockRoutes, MockScenario, nestFail, nestOk } from './reply';
+
+const isNewUser = (req: MockRequest) => req.scenario === MockScenario.NewUser;
+
+const userInfo = (address: string = MOCK_ADDRESS): UserInfo => ({
+  accessToken: 'mock-access-token',
+  editorium: true,
+  walletAddress: address,
+  showName: 'mock.p12.dev',
+  nickname: 'mock gamer',
+  p12Name: 'mock',
+  ensName: null,
+  spaceIdBnb: null,
+  spaceIdArb: null,
+  ccProfileHandle: null,
+  avatar: null,
+  createdAt: dayjs().subtract(1, 'year').toISOString(),
+  twitter: '_p12_',
+  discord: null,
+  bio: 'Served by the offline mock backend.',
+  mwAccountInfo: [],
+  socialMedias: [],
+});
+
+const powerVote = (req: MockRequest): PowerVoteResult => ({
+  invite: isNewUser(req) ? 0 : 72,
+  participant: !isNewUser(req),
+  power: isNewUser(req) ? 0 : 1_200,
+  rank: isNewUser(req) ? undefined : 120,
+  votes: isNewUser(req) ? 0 : 24,
+  gamerPowerSyncNeeded: false,
+  walletAddress: MOCK_ADDRESS,
+  gamerNft: isNewUser(req) ? {} : { nftLevel: GenesisRarity.Epic, nftClaim: GenesisClaim.Claimed, power: 600 },
+  developerNft: isNewUser(req) ? {} : { nftLevel: GenesisRarity.Rare, nftClaim: GenesisClaim.Claimed, power: 300 },
+  beVotedVote: 12,
+});
+
+const powerLevel = (req: MockRequest): UserPowerLevel =>
+  isNewUser(req)
+    ? {
+        activatedPL: 0,
+        gamerPL: 0,
+        developerPL: 0,
+        arcanaPL: 0,
+        arcanaGamerPL: 0,
+        arcanaDeveloperPL: 0,
+        steamGamerPL: 0,
+        steamDeveloperPL: 0,
+      }
+    : {
+        gamerRank: 120,
+        developerRank: 360,
+        totalRank: 240,
+        activatedPL: 1_200,
+        gamerPL: 900,
+        developerPL: 300,
+        arcanaPL: 300,
+        arcanaGamerPL: 200,
+        arcanaDeveloperPL: 100,
+        steamGamerPL: 700,
+        steamDeveloperPL: 200,
+      };
+
+const genesisNFT = (req: MockRequest): GenesisNFT => {
+  const role = (req.query.role as GenesisRole) ?? GenesisRole.Gamer;
+  return {
+    createdAt: dayjs().subtract(1, 'year').valueOf(),
+    credential: 1,
+    id: role === GenesisRole.Gamer ? 1 : 2,
+    nftClaim: req.scenario === MockScenario.GenesisUnclaimed ? GenesisClaim.Unclaimed : GenesisClaim.Claimed,
+    nftId: role === GenesisRole.Gamer ? '1200' : '2400',
+    nftLevel: req.scenario === MockScenario.GenesisRekt ? GenesisRarity.Rekt : GenesisRarity.Epic,
+    nftSource: ['steam'],
+    nftType: role,
+    updatedAt: dayjs().subtract(30, 'day').valueOf(),
+    walletAddress: req.query.address ?? MOCK_ADDRESS,
+  };
+};
+
+const games = (submitted: boolean): GameInfo[] =>
+  new Array(submitted ? 2 : 1).fill(null).map((_, i) => ({
+    id: (submitted ? 100 : 200) + i,
+    rank: submitted ? i + 1 : undefined,
+    gameDescription: 'A creation made with P12 Editor.',
+    gameName: `${submitted ? 'Published' : 'Draft'} creation #${i + 1}`,
+    gameVotes: submitted ? 120 - i * 12 : 0,
+    mainImage: null,
+    showName: 'mock.p12.dev',
+    twitter: '_p12_',
+    twitterVerify: true,
+    walletAddress: MOCK_ADDRESS,
+  }));
+
+const routes: MockRoutes = {
+  'POST /auth/login': (req) => nestOk(userInfo(req.body.address)),
+  'GET /arcana/power-vote/:address': (req) =>
+    nestOk({
+      walletAddress: req.params.address,
+      participant: !isNewUser(req),
+      power: isNewUser(req) ? 0 : 1_200,
+      votes: isNewUser(req) ? 0 : 24,
+      invite: isNewUser(req) ? 0 : 72,
+      beVotedVote: 12,
+    }),
+  'GET /arcana/power-vote': (req) => nestOk(powerVote(req)),
+  'GET /app/profile': () => nestOk(userInfo()),
+  'POST /app/profile/check/name': (req) => nestOk(req.body.name === 'taken' ? CheckResult.EXIST : CheckResult.NOT_EXIST),
+  'POST /app/profile/chain-names': () =>
+    nestOk({
+      walletAddress: MOCK_ADDRESS,
+      ccProfileHandle: 'mock.cyber',
+      ensName: 'mock.eth',
+      spaceIdArb: null,
+      spaceIdBnb: 'mock.bnb',
+    }),
+  'POST /app/profile': () => nestOk(true),
+  'GET /arcana/game/submitted': (req) => nestOk(isNewUser(req) ? [] : games(true)),
+  'GET /arcana/game/not-submitted': (req) => nestOk(isNewUser(req) ? [] : games(false)),
+  'GET /arcana/task': (req) =>
+    nestOk(
+      isNewUser(req)
+        ? {}
+        : {
+            [TaskCode.LoginEditor]: true,
+            [TaskCode.CreateGame]: true,
+            [TaskCode.ParticipateArcana]: true,
+            [TaskCode.DoVote]: false,
+            [TaskCode.BurnBadge]: true,
+            [TaskCode.GenesisNFTGamer]: req.scenario !== MockScenario.GenesisUnclaimed,
+          },
+    ),
+  'GET /invitation/history/:code': (req) =>
+    nestOk(isNewUser(req) ? [] : [{ power: 24, showName: null, walletAddress: '0x1200000000000000000000000000000000000001' }]),
+  'GET /assets/dashboard/pl': (req) => nestOk(powerLevel(req)),
+  'GET /assets/dashboard/sbt': (req) => (isNewUser(req) ? nestFail(404, 'Genesis NFT not found') : nestOk(genesisNFT(req))),
+  'POST /arcana/user/editor-login': (req) =>
+    isNewUser(req)
+      ? nestFail(400, 'Editor login not found')
+      : nestOk({
+          createTime: dayjs().subtract(30, 'day').valueOf(),
+          mwDeveloperId: 'mock-developer',
+          walletAddress: MOCK_ADDRESS,
+        }),
+  'GET /assets/nft/pl': () => nestOk([30_000, 3_000, 600, 120, 12]),
+  'POST /assets/nft/upgrade': (req) =>
+    req.scenario === MockScenario.GenesisRekt
+      ? nestFail(400, 'Rekt genesis NFT can not be upgraded')
+      : nestOk([GenesisRarity.Rare]),
+  'GET /invitation/code': (req) =>
+    nestOk({
+      referralCode: 'MOCK12',
+      walletAddress: MOCK_ADDRESS,
+      ...(isNewUser(req)
+        ? {}
+        : {
+            referralBy: 'P12P12',
+            inviterAddress: '0x1200000000000000000000000000000000000001',
+            inviterShowName: 'p12.p12.dev',
+          }),
+    }),
+};
+
+/**
+ * fixtures for lib/api-nest.ts, keyed by `METHOD path`
+ */
+export const nestRoutes: MockRoutes = Object.fromEntries(
+  Object.entries(routes).map(([key, handler]) => [
+    key,
+    (req: MockRequest) =>
+      req.scenario === MockScenario.SessionExpired && key !== 'POST /auth/login' ? nestFail(401, 'Unauthorized') : handler(req),
+  ]),
+);
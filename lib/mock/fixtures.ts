@@ -0,0 +1,565 @@
+import dayjs from 'dayjs';
+import { GenesisClaim, GenesisRarity } from '@/constants';
+import { PREDICTION_TYPE } from '@/components/arcana/PredictionItemDialog';
+import {
+  ArcanaInviteesVote,
+  ArcanaVotes,
+  CollabInfoType,
+  CollabShortInfo,
+  CollabStatus,
+  CollabUserInfo,
+  DeveloperInfoData,
+  DeveloperRankList,
+  DevGameInfo,
+  GamerGamesData,
+  GamerInfoData,
+  GamerRankList,
+  HERO_ATTRIBUTE,
+  PredictionItemData,
+  RecentInvitationItem,
+  RewardRankItem,
+  VoteRankItem,
+} from '@/lib/types';
+import { MockRequest, MockRoutes, MockScenario, apiFail, apiOk, v2Fail, v2Ok } from './reply';
+
+export const MOCK_ADDRESS = '0x1200000000000000000000000000000000000012';
+const MOCK_STEAM_ID = '76561198000000012';
+const MOCK_AVATAR = '/img/p12.png';
+
+const address = (req: MockRequest) =>
+  req.body.wallet_address ?? req.body.walletAddress ?? req.query.addr ?? req.query.wallet_address ?? MOCK_ADDRESS;
+
+const genesisLevel = (scenario: MockScenario) =>
+  scenario === MockScenario.GenesisRekt ? GenesisRarity.Rekt : GenesisRarity.Epic;
+
+const genesisClaim = (scenario: MockScenario) =>
+  scenario === MockScenario.GenesisUnclaimed ? GenesisClaim.Unclaimed : GenesisClaim.Claimed;
+
+const devGame: DevGameInfo = {
+  index: 0,
+  proxy_country: 'US',
+  steam_appid: 1_245_620,
+  header_image: '/img/poster/ss_game.webp',
+  type: 'game',
+  name: 'Mock Ring',
+  is_free: false,
+  review_score: 9,
+  review_score_desc: 'Very Positive',
+  total_positive: 512_000,
+  total_negative: 48_000,
+  total_reviews: 560_000,
+  recommendations: { total: 560_000 },
+  release_date: { coming_soon: false, date: 'Feb 24, 2022' },
+};
+
+const gamerInfo = (req: MockRequest): GamerInfoData => ({
+  wallet_address: address(req),
+  avatar_full: MOCK_AVATAR,
+  person_name: 'mock gamer',
+  steam_id: MOCK_STEAM_ID,
+  time_created: dayjs().subtract(9, 'year').unix(),
+  display: 1,
+  birthday: 9,
+  credential: 1,
+  email: 'gamer@p12.mock',
+  value: 1_234,
+  nft_claim: genesisClaim(req.scenario),
+  nft_level: genesisLevel(req.scenario),
+  nft_id: '1200',
+  level: 42,
+  tokens: 12_000,
+  friends_count: 120,
+  badges_count: 36,
+  csgo_value: 321,
+  dota2_value: 123,
+  tf2_value: 12,
+  inventory_switch: true,
+  ss_games_pl: 300,
+  account_pl: 120,
+  value_pl: 80,
+});
+
+const gamerGames = (req: MockRequest): GamerGamesData => ({
+  wallet_address: address(req),
+  games: [
+    {
+      appid: 570,
+      genres: ['Action', 'Strategy'],
+      img_icon_url: '0bbb630d63262dd66d2fdd0f7d37e8661a410075',
+      name: 'Dota 2',
+      playtime_forever: 120_000,
+      ss_game: 1,
+    },
+    {
+      appid: 730,
+      genres: ['Action'],
+      img_icon_url: '8dbc71957312bbd3baea65848b545be9eae2a355',
+      name: 'Counter-Strike 2',
+      playtime_forever: 60_000,
+      ss_game: 1,
+    },
+    {
+      appid: 1_245_620,
+      genres: ['Action', 'RPG'],
+      img_icon_url: 'b6e290dd5a92ce98f89089a207733c70c769aae6',
+      name: 'Mock Ring',
+      playtime_forever: 9_000,
+      ss_game: 0,
+    },
+  ],
+  ss_game_count: 2,
+  ss_game_playtime: 180_000,
+  total_game_count: 3,
+  total_playtime: 189_000,
+});
+
+const developerInfo: DeveloperInfoData = {
+  account_info: [
+    {
+      name: devGame.name,
+      total_reviews: devGame.total_reviews,
+      header_image: devGame.header_image,
+      release_date: devGame.release_date,
+      nft_claim: GenesisClaim.Claimed,
+      nft_id: '2400',
+      appid: devGame.steam_appid,
+      nft_level: GenesisRarity.Rare,
+      credential: 1,
+      updatedAt: dayjs().subtract(30, 'day').toISOString(),
+    },
+  ],
+};
+
+const developerRankList = (page: number, size: number): DeveloperRankList => ({
+  rankLength: 36,
+  page,
+  size,
+  rankList: new Array(size).fill(null).map((_, i) => ({
+    header_image: devGame.header_image,
+    name: `Mock Game #${(page - 1) * size + i + 1}`,
+    release_date: devGame.release_date.date,
+    developers: ['P12 Mock Studio'],
+    genres: ['Action'],
+    appid: 1_000_000 + (page - 1) * size + i,
+    nft_level: (i % 5) as GenesisRarity,
+    index: (page - 1) * size + i + 1,
+    createdAt: dayjs().subtract(i, 'day').toISOString(),
+  })),
+});
+
+const gamerRankList = (page: number, size: number): GamerRankList => ({
+  rankLength: 36,
+  page,
+  size,
+  rankList: new Array(size).fill(null).map((_, i) => ({
+    wallet_address: `0x12000000000000000000000000000000000000${String((page - 1) * size + i).padStart(2, '0')}`,
+    person_name: `gamer #${(page - 1) * size + i + 1}`,
+    time_created: dayjs()
+      .subtract(12 - (i % 10), 'year')
+      .unix(),
+    steam_id: MOCK_STEAM_ID,
+    ss_game_count: 30 - i,
+    avatar_full: MOCK_AVATAR,
+    ss_game_playtime: 300_000 - i * 1_000,
+    nft_level: (i % 5) as GenesisRarity,
+    createdAt: dayjs().subtract(i, 'day').toISOString(),
+    index: (page - 1) * size + i + 1,
+  })),
+});
+
+const collabTimes = (scenario: MockScenario) => {
+  const closed = scenario === MockScenario.CollabClosed;
+  const base = closed ? dayjs().subtract(60, 'day') : dayjs().subtract(1, 'day');
+  return {
+    timeComingSoon: base.subtract(7, 'day').unix(),
+    timeJoin: base.unix(),
+    timeAllocation: base.add(14, 'day').unix(),
+    timeClaim: base.add(21, 'day').unix(),
+    timeClose: base.add(28, 'day').unix(),
+  };
+};
+
+const collabShort = (scenario: MockScenario): CollabShortInfo => ({
+  collabCode: 'mockcollab',
+  projectName: 'Mock Project',
+  projectInfoBrief: 'A collab served by the offline mock backend.',
+  projectInfo: 'Everything on this page comes from lib/mock fixtures.',
+  projectLogo: '/img/p12.png',
+  projectChain: [{ chainId: 56, name: 'BNB Chain', url: 'https://bscscan.com' }],
+  projectWebsite: 'https://p12.network',
+  ...collabTimes(scenario),
+});
+
+// CollabTimes carries a number index signature, so the literal needs a cast
+const collabItem = (scenario: MockScenario) =>
+  ({
+    ...collabShort(scenario),
+    collabName: 'Mock Collab',
+    collabStatus: 1,
+    ifOnChain: false,
+    projectDiscord: 'https://discord.gg/p12',
+    projectTwitter: 'https://twitter.com/_p12_',
+    tokenAmount: 10_000,
+    tokenName: 'Mock Token',
+    tokenNameAbbre: 'MOCK',
+    nftTotalAmount: 100,
+    nftName: 'Mock NFT',
+    nftImage: '/img/p12.png',
+    taskTweetContent: 'I am joining the mock collab with @_p12_',
+    claimNote: 'Rewards are claimable after the allocation.',
+  } as CollabInfoType);
+
+const collabUser = (req: MockRequest, joined: boolean): CollabUserInfo => ({
+  id: joined ? 1 : null,
+  walletAddress: address(req),
+  collabCode: req.body.collabCode,
+  joinStatus: joined ? CollabStatus.YES : CollabStatus.NO,
+  taskGleamStatus: CollabStatus.NO,
+  taskTweetUrl: req.body.taskTweetUrl ?? '',
+  taskTweetStatus: req.body.taskTweetUrl ? CollabStatus.YES : CollabStatus.NO,
+  projectWhitelist: CollabStatus.NO,
+  resultStatus: req.scenario === MockScenario.CollabClosed ? CollabStatus.YES : CollabStatus.NO,
+  tokenClaim: CollabStatus.NO,
+  nftClaim: CollabStatus.NO,
+  tokenResult: req.scenario === MockScenario.CollabClosed ? 120 : 0,
+  nftResult: 0,
+  p12NftHolder: req.scenario === MockScenario.NewUser ? CollabStatus.NO : CollabStatus.YES,
+});
+
+const arcanaVotes = (req: MockRequest): ArcanaVotes => ({
+  bound: true,
+  userInfo: {
+    avatarFull: MOCK_AVATAR,
+    badgesCount: 36,
+    friendsCount: 120,
+    level: 42,
+    nftLevel: genesisLevel(req.scenario),
+    personName: 'mock gamer',
+    timeCreated: dayjs().subtract(9, 'year').unix(),
+    createdAt: dayjs().subtract(1, 'year').valueOf(),
+    nftId: 1200,
+  },
+  userVotes: {
+    createdAt: dayjs().subtract(30, 'day').valueOf(),
+    updatedAt: dayjs().valueOf(),
+    omgInviteCount: 3,
+    omgInviteVotes: 30,
+    votesBabCurrent: 10,
+    votesBabLast: 10,
+    totalReward: 120,
+    solvedPredictions: 4,
+    votesCommunityNftCurrent: 24,
+    votesCommunityNftLast: 12,
+    votesGenesisNftCurrent: 50,
+    votesGenesisNftLast: 50,
+    votesReferralCurrent: 36,
+    votesReferralLast: 24,
+    votesTotalCurrent: 120,
+    votesTotalLast: 96,
+    walletAddress: address(req),
+    p12CommunityNft: { votesP12DreamWeaver: 12, votesWhiteBadge: 12 },
+  },
+  memeEvaluate: [
+    {
+      memeCode: 'meme1',
+      memeTitle: 'Rampage',
+      memeType: 'image',
+      memeUrl: '/img/arcana/present.webp',
+    },
+    { memeCode: 'meme2', memeTitle: 'GG', memeType: 'image', memeUrl: '/img/arcana/divine.webp' },
+  ],
+});
+
+const teams = [
+  { id: 1, team: 'Team Spirit', img1: '/img/p12.png', img2: '' },
+  { id: 2, team: 'Tundra', img1: '/img/p12.png', img2: '' },
+  { id: 3, team: 'Gaimin Gladiators', img1: '/img/p12.png', img2: '' },
+  { id: 4, team: 'Team Liquid', img1: '/img/p12.png', img2: '' },
+];
+
+const killRanges = [
+  { id: 1, min: 0, max: 40, img1: '', img2: '' },
+  { id: 2, min: 41, max: 60, img1: '', img2: '' },
+  { id: 3, min: 61, max: 80, img1: '', img2: '' },
+  { id: 4, min: 81, max: 999, img1: '', img2: '' },
+];
+
+const heroes = [
+  {
+    id: 11,
+    name: 'Pudge',
+    attr: HERO_ATTRIBUTE.STRENGTH,
+    img1: '/img/p12.png',
+    img2: '',
+  },
+  {
+    id: 12,
+    name: 'Anti-Mage',
+    attr: HERO_ATTRIBUTE.AGILITY,
+    img1: '/img/p12.png',
+    img2: '',
+  },
+  {
+    id: 13,
+    name: 'Invoker',
+    attr: HERO_ATTRIBUTE.INTELLIGENCE,
+    img1: '/img/p12.png',
+    img2: '',
+  },
+];
+
+const prediction = (code: string, data: Partial<PredictionItemData>): PredictionItemData => ({
+  predictionCode: code,
+  releaseDate: dayjs().subtract(7, 'day').valueOf(),
+  endDate: dayjs().add(7, 'day').valueOf(),
+  optionType: PREDICTION_TYPE.TEAM,
+  correctAnswer: [],
+  predictionTitle: code,
+  predictionFull: `Mock prediction ${code}`,
+  sponsorName: 'P12',
+  sponsorLogo: '/img/p12.png',
+  meme: '',
+  currentPrice: 10_000,
+  totalWinnerVotes: 200,
+  votesShare: 0,
+  maxPrice: 20_000,
+  taskRequired: '',
+  taskUrl: '',
+  ifLock: false,
+  optionList: teams,
+  ...data,
+});
+
+const predictions = (): PredictionItemData[] => [
+  prediction('champion', { predictionTitle: 'Champion', predictionFull: 'Which team wins the tournament?' }),
+  prediction('mvp_hero', {
+    predictionTitle: 'Most picked hero',
+    predictionFull: 'Which hero is picked the most?',
+    optionType: PREDICTION_TYPE.HERO,
+    optionList: heroes,
+    answer: [heroes[2]],
+  }),
+  // already settled, the user answered correctly
+  prediction('first_blood', {
+    predictionTitle: 'First blood',
+    predictionFull: 'Which team draws first blood in the final?',
+    releaseDate: dayjs().subtract(30, 'day').valueOf(),
+    endDate: dayjs().subtract(20, 'day').valueOf(),
+    answer: [teams[0]],
+    correctAnswer: [teams[0]],
+    reward: 50,
+    votesShare: 0.25,
+  }),
+  prediction('total_kills', {
+    predictionTitle: 'Total kills',
+    predictionFull: 'How many kills in the first game of the final?',
+    optionType: PREDICTION_TYPE.RANGE,
+    optionList: killRanges,
+  }),
+  prediction('top_three', {
+    predictionTitle: 'Top 3',
+    predictionFull: 'Which teams finish first, second and third?',
+    optionType: PREDICTION_TYPE.RANKED,
+    pickCount: 3,
+  }),
+  // settled, partial credit: one team at its rank and one misplaced
+  prediction('group_top_three', {
+    predictionTitle: 'Group stage top 3',
+    predictionFull: 'Which teams top the group stage?',
+    optionType: PREDICTION_TYPE.RANKED,
+    pickCount: 3,
+    releaseDate: dayjs().subtract(30, 'day').valueOf(),
+    endDate: dayjs().subtract(20, 'day').valueOf(),
+    answer: [teams[0], teams[2], teams[3]],
+    correctAnswer: [teams[0], teams[3], teams[1]],
+  }),
+  // locked behind a task
+  prediction('sponsor_quest', {
+    predictionTitle: 'Sponsor quest',
+    ifLock: true,
+    taskRequired: 'Follow the sponsor on Twitter',
+    taskUrl: 'https://twitter.com/_p12_',
+  }),
+];
+
+const ranking = <T>(build: (i: number) => T, length = 10) => new Array(length).fill(null).map((_, i) => build(i));
+
+const voteRank = (): VoteRankItem[] =>
+  ranking((i) => ({
+    walletAddress: gamerRankList(1, 10).rankList[i].wallet_address!,
+    votesTotalCurrent: 1_000 - i * 50,
+    referralCount: 20 - i,
+    avatarFull: MOCK_AVATAR,
+    personName: `voter #${i + 1}`,
+  }));
+
+const rewardRank = (): RewardRankItem[] =>
+  ranking((i) => ({
+    avatarFull: MOCK_AVATAR,
+    personName: `winner #${i + 1}`,
+    solvedPredictions: 10 - (i % 10),
+    totalReward: 5_000 - i * 300,
+    votesTotalCurrent: 1_000 - i * 50,
+    walletAddress: gamerRankList(1, 10).rankList[i].wallet_address!,
+  }));
+
+const recentInvitation = (): RecentInvitationItem[] =>
+  ranking((i) => ({
+    invitorAddress: MOCK_ADDRESS,
+    invitorName: 'mock gamer',
+    invitorAvatar: MOCK_AVATAR,
+    inviteeAddress: gamerRankList(1, 10).rankList[i].wallet_address!,
+    inviteeName: `invitee #${i + 1}`,
+    inviteeAvatar: MOCK_AVATAR,
+    votes: 12,
+  }));
+
+const inviteesVotes = (): ArcanaInviteesVote[] =>
+  ranking(
+    (i) => ({
+      _id: String(i),
+      createdAt: dayjs().subtract(i, 'day').valueOf(),
+      steamId: MOCK_STEAM_ID,
+      walletAddress: gamerRankList(1, 10).rankList[i].wallet_address!,
+      nftLevel: (i % 6) as GenesisRarity,
+      nftClaim: GenesisClaim.Claimed,
+      personName: `invitee #${i + 1}`,
+      avatar: MOCK_AVATAR,
+      votes: 12,
+    }),
+    3,
+  );
+
+const page = (req: MockRequest) => [Number(req.query.page ?? 1), Number(req.query.size ?? 10)] as const;
+
+const isNewUser = (req: MockRequest) => req.scenario === MockScenario.NewUser;
+
+/**
+ * fixtures for lib/api.ts, keyed by `METHOD path`
+ */
+export const apiRoutes: MockRoutes = {
+  'POST /api/developer/affiliates': () => apiOk({ referral_code: 'MOCK12' }),
+  'GET /api/developer/game': (req) =>
+    String(req.query.appid) === '0'
+      ? apiFail(1, 'Steam app not found')
+      : apiOk({ game_info: { ...devGame, steam_appid: Number(req.query.appid) } }),
+  'POST /api/developer/verify': (req) => apiOk({ account: address(req), failedGames: [] }),
+  'GET /api/developer/info': (req) => (isNewUser(req) ? apiOk({ account_info: [] }) : apiOk(developerInfo)),
+  'GET /api/developer/invitation': () => apiOk({ invitation_info: [] }),
+  'GET /api/developer/token/rank': (req) => apiOk(developerRankList(...page(req))),
+  'GET /api/developer/time/rank': (req) => apiOk(developerRankList(...page(req))),
+  'GET /api/developer/rank': (req) =>
+    apiOk({
+      games: isNewUser(req)
+        ? []
+        : [
+            {
+              appid: devGame.steam_appid,
+              name: devGame.name,
+              header_image: devGame.header_image,
+              release_date: devGame.release_date.date,
+              timeRank: 12,
+              tokenRank: 24,
+            },
+          ],
+    }),
+  'GET /api/developer/verified/count': () => apiOk({ total: 1_200 }),
+  'POST /api/developer/email': () => apiOk(null),
+  'GET /api/gamer/info': (req) => (isNewUser(req) ? apiFail(1, 'Steam account not bound') : apiOk(gamerInfo(req))),
+  'POST /api/gamer/bind': () => apiOk(null),
+  'POST /api/gamer/games': (req) => (isNewUser(req) ? apiFail(1, 'Steam account not bound') : apiOk(gamerGames(req))),
+  'POST /api/gamer/email': () => apiOk(null),
+  'GET /api/gamer/token/rank': (req) => apiOk(gamerRankList(...page(req))),
+  'GET /api/gamer/time/rank': (req) => apiOk(gamerRankList(...page(req))),
+  'GET /api/gamer/rank': (req) =>
+    isNewUser(req)
+      ? apiOk({})
+      : apiOk({
+          avatar_full: MOCK_AVATAR,
+          person_name: 'mock gamer',
+          steam_id: MOCK_STEAM_ID,
+          timeRank: 12,
+          tokenRank: 24,
+          nft_level: genesisLevel(req.scenario),
+        }),
+  'GET /api/gamer/count': () => apiOk({ total: 36_000, verifiedCount: [120, 1_200, 3_600, 12_000, 18_000, 1_080] }),
+  'GET /api/gamer/invitation': (req) =>
+    apiOk({
+      invitation_info: isNewUser(req)
+        ? []
+        : inviteesVotes().map((item) => ({
+            avatar: item.avatar,
+            createdAt: dayjs(item.createdAt).toISOString(),
+            nft_level: item.nftLevel,
+            person_name: item.personName,
+            steam_id: item.steamId,
+            wallet_address: item.walletAddress,
+          })),
+    }),
+  'POST /api/gamer/reload': () => apiOk(null),
+  'GET /api/invitation/count': (req) => apiOk(isNewUser(req) ? [0, 0] : [3, 1]),
+  'POST /api/gamer/emailInfo': (req) =>
+    isNewUser(req)
+      ? apiFail(1, 'Email not bound')
+      : apiOk({ wallet_address: address(req), is_email_verified: true, email: 'gamer@p12.mock' }),
+  'POST /api/gamer/verifyEmailCode': (req) =>
+    req.body.email_verify_code === '000000' ? apiFail(1, 'Invalid verification code') : apiOk(null),
+
+  'GET /v2/collab/list': (req) => v2Ok([collabShort(req.scenario)]),
+  'GET /v2/collab/list/:id': (req) =>
+    req.params.id === 'mockcollab' ? v2Ok(collabItem(req.scenario)) : v2Fail(404, 'Collab not found'),
+  'POST /v2/collab/addr/info': (req) => v2Ok(collabUser(req, !isNewUser(req))),
+  'POST /v2/collab/join': (req) =>
+    req.scenario === MockScenario.CollabClosed ? v2Fail(400, 'Collab is closed') : v2Ok(collabUser(req, true)),
+  'POST /v2/collab/tweet/verify': (req) => v2Ok(collabUser(req, true)),
+
+  'POST /v2/ti/votes': (req) => (isNewUser(req) ? v2Fail(404, 'Not a genesis NFT holder') : v2Ok(arcanaVotes(req))),
+  'POST /v2/ti/meme/evaluate': () => v2Ok(null),
+  'POST /v2/ti/invitees/votes': () => v2Ok(inviteesVotes()),
+  'POST /v2/ti/distinctAddress/count': () => v2Ok(1_200),
+  'POST /v2/ti/predictions': () => v2Ok(predictions()),
+  'POST /v2/ti/predictions/omg': () =>
+    v2Ok([prediction('omg_hero', { optionType: PREDICTION_TYPE.HERO, optionList: heroes, predictionTitle: 'OMG hero' })]),
+  'POST /v2/ti/predictions/answerCount': () =>
+    v2Ok(predictions().map((item, i) => ({ predictionCode: item.predictionCode, totalAnswers: 100 * (i + 1) }))),
+  'POST /v2/ti/unlock': () => v2Ok(true),
+  'POST /v2/ti/answer': () => v2Ok(null),
+  'POST /v2/ti/agent': () => v2Ok(true),
+  'POST /v2/ti/answer/omg': () =>
+    v2Ok({
+      omg_hero: voteRank()
+        .slice(0, 3)
+        .map((item) => ({
+          avatarFull: item.avatarFull,
+          personName: item.personName,
+          predictionCode: 'omg_hero',
+          votesTotalCurrent: item.votesTotalCurrent,
+          walletAddress: item.walletAddress,
+        })),
+    }),
+  'POST /v2/ti/omg2Rank': () =>
+    v2Ok(
+      voteRank().map((item) => ({
+        walletAddress: item.walletAddress,
+        predictionCode: 'omg_hero',
+        personName: item.personName,
+        avatarFull: item.avatarFull,
+        omgInviteVotes: item.referralCount * 10,
+        omgInviteCount: item.referralCount,
+      })),
+    ),
+  'POST /v2/ti/rewardRank': () => v2Ok(rewardRank()),
+  'POST /v2/ti/votesRank': () => v2Ok(voteRank()),
+  'POST /v2/ti/recentInvitation': () => v2Ok(recentInvitation()),
+  'POST /v2/worldCup/userInfo': (req) =>
+    v2Ok({
+      id: 1,
+      collabCode: 'qatar2022',
+      createdAt: dayjs().subtract(1, 'year').valueOf(),
+      updatedAt: dayjs().subtract(1, 'year').valueOf(),
+      walletAddress: address(req),
+      genesisNftHolder: isNewUser(req) ? 0 : 1,
+      genesisNftLevel: isNewUser(req) ? undefined : genesisLevel(req.scenario),
+      deadline: dayjs().subtract(11, 'month').unix(),
+    }),
+};
@@ -0,0 +1,124 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { STORAGE_KEY } from '@/constants';
+import { isBrowser } from '@/utils';
+import { getLocalStorage } from '@/utils/storage';
+import { badgeQuery } from './fixtures-badge';
+import { MockReply, MockRoutes, MockScenario } from './reply';
+
+export { apiRoutes } from './fixtures';
+export { nestRoutes } from './fixtures-nest';
+export { MockScenario } from './reply';
+
+// simulated round trip, so loading states and skeletons still show up
+const MOCK_DELAY = 300;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * the scenario saved by `?mock=<scenario>`, falls back to NEXT_PUBLIC_MOCK_API
+ */
+export function getMockScenario(): MockScenario {
+  const scenarios = Object.values(MockScenario) as string[];
+  const saved = isBrowser ? getLocalStorage<string>(STORAGE_KEY.MOCK_SCENARIO) : undefined;
+  if (saved && scenarios.includes(saved)) return saved as MockScenario;
+  const env = process.env.NEXT_PUBLIC_MOCK_API;
+  if (env && scenarios.includes(env)) return env as MockScenario;
+  return MockScenario.Default;
+}
+
+function matchRoute(routes: MockRoutes, method: string, path: string) {
+  for (const [key, handler] of Object.entries(routes)) {
+    const [routeMethod, routePath] = key.split(' ');
+    if (routeMethod !== method) continue;
+    const names: string[] = [];
+    const pattern = routePath.replace(/:(\w+)/g, (_, name) => {
+      names.push(name);
+      return '([^/]+)';
+    });
+    const match = new RegExp(`^${pattern}$`).exec(path);
+    if (!match) continue;
+    const params = Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+    return { handler, params };
+  }
+  return undefined;
+}
+
+function parseBody(data: unknown) {
+  if (typeof data !== 'string') return (data as Record<string, any>) ?? {};
+  try {
+    return JSON.parse(data);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * axios adapter answering from the fixtures instead of the network
+ * @param config
+ * @param routes - apiRoutes or nestRoutes
+ */
+export async function mockAdapter(config: InternalAxiosRequestConfig, routes: MockRoutes): Promise<AxiosResponse> {
+  const scenario = getMockScenario();
+  await sleep(MOCK_DELAY);
+  if (scenario === MockScenario.Offline) {
+    throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config);
+  }
+  if (scenario === MockScenario.Timeout) {
+    throw new AxiosError(`timeout of ${config.timeout}ms exceeded`, AxiosError.ECONNABORTED, config);
+  }
+
+  const method = (config.method ?? 'get').toUpperCase();
+  const path = new URL(config.url ?? '', 'http://mock').pathname;
+  const route = matchRoute(routes, method, path);
+  let reply: MockReply;
+  if (scenario === MockScenario.ServerError) {
+    reply = { status: 500, body: { code: 500, message: 'Mock server error', msg: 'Mock server error', data: null } };
+  } else if (!route) {
+    console.warn(`[mock] no fixture for ${method} ${path}`);
+    reply = { status: 404, body: { code: 404, message: 'No mock fixture', msg: 'No mock fixture', data: null } };
+  } else {
+    reply = route.handler({
+      method,
+      path,
+      params: route.params,
+      query: config.params ?? {},
+      body: parseBody(config.data),
+      scenario,
+    });
+  }
+
+  const response: AxiosResponse = {
+    data: reply.body,
+    status: reply.status,
+    statusText: String(reply.status),
+    headers: {},
+    config,
+    request: {},
+  };
+  if (config.validateStatus && !config.validateStatus(reply.status)) {
+    const code = reply.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+    throw new AxiosError(`Request failed with status code ${reply.status}`, code, config, null, response);
+  }
+  return response;
+}
+
+/**
+ * `fetch` for the badge-api GraphQLClient answering from the fixtures
+ * @param input
+ * @param init
+ */
+export async function mockBadgeFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const scenario = getMockScenario();
+  await sleep(MOCK_DELAY);
+  if (scenario === MockScenario.Offline || scenario === MockScenario.Timeout) {
+    throw new TypeError('Failed to fetch');
+  }
+  if (scenario === MockScenario.ServerError) {
+    return new Response('Mock server error', { status: 500 });
+  }
+  const { query, variables } = parseBody(init?.body);
+  return new Response(JSON.stringify({ data: badgeQuery(query ?? '', variables ?? {}, scenario) }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
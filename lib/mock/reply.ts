@@ -0,0 +1,80 @@
+import { Response } from '@/lib/types';
+import { Response as NestResponse } from '@/lib/request-nest';
+
+export enum MockScenario {
+  // a Steam gamer holding an epic genesis NFT, badges on both chains and an open collab
+  Default = 'default',
+  // wallet without Steam binding, genesis NFT or badges
+  NewUser = 'new-user',
+  // genesis NFT is eligible but not claimed yet
+  GenesisUnclaimed = 'genesis-unclaimed',
+  GenesisRekt = 'genesis-rekt',
+  // every collab is past its close time
+  CollabClosed = 'collab-closed',
+  // every request answers http 500
+  ServerError = 'server-error',
+  // every request fails without a response
+  Offline = 'offline',
+  Timeout = 'timeout',
+  // nest api rejects the bearer token with http 401
+  SessionExpired = 'session-expired',
+}
+
+export type MockRequest = {
+  method: string;
+  path: string;
+  // `:name` segments of the matched route
+  params: Record<string, string>;
+  query: Record<string, any>;
+  body: Record<string, any>;
+  scenario: MockScenario;
+};
+
+export type MockReply = {
+  status: number;
+  body: unknown;
+};
+
+export type MockRoutes = Record<string, (req: MockRequest) => MockReply>;
+
+/**
+ * `/api/*` success body
+ */
+export const apiOk = <T>(data: T): MockReply => ({
+  status: 200,
+  body: { status: 'success', code: 0, data, msg: '' } as Response<T>,
+});
+
+/**
+ * `/api/*` business failure body
+ */
+export const apiFail = (code: number, msg: string, data: any = null): MockReply => ({
+  status: 200,
+  body: { status: 'fail', code, data, msg } as Response<any>,
+});
+
+/**
+ * `/v2/*` success body
+ */
+export const v2Ok = <T>(data: T): MockReply => ({
+  status: 200,
+  body: { status: 'success', code: 200, data, msg: '' } as Response<T>,
+});
+
+/**
+ * `/v2/*` business failure body
+ */
+export const v2Fail = (code: number, msg: string): MockReply => ({
+  status: 200,
+  body: { status: 'fail', code, data: null, msg } as Response<any>,
+});
+
+export const nestOk = <T>(data: T): MockReply => ({
+  status: 200,
+  body: { code: 200, message: 'success', data } as NestResponse<T>,
+});
+
+export const nestFail = (status: number, message: string): MockReply => ({
+  status,
+  body: { code: status, message, data: null } as NestResponse<null>,
+});
@@ -0,0 +1,58 @@
+import type { IncomingMessage } from 'http';
+import { isAddress } from 'viem';
+import { GAMER_BADGES } from '@/constants';
+import { fetchGamerInfo } from './api';
+import { fetchUserPowerLevel } from './api-nest';
+import { resultData } from './result';
+import { GamerInfoData } from './types';
+
+/**
+ * the public part of a gamer profile, fetched on the server for meta tags and the share image
+ */
+export type PublicProfile = {
+  address: string;
+  // null when the address never bound a Steam account
+  gamerInfo: GamerInfoData | null;
+  powerLevel: number | null;
+};
+
+export const isProfileAddress = (address: unknown): address is string => typeof address === 'string' && isAddress(address);
+
+/**
+ * fetch the profile of an address, never rejects, missing parts are null
+ * @param address
+ */
+export async function fetchPublicProfile(address: string): Promise<PublicProfile> {
+  const [gamerInfo, powerLevel] = await Promise.all([fetchGamerInfo({ addr: address }), fetchUserPowerLevel(address)]);
+  return {
+    address,
+    gamerInfo: resultData(gamerInfo) ?? null,
+    powerLevel: resultData(powerLevel)?.activatedPL ?? null,
+  };
+}
+
+/**
+ * title and description used by the page meta and the share image
+ * @param profile
+ */
+export function getProfileMeta({ address, gamerInfo, powerLevel }: PublicProfile) {
+  const name = gamerInfo?.person_name || `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+  const badge = gamerInfo?.credential && gamerInfo.nft_level !== undefined ? GAMER_BADGES[gamerInfo.nft_level] : undefined;
+  const details = [badge && `${badge.rarity} Genesis NFT`, powerLevel !== null && `${powerLevel} Power Level`].filter(Boolean);
+  return {
+    name,
+    badge,
+    title: `${name} | P12 Gamer Profile`,
+    description: details.length ? `${name} holds ${details.join(' and ')} on P12.` : `${name} on P12 | Project Twelve.`,
+  };
+}
+
+/**
+ * absolute origin for og:image, NEXT_PUBLIC_SITE_URL wins over the request host
+ * @param req
+ */
+export function getRequestOrigin(req: IncomingMessage) {
+  if (process.env.NEXT_PUBLIC_SITE_URL) return process.env.NEXT_PUBLIC_SITE_URL;
+  const proto = (req.headers['x-forwarded-proto'] as string | undefined)?.split(',')[0] ?? 'https';
+  return `${proto}://${req.headers['x-forwarded-host'] ?? req.headers.host}`;
+}
@@ -0,0 +1,88 @@
+import { Query, QueryClient } from '@tanstack/react-query';
+import { createSyncStoragePersister } from '@tanstack/query-sync-storage-persister';
+import { PersistedClient, Persister } from '@tanstack/react-query-persist-client';
+import { STORAGE_KEY } from '@/constants';
+import { isBrowser } from '@/utils';
+
+type PersistPolicy = {
+  // cached data older than this is dropped on restore
+  maxAge: number;
+  // keyed by wallet address, dropped on logout
+  perWallet?: boolean;
+};
+
+const MINUTE = 60_000;
+
+/**
+ * queries kept across reloads, keyed by the first element of the query key
+ */
+export const QUERY_PERSIST_POLICY: Record<string, PersistPolicy> = {
+  gamer_verified_count: { maxAge: 30 * MINUTE },
+  gamer_time_rank: { maxAge: 30 * MINUTE },
+  gamer_token_rank: { maxAge: 30 * MINUTE },
+  dev_verified_count: { maxAge: 30 * MINUTE },
+  dev_time_rank: { maxAge: 30 * MINUTE },
+  dev_token_rank: { maxAge: 30 * MINUTE },
+  collab_short_list: { maxAge: 60 * MINUTE },
+  fetch_badge_nft: { maxAge: 24 * 60 * MINUTE, perWallet: true },
+};
+
+export const QUERY_CACHE_MAX_AGE = Math.max(...Object.values(QUERY_PERSIST_POLICY).map(({ maxAge }) => maxAge));
+
+// bump when the shape of a persisted response changes
+export const QUERY_CACHE_BUSTER = '2';
+
+// queries updated before this were restored from storage
+export const APP_STARTED_AT = Date.now();
+
+const getPolicy = (queryKey: readonly unknown[]) => QUERY_PERSIST_POLICY[queryKey[0] as string];
+
+/**
+ * queries with a policy are written to storage once they fetched data, a failed refetch keeps the last data
+ * @param query
+ */
+export function shouldPersistQuery(query: Query) {
+  return !!getPolicy(query.queryKey) && query.state.dataUpdatedAt > 0;
+}
+
+/**
+ * localStorage persister dropping queries past their own maxAge on restore
+ */
+export function createQueryPersister(): Persister {
+  const persister = createSyncStoragePersister({
+    storage: isBrowser ? window.localStorage : undefined,
+    key: STORAGE_KEY.QUERY_CACHE,
+  });
+
+  return {
+    ...persister,
+    restoreClient: async () => {
+      const client: PersistedClient | undefined = await persister.restoreClient();
+      if (!client) return client;
+      const now = Date.now();
+      const queries = client.clientState.queries.filter(({ queryKey, state }) => {
+        const policy = getPolicy(queryKey);
+        return !!policy && now - state.dataUpdatedAt < policy.maxAge;
+      });
+      return { ...client, clientState: { ...client.clientState, queries } };
+    },
+  };
+}
+
+/**
+ * keep persisted queries in memory as long as they may be restored, the default cacheTime would drop them after 5 minutes
+ * @param queryClient
+ */
+export function applyPersistPolicies(queryClient: QueryClient) {
+  Object.entries(QUERY_PERSIST_POLICY).forEach(([key, { maxAge }]) => {
+    queryClient.setQueryDefaults([key], { cacheTime: maxAge });
+  });
+}
+
+/**
+ * drop per-wallet queries from memory, the persister then rewrites storage without them
+ * @param queryClient
+ */
+export function removeWalletQueries(queryClient: QueryClient) {
+  queryClient.removeQueries({ predicate: (query) => !!getPolicy(query.queryKey)?.perWallet });
+}
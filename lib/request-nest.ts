@@ -1,5 +1,7 @@
 import axios from 'axios';
+import { isBrowser } from '@/utils';
 import { getAccessToken } from '@/utils/authorization';
+import { ApiError, ApiErrorKind, toApiError } from '@/lib/result';
 
 export type Response<T> = {
   code: number;
@@ -7,6 +9,20 @@ export type Response<T> = {
   data: T;
 };
 
+let unauthorizedHandler: ((error: ApiError) => void) | undefined;
+
+/**
+ * register the callback run when the nest api answers 401, the interceptor lives outside React
+ * @param handler
+ * @returns unregister
+ */
+export function onUnauthorized(handler: (error: ApiError) => void) {
+  unauthorizedHandler = handler;
+  return () => {
+    if (unauthorizedHandler === handler) unauthorizedHandler = undefined;
+  };
+}
+
 const instance = axios.create({
   baseURL: process.env.NEXT_PUBLIC_NEST_API_PREFIX,
   timeout: 10_000,
@@ -15,7 +31,8 @@ const instance = axios.create({
 // Add request interceptor
 instance.interceptors.request.use(
   (config) => {
-    const token = getAccessToken();
+    // public endpoints are also requested during SSR, where there is no wallet or cached token
+    const token = isBrowser ? getAccessToken() : undefined;
     config.headers.Authorization = token ? 'Bearer ' + token : '';
     return config;
   },
@@ -26,10 +43,16 @@ instance.interceptors.request.use(
 instance.interceptors.response.use(
   (response) => response.data,
   (error) => {
-    const { response } = error;
-    const { data } = response ?? {};
-    return Promise.reject(data);
+    const apiError = toApiError(error);
+    if (apiError.kind === ApiErrorKind.Http && apiError.status === 401) unauthorizedHandler?.(apiError);
+    return Promise.reject(apiError);
   },
 );
 
+// answer from lib/mock fixtures when NEXT_PUBLIC_MOCK_API is set
+if (process.env.NEXT_PUBLIC_MOCK_API) {
+  instance.defaults.adapter = (config) =>
+    import('./mock').then(({ mockAdapter, nestRoutes }) => mockAdapter(config, nestRoutes));
+}
+
 export default instance;
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { toApiError } from './result';
 
 const instance = axios.create({
   baseURL: process.env.NEXT_PUBLIC_API_PREFIX,
@@ -7,7 +8,12 @@ const instance = axios.create({
 
 instance.interceptors.response.use(
   (response) => response.data,
-  (error) => Promise.reject(error),
+  (error) => Promise.reject(toApiError(error)),
 );
 
+// answer from lib/mock fixtures when NEXT_PUBLIC_MOCK_API is set
+if (process.env.NEXT_PUBLIC_MOCK_API) {
+  instance.defaults.adapter = (config) => import('./mock').then(({ mockAdapter, apiRoutes }) => mockAdapter(config, apiRoutes));
+}
+
 export default instance;
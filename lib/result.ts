@@ -0,0 +1,109 @@
+import axios, { AxiosError } from 'axios';
+
+/**
+ * the body shape shared by `/api/*`, `/v2/*` and nest responses
+ * (`msg` from the legacy api, `message` from nest)
+ */
+export type ResponseBody<T> = {
+  code: number;
+  data: T;
+  msg?: string;
+  message?: string;
+};
+
+export enum ApiErrorKind {
+  // non-2xx http status
+  Http = 'http',
+  // 2xx http status, but the body `code` is not the success code
+  Business = 'business',
+  // no response received
+  Network = 'network',
+  Timeout = 'timeout',
+}
+
+export class ApiError<D = any> extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly code?: number;
+  readonly data?: D;
+
+  constructor(kind: ApiErrorKind, message: string, { status, code, data }: { status?: number; code?: number; data?: D } = {}) {
+    super(message);
+    // keep `instanceof` working when compiled to es5
+    Object.setPrototypeOf(this, ApiError.prototype);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.code = code;
+    this.data = data;
+  }
+}
+
+export type ApiResult<T> = { ok: true; data: T } | { ok: false; error: ApiError };
+
+/**
+ * normalize anything thrown by axios (or an interceptor) into an ApiError
+ * @param error
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (axios.isAxiosError(error)) {
+    if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
+      return new ApiError(ApiErrorKind.Timeout, error.message);
+    }
+    if (!error.response) return new ApiError(ApiErrorKind.Network, error.message);
+    const body = error.response.data as Partial<ResponseBody<unknown>> | undefined;
+    return new ApiError(ApiErrorKind.Http, body?.message ?? body?.msg ?? error.message, {
+      status: error.response.status,
+      code: body?.code,
+      data: body?.data,
+    });
+  }
+  return new ApiError(ApiErrorKind.Network, (error as Error)?.message ?? String(error));
+}
+
+/**
+ * resolve a request into an ApiResult, it never rejects
+ * @param request - axios request resolved with the response body
+ * @param successCode - 0 for `/api/*`, 200 for `/v2/*` and nest
+ */
+export async function toApiResult<T>(request: Promise<ResponseBody<T>>, successCode: number): Promise<ApiResult<T>> {
+  try {
+    const body = await request;
+    if (body?.code === successCode) return { ok: true, data: body.data };
+    return {
+      ok: false,
+      error: new ApiError(ApiErrorKind.Business, body?.msg ?? body?.message ?? '', { code: body?.code, data: body?.data }),
+    };
+  } catch (error) {
+    return { ok: false, error: toApiError(error) };
+  }
+}
+
+/**
+ * the data on success or undefined on failure
+ * @param result
+ */
+export const resultData = <T>(result: ApiResult<T>) => (result.ok ? result.data : undefined);
+
+/**
+ * react-query `queryFn` helper, the data on success or the ApiError thrown on failure,
+ * so a failed query is retried, reports `isError` and keeps its last data
+ * @param request - a request resolved into an ApiResult
+ */
+export async function unwrapResult<T>(request: Promise<ApiResult<T>>): Promise<T> {
+  const result = await request;
+  if (!result.ok) throw result.error;
+  return result.data;
+}
+
+/**
+ * react-query `retry` option, business errors and 4xx answers would fail the same way again
+ * @param failureCount
+ * @param error
+ */
+export function shouldRetryQuery(failureCount: number, error: unknown) {
+  if (failureCount >= 3) return false;
+  if (!(error instanceof ApiError)) return true;
+  return error.kind !== ApiErrorKind.Business && !(error.kind === ApiErrorKind.Http && (error.status ?? 0) < 500);
+}
@@ -420,6 +420,9 @@ export type PredictionOption = {
   img1: string;
   img2: string;
   attr?: HERO_ATTRIBUTE;
+  // bounds of a range bucket, both inclusive
+  min?: number;
+  max?: number;
 };
 
 export type PredictionItemData = {
@@ -427,8 +430,13 @@ export type PredictionItemData = {
   releaseDate: number;
   endDate: number;
   optionType: PREDICTION_TYPE;
+  // ordered by rank for ranked predictions
   answer?: PredictionOption[];
   correctAnswer: PredictionOption[];
+  // options a ranked prediction asks for, 3 when missing
+  pickCount?: number;
+  // 0 to 1 once settled, computed by useArcanaPredictions
+  score?: number;
   predictionTitle: string;
   predictionFull: string;
   sponsorName: string;
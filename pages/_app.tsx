@@ -4,13 +4,22 @@ import { NextPage } from 'next';
 import { useRouter } from 'next/router';
 import Layout from '../components/layout';
 import { STORAGE_KEY } from '@/constants';
+import { initAnalytics } from '@/lib/analytics';
+import {
+  applyPersistPolicies,
+  createQueryPersister,
+  QUERY_CACHE_BUSTER,
+  QUERY_CACHE_MAX_AGE,
+  shouldPersistQuery,
+} from '@/lib/query-cache';
+import { shouldRetryQuery } from '@/lib/result';
 import { setLocalStorage } from '@/utils/storage';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryClient } from '@tanstack/react-query';
+import { PersistQueryClientProvider, PersistQueryClientProviderProps } from '@tanstack/react-query-persist-client';
 import type { AppProps } from 'next/app';
 
 import 'react-toastify/dist/ReactToastify.css';
 import '../styles/globals.css';
-import '../utils/analytics';
 
 type NextPageWithLayout = NextPage & {
   getLayout?: (page: ReactElement) => ReactNode;
@@ -22,16 +31,25 @@ type AppPropsWithLayout = AppProps & {
 
 function App({ Component, pageProps }: AppPropsWithLayout) {
   const router = useRouter();
-  const queryClient = useMemo(
-    () =>
-      new QueryClient({
-        defaultOptions: {
-          queries: {
-            refetchOnWindowFocus: false,
-            retry: (failureCount, error: any) => !(failureCount === 3 || error?.code === 400),
-          },
+  const queryClient = useMemo(() => {
+    const client = new QueryClient({
+      defaultOptions: {
+        queries: {
+          refetchOnWindowFocus: false,
+          retry: shouldRetryQuery,
         },
-      }),
+      },
+    });
+    applyPersistPolicies(client);
+    return client;
+  }, []);
+  const persistOptions = useMemo<PersistQueryClientProviderProps['persistOptions']>(
+    () => ({
+      persister: createQueryPersister(),
+      maxAge: QUERY_CACHE_MAX_AGE,
+      buster: QUERY_CACHE_BUSTER,
+      dehydrateOptions: { shouldDehydrateQuery: shouldPersistQuery },
+    }),
     [],
   );
   const isCollab = useMemo(
@@ -39,11 +57,20 @@ function App({ Component, pageProps }: AppPropsWithLayout) {
     [router],
   );
 
+  useEffect(() => {
+    initAnalytics();
+  }, []);
+
   useEffect(() => {
     const { code } = router.query;
     code && setLocalStorage(STORAGE_KEY.INVITE_CODE, code);
   }, [router.query]);
 
+  useEffect(() => {
+    const { mock } = router.query;
+    process.env.NEXT_PUBLIC_MOCK_API && mock && setLocalStorage(STORAGE_KEY.MOCK_SCENARIO, mock);
+  }, [router.query]);
+
   return (
     <>
       <Head>
@@ -58,15 +85,15 @@ function App({ Component, pageProps }: AppPropsWithLayout) {
           key="keywords"
         />
         <meta property="og:description" content="P12 | Project Twelve | Genesis Airdrop" key="description" />
-        {!isCollab && <meta property="og:image" content="https://cdn1.p12.games/airdrop/twitter_share.jpg" />}
+        {!isCollab && <meta property="og:image" content="https://cdn1.p12.games/airdrop/twitter_share.jpg" key="image" />}
         <meta name="twitter:card" content="summary_large_image" />
         <meta content="light" name="twitter:widgets:theme" />
       </Head>
-      <QueryClientProvider client={queryClient}>
+      <PersistQueryClientProvider client={queryClient} persistOptions={persistOptions}>
         <Layout>
           <Component {...pageProps} />
         </Layout>
-      </QueryClientProvider>
+      </PersistQueryClientProvider>
     </>
   );
 }
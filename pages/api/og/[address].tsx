@@ -0,0 +1,63 @@
+import React from 'react';
+import { ImageResponse, NextRequest } from 'next/server';
+import { fetchPublicProfile, getProfileMeta, isProfileAddress } from '@/lib/profile';
+
+export const config = { runtime: 'edge' };
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+
+/**
+ * share image of a gamer, /api/og/[address]
+ */
+export default async function handler(req: NextRequest) {
+  const { origin, searchParams } = new URL(req.url);
+  const address = searchParams.get('address');
+  if (!isProfileAddress(address)) return new Response('Invalid address', { status: 400 });
+
+  const profile = await fetchPublicProfile(address);
+  const { name, badge } = getProfileMeta(profile);
+  const avatar = profile.gamerInfo?.avatar_full || `${origin}/img/p12.png`;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '72px 96px',
+          color: '#fff',
+          background: 'linear-gradient(135deg, #1D1F2A 0%, #2B2F4A 60%, #43465F 100%)',
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column', maxWidth: 620 }}>
+          <img src={avatar} width={160} height={160} style={{ borderRadius: 24 }} alt="" />
+          <div style={{ marginTop: 40, fontSize: 64, fontWeight: 700, overflow: 'hidden', whiteSpace: 'nowrap' }}>{name}</div>
+          <div style={{ marginTop: 8, fontSize: 28, color: '#9CA3AF' }}>
+            {`${address.substring(0, 6)}...${address.substring(address.length - 4)}`}
+          </div>
+          <div style={{ display: 'flex', alignItems: 'baseline', marginTop: 48 }}>
+            <div style={{ fontSize: 96, fontWeight: 700, color: '#43BBFF' }}>{profile.powerLevel ?? '--'}</div>
+            <div style={{ marginLeft: 16, fontSize: 32, color: '#9CA3AF' }}>Power Level</div>
+          </div>
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+          {badge ? (
+            <img src={badge.img} width={360} height={360} alt="" />
+          ) : (
+            <img src={`${origin}/img/p12.png`} width={240} height={240} alt="" />
+          )}
+          <div style={{ marginTop: 24, fontSize: 32 }}>{badge ? `${badge.rarity} Genesis NFT` : 'P12 | Project Twelve'}</div>
+        </div>
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      headers: { 'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400' },
+    },
+  );
+}
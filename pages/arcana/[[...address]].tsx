@@ -1,5 +1,6 @@
 import React, { useEffect, useRef } from 'react';
 import Head from 'next/head';
+import { GetServerSideProps } from 'next';
 import { useAccount, useNetwork } from 'wagmi';
 import { useRouter } from 'next/router';
 import { useIntersection } from 'react-use';
@@ -20,11 +21,28 @@ import { ARCANA_CHAIN_ID } from '../../constants';
 import { arcanaObserverAtom, arcanaOriginAddressAtom } from '../../store/arcana/state';
 import ArcanaSwitchNetwork from '../../components/arcana/ArcanaSwitchNetwork';
 import SwiperInviteVote from '../../components/arcana/SwiperInviteVote';
+import ProfileHead from '../../components/profile/ProfileHead';
+import { fetchPublicProfile, getRequestOrigin, isProfileAddress, PublicProfile } from '../../lib/profile';
 
 import 'swiper/css';
 import 'swiper/css/autoplay';
 
-export default function Arcana() {
+type ArcanaProps = {
+  // the observed address, null on /arcana
+  profile: PublicProfile | null;
+  origin: string;
+};
+
+export const getServerSideProps: GetServerSideProps<ArcanaProps> = async ({ params, req, res }) => {
+  const address = params?.address?.[0];
+  if (address === undefined) return { props: { profile: null, origin: getRequestOrigin(req) } };
+  if (!isProfileAddress(address)) return { notFound: true };
+  const profile = await fetchPublicProfile(address);
+  res.setHeader('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=600');
+  return { props: { profile, origin: getRequestOrigin(req) } };
+};
+
+export default function Arcana({ profile, origin }: ArcanaProps) {
   const { address } = useAccount();
   const isMounted = useIsMounted();
   const { query } = useRouter();
@@ -59,9 +77,13 @@ export default function Arcana() {
 
   return (
     <>
-      <Head>
-        <meta property="og:image" content="https://cdn1.p12.games/airdrop/poster/arcana_2.jpg" />
-      </Head>
+      {profile ? (
+        <ProfileHead profile={profile} origin={origin} path={`/arcana/${profile.address}`} />
+      ) : (
+        <Head>
+          <meta property="og:image" content="https://cdn1.p12.games/airdrop/poster/arcana_2.jpg" key="image" />
+        </Head>
+      )}
       <div className="pb-[110px] md:pb-0">
         <div className="absolute left-0 top-0 -z-10 flex h-[368px] w-full flex-col items-center justify-end overflow-hidden">
           <img src="/img/mask.webp" alt="mask" className="absolute left-0 top-0 hidden h-[430px] w-full md:block" />
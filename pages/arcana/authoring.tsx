@@ -0,0 +1,20 @@
+import PredictionAuthoring from '@/components/arcana/PredictionAuthoring';
+
+export default function ArcanaAuthoring() {
+  return (
+    <div className="mt-6">
+      <div className="h-9 rounded-lg bg-[#4383FF4D] px-4 text-sm/9 font-medium backdrop-blur-lg">
+        Internal tool: edit a prediction set, preview it and export the JSON for the backend.
+      </div>
+      <div className="backdrop-box my-5 rounded-2xl p-7.5">
+        <PredictionAuthoring />
+      </div>
+    </div>
+  );
+}
+
+// internal page, only built in development or when NEXT_PUBLIC_INTERNAL_TOOLS is set
+export async function getStaticProps() {
+  if (process.env.NODE_ENV === 'production' && !process.env.NEXT_PUBLIC_INTERNAL_TOOLS) return { notFound: true };
+  return { props: {} };
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { GetServerSideProps } from 'next';
+import { useSetRecoilState } from 'recoil';
+import { Address, useAccount } from 'wagmi';
+import Button from '../../components/button';
+import BadgeCollection from '../../components/collection/BadgeCollection';
+import ProfileHead from '../../components/profile/ProfileHead';
+import { useIsMounted } from '../../hooks/useIsMounted';
+import { useTranslation } from '../../hooks/useTranslation';
+import { fetchPublicProfile, getRequestOrigin, isProfileAddress, PublicProfile } from '../../lib/profile';
+import { isConnectPopoverOpen } from '../../store/web3/state';
+
+type BadgesProps = {
+  // the shared address, null on /badges
+  profile: PublicProfile | null;
+  origin: string;
+};
+
+export const getServerSideProps: GetServerSideProps<BadgesProps> = async ({ params, req, res }) => {
+  const address = params?.address?.[0];
+  if (address === undefined) return { props: { profile: null, origin: getRequestOrigin(req) } };
+  if (!isProfileAddress(address)) return { notFound: true };
+  const profile = await fetchPublicProfile(address);
+  res.setHeader('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=600');
+  return { props: { profile, origin: getRequestOrigin(req) } };
+};
+
+export default function Badges({ profile, origin }: BadgesProps) {
+  const { t } = useTranslation();
+  const { address: account } = useAccount();
+  const isMounted = useIsMounted();
+  const setConnectOpen = useSetRecoilState(isConnectPopoverOpen);
+  const address = (profile?.address ?? account) as Address | undefined;
+
+  return (
+    <div className="mt-6">
+      {profile && <ProfileHead profile={profile} origin={origin} path={`/badges/${profile.address}`} />}
+      <div className="backdrop-box my-5 rounded-2xl p-7.5">
+        {isMounted && address ? (
+          <BadgeCollection address={address} shareUrl={`${origin}/badges/${address}`} />
+        ) : (
+          <div className="flex flex-col items-center gap-4 py-12">
+            <p className="text-sm text-gray-400">{t('collection.connect')}</p>
+            <Button type="gradient" onClick={() => setConnectOpen(true)}>
+              {t('collection.connectWallet')}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 import { motion } from 'framer-motion';
-import ReactGA from 'react-ga4';
+import { useRouter } from 'next/router';
 import BridgeSwitch from '../../components/bridge/BridgeSwitch';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 
 export default function Bridge() {
+  const router = useRouter();
+
   return (
     <div className="mt-6">
       <div className="h-9 rounded-lg bg-[#4383FF4D] px-4 text-sm/9 font-medium backdrop-blur-lg">
@@ -11,11 +15,17 @@ export default function Bridge() {
           className="cursor-pointer text-blue"
           onClick={() => {
             window.open('https://project-twelve.notion.site/P12-Power-Level-PL-c69b5d578c2743a394a9110144b869c2', '__blank');
-            ReactGA.event({ action: 'rule_detail', label: '', category: 'bridge' });
+            track(EventName.RuleDetail);
           }}
         >
           Details {'>'}
         </span>
+        <span className="ml-4 cursor-pointer text-blue" onClick={() => router.push('/bridge/security')}>
+          Check approvals {'>'}
+        </span>
+        <span className="ml-4 cursor-pointer text-blue" onClick={() => router.push('/badges')}>
+          My collection {'>'}
+        </span>
       </div>
       <motion.div
         className="my-5"
@@ -0,0 +1,20 @@
+import { useRouter } from 'next/router';
+import ApprovalAudit from '@/components/bridge/ApprovalAudit';
+
+export default function BridgeSecurity() {
+  const router = useRouter();
+
+  return (
+    <div className="mt-6">
+      <div className="h-9 rounded-lg bg-[#4383FF4D] px-4 text-sm/9 font-medium backdrop-blur-lg">
+        Deprecated bridges no longer need access to your badges, revoke the approvals they still hold.{' '}
+        <span className="cursor-pointer text-blue" onClick={() => router.push('/bridge')}>
+          Back to bridge {'>'}
+        </span>
+      </div>
+      <div className="backdrop-box my-5 rounded-2xl p-7.5">
+        <ApprovalAudit />
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { CollabClaimDialog } from '@/components/dialog/CollabClaimDialog';
 import { useCollabIsClaim, useCollabIsFirstClaim, useCollabTimes } from '@/hooks/collab';
 import { fetchCollabItem, fetchCollabList } from '@/lib/api';
 import { CollabInfoType, CollabShortInfo } from '@/lib/types';
+import { resultData } from '@/lib/result';
 import { collabClaimModalAtom } from '@/store/collab/state';
 import classNames from 'classnames';
 import { motion } from 'framer-motion';
@@ -56,7 +57,8 @@ export async function getStaticPaths() {
   if (process.env.NODE_ENV === 'development') {
     return { paths: [], fallback: 'blocking' };
   }
-  const { data } = await fetchCollabList();
+  const result = await fetchCollabList();
+  const data = resultData(result) ?? [];
   return {
     paths: data.slice(0, 4).map((item: CollabShortInfo) => ({ params: { id: item.collabCode } })),
     fallback: 'blocking',
@@ -66,7 +68,7 @@ export async function getStaticPaths() {
 export async function getStaticProps({ params }: { params: { id: string } }) {
   const id = params.id;
   if (!/^[0-9A-Za-z]+$/.test(id)) return { notFound: true };
-  const { data } = await fetchCollabItem(id);
+  const data = resultData(await fetchCollabItem(id));
   if (!data) return { notFound: true };
   return { props: { data }, revalidate: 60 * 6 };
 }
@@ -1,5 +1,4 @@
 import React from 'react';
-import ReactGA from 'react-ga4';
 import { useAccount } from 'wagmi';
 import { useQuery } from '@tanstack/react-query';
 import { openLink } from '../../utils';
@@ -7,20 +6,22 @@ import { GAMER_BADGES } from '../../constants';
 import Reward from '../../components/qatar/Reward';
 import useExternal from '../../hooks/useExternal';
 import { fetchWorldCupUserInfo } from '../../lib/api';
+import { unwrapResult } from '../../lib/result';
 import { useIsMounted } from '../../hooks/useIsMounted';
 import HolderItem from '../../components/qatar/HolderItem';
 import Prediction from '../../components/qatar/Prediction';
+import { EventName } from '@/constants/event';
+import { track } from '@/lib/analytics';
 
 export default function Qatar2022() {
   const { address } = useAccount();
   const isMounted = useIsMounted();
   useExternal('https://widget.gleamjs.io/e.js', { type: 'js', js: { async: true } });
-  const { data } = useQuery(['invitation_count', address], () => fetchWorldCupUserInfo(address), {
+  const { data } = useQuery(['invitation_count', address], () => unwrapResult(fetchWorldCupUserInfo(address)), {
     enabled: !!address,
-    select: (data) => (data.code === 200 ? data.data : undefined),
   });
   const onMoreClick = () => {
-    ReactGA.event({ action: 'qatar', category: 'Click', label: 'more' });
+    track(EventName.Qatar, 'more');
     openLink('https://dappbay.bnbchain.org/campaign/football-fiesta');
   };
 
@@ -2,7 +2,7 @@ import React, { useMemo, useState } from 'react';
 import dayjs from 'dayjs';
 import Image from 'next/image';
 import Pagination from 'rc-pagination';
-import { useRouter } from 'next/router';
+import { GetServerSideProps } from 'next';
 import { useQuery } from '@tanstack/react-query';
 import Empty from '../../components/empty';
 import Poster from '../../components/poster';
@@ -12,32 +12,42 @@ import { GAMER_BADGES, GenesisClaim } from '../../constants';
 import SteamValue from '../../components/gamer/SteamValue';
 import { useGamerBadgeLoad } from '../../hooks/useBadgeLoad';
 import { fetchGamerGames, fetchGamerInfo } from '../../lib/api';
+import { unwrapResult } from '../../lib/result';
+import { fetchPublicProfile, getRequestOrigin, isProfileAddress, PublicProfile } from '../../lib/profile';
+import ProfileHead from '../../components/profile/ProfileHead';
 import PosterCanvas from '../../components/poster/PosterCanvas';
 import GamerGameItem from '../../components/gamer/GamerGameItem';
 import SteamGamesInfo from '../../components/gamer/SteamGamesInfo';
 import SteamProfileInfo from '../../components/gamer/SteamProfileInfo';
 import GamerTokenStatus from '../../components/gamer/GamerTokenStatus';
 
-export default function GamerProfile() {
+type GamerProfileProps = {
+  profile: PublicProfile;
+  origin: string;
+};
+
+export const getServerSideProps: GetServerSideProps<GamerProfileProps> = async ({ params, req, res }) => {
+  const address = params?.address;
+  if (!isProfileAddress(address)) return { notFound: true };
+  const profile = await fetchPublicProfile(address);
+  res.setHeader('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=600');
+  return { props: { profile, origin: getRequestOrigin(req) } };
+};
+
+export default function GamerProfile({ profile, origin }: GamerProfileProps) {
   const pageSize = 6;
-  const router = useRouter();
-  const address = router.query.address as string | undefined;
-  const { data: gamerInfoData, isLoading: isGamerInfoLoading } = useQuery(
+  const { address } = profile;
+  const { data: gamerInfo, isLoading: isGamerInfoLoading } = useQuery(
     ['gamer_info', address],
-    () => fetchGamerInfo({ addr: address }),
+    () => unwrapResult(fetchGamerInfo({ addr: address })),
     {
-      enabled: !!address,
+      // rendered on the server, refetched once on the client
+      initialData: profile.gamerInfo ?? undefined,
     },
   );
-  const { data: gamerGamesData, isLoading: isGamerGamesLoading } = useQuery(
-    ['gamer_games', address],
-    () => fetchGamerGames({ wallet_address: address }),
-    {
-      enabled: !!address,
-    },
+  const { data: gamesData, isLoading: isGamerGamesLoading } = useQuery(['gamer_games', address], () =>
+    unwrapResult(fetchGamerGames({ wallet_address: address })),
   );
-  const gamerInfo = gamerInfoData?.data;
-  const gamesData = gamerGamesData?.data;
   const badge = useGamerBadgeLoad(gamerInfo);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const useCurrentGames = useMemo(() => {
@@ -47,6 +57,7 @@ export default function GamerProfile() {
 
   return (
     <div className="mt-8">
+      <ProfileHead profile={profile} origin={origin} path={`/gamer/${address}`} />
       <div className="my-4" onClick={(event) => event.stopPropagation()}>
         <div className="backdrop-box rounded-2xl p-4 2xl:p-8">
           {isGamerInfoLoading && <Loading size={58} className="my-4 opacity-50" />}
@@ -24,6 +24,7 @@ export const arcanaOriginAddressAtom = atom<string | undefined>({
 
 export type PredictionAnswer = {
   predictionCode: string;
+  // a single option, or the picks in rank order for ranked predictions
   answer?: PredictionOption[];
 };
 
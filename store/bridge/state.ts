@@ -0,0 +1,8 @@
+import { atom } from 'recoil';
+import { BridgeTxRecord } from '@/utils/bridgeTxs';
+
+// transactions sent from the bridge page by the connected wallet, mirrored to localStorage
+export const bridgeTxsAtom = atom<BridgeTxRecord[]>({
+  key: 'bridge_txs',
+  default: [],
+});
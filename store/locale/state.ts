@@ -0,0 +1,7 @@
+import { atom } from 'recoil';
+import { Locale } from '@/i18n';
+
+export const localeAtom = atom<Locale>({
+  key: 'locale_atom',
+  default: Locale.En,
+});
@@ -0,0 +1,139 @@
+import { bsc, polygon } from 'wagmi/chains';
+import { BRIDGE_DESTINATION_CHAIN } from '@/constants/chains';
+import { BridgeBatch, BridgeStep, BridgeStepStatus } from '@/utils/bridgeCart';
+import { BatchApproval, BridgePhase, getBatchKey, getBridgePhase } from '@/utils/bridgeFlow';
+import { BridgeTxKind, BridgeTxRecord, BridgeTxStatus } from '@/utils/bridgeTxs';
+
+const DST = BRIDGE_DESTINATION_CHAIN.id;
+
+const batch = (
+  chainId: number,
+  contractAddress: `0x${string}` = '0x000000000000000000000000000000000000b0b0',
+): BridgeBatch => ({
+  chainId,
+  contractAddress,
+  items: [],
+  tokenIds: [1, 2],
+});
+
+const polygonBatch = batch(polygon.id);
+const bscBatch = batch(bsc.id);
+
+const approvalsOf = (entries: [BridgeBatch, BatchApproval][]) =>
+  Object.fromEntries(entries.map(([item, approval]) => [getBatchKey(item), approval]));
+
+const APPROVED: BatchApproval = { approved: true, oldApproved: false };
+
+const getPhase = (state: Partial<Parameters<typeof getBridgePhase>[0]>) =>
+  getBridgePhase({
+    batches: [polygonBatch],
+    chainId: polygon.id,
+    approvals: approvalsOf([[polygonBatch, APPROVED]]),
+    dstChainId: DST,
+    destinations: [DST],
+    steps: [],
+    txs: [],
+    ...state,
+  });
+
+const bridgeStep = (hash: `0x${string}`, status = BridgeStepStatus.Done): BridgeStep => ({
+  kind: BridgeTxKind.Bridge,
+  batch: polygonBatch,
+  status,
+  hash,
+});
+
+const bridgeTx = (hash: `0x${string}`, status: BridgeTxStatus): BridgeTxRecord => ({
+  hash,
+  kind: BridgeTxKind.Bridge,
+  chainId: polygon.id,
+  timestamp: 0,
+  status,
+});
+
+describe('getBridgePhase', () => {
+  it('selects while the cart is empty or loading', () => {
+    expect(getPhase({ batches: [] })).toEqual({ phase: BridgePhase.Select });
+    expect(getPhase({ approvals: {} })).toEqual({ phase: BridgePhase.Select });
+    expect(getPhase({ destinations: undefined })).toEqual({ phase: BridgePhase.Select });
+  });
+
+  it('rejects a destination not allowed by every source chain', () => {
+    expect(getPhase({ destinations: [] })).toEqual({ phase: BridgePhase.InvalidDestination });
+  });
+
+  it('switches network to the chain of the next action', () => {
+    expect(getPhase({ chainId: bsc.id })).toEqual({
+      phase: BridgePhase.WrongNetwork,
+      action: { kind: 'switch', chainId: polygon.id },
+    });
+    expect(getPhase({ chainId: undefined }).phase).toBe(BridgePhase.WrongNetwork);
+  });
+
+  it('revokes the deprecated bridge before approving', () => {
+    const approvals = approvalsOf([[polygonBatch, { approved: false, oldApproved: true }]]);
+    expect(getPhase({ approvals })).toEqual({
+      phase: BridgePhase.NeedsRevoke,
+      action: { kind: BridgeTxKind.Revoke, batch: polygonBatch },
+    });
+  });
+
+  it('revokes on any chain of the cart before approving', () => {
+    const approvals = approvalsOf([
+      [polygonBatch, { approved: false, oldApproved: false }],
+      [bscBatch, { approved: true, oldApproved: true }],
+    ]);
+    expect(getPhase({ batches: [polygonBatch, bscBatch], approvals })).toEqual({
+      phase: BridgePhase.WrongNetwork,
+      action: { kind: 'switch', chainId: bsc.id },
+    });
+    expect(getPhase({ batches: [polygonBatch, bscBatch], approvals, chainId: bsc.id })).toEqual({
+      phase: BridgePhase.NeedsRevoke,
+      action: { kind: BridgeTxKind.Revoke, batch: bscBatch },
+    });
+  });
+
+  it('approves the bridge', () => {
+    const approvals = approvalsOf([[polygonBatch, { approved: false, oldApproved: false }]]);
+    expect(getPhase({ approvals })).toEqual({
+      phase: BridgePhase.NeedsApproval,
+      action: { kind: BridgeTxKind.Approve, batch: polygonBatch },
+    });
+  });
+
+  it('sends every batch once approved', () => {
+    const approvals = approvalsOf([
+      [polygonBatch, APPROVED],
+      [bscBatch, APPROVED],
+    ]);
+    expect(getPhase({ batches: [polygonBatch, bscBatch], approvals })).toEqual({
+      phase: BridgePhase.Ready,
+      action: { kind: BridgeTxKind.Bridge, batches: [polygonBatch, bscBatch] },
+    });
+  });
+
+  it('is sending while a step runs or a bridge transaction is pending', () => {
+    expect(getPhase({ steps: [bridgeStep('0x01', BridgeStepStatus.Running)] })).toEqual({ phase: BridgePhase.Sending });
+    expect(getPhase({ steps: [bridgeStep('0x01')], txs: [bridgeTx('0x01', BridgeTxStatus.Pending)] })).toEqual({
+      phase: BridgePhase.Sending,
+    });
+  });
+
+  it('is confirmed once every bridge transaction is', () => {
+    const steps = [bridgeStep('0x01'), bridgeStep('0x02')];
+    expect(getPhase({ steps, txs: [bridgeTx('0x01', BridgeTxStatus.Confirmed)] }).phase).toBe(BridgePhase.Sending);
+    expect(
+      getPhase({ steps, txs: [bridgeTx('0x01', BridgeTxStatus.Confirmed), bridgeTx('0x02', BridgeTxStatus.Confirmed)] }),
+    ).toEqual({ phase: BridgePhase.Confirmed });
+  });
+
+  it('fails on a failed step, or a failed or replaced bridge transaction', () => {
+    expect(getPhase({ steps: [bridgeStep('0x01', BridgeStepStatus.Failed)] })).toEqual({ phase: BridgePhase.Failed });
+    expect(getPhase({ steps: [bridgeStep('0x01')], txs: [bridgeTx('0x01', BridgeTxStatus.Failed)] })).toEqual({
+      phase: BridgePhase.Failed,
+    });
+    expect(getPhase({ steps: [bridgeStep('0x01')], txs: [bridgeTx('0x01', BridgeTxStatus.Replaced)] })).toEqual({
+      phase: BridgePhase.Failed,
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { getPublicClient } from '@wagmi/core';
+import { polygon } from 'wagmi/chains';
+import type { BridgeTxs } from '@/lib/badge-api';
+import { HISTORY_LOOKBACK, fetchOnChainBridgeHistory, mergeBridgeHistory } from '@/utils/bridgeHistory';
+import { BridgeTxKind, BridgeTxRecord, BridgeTxStatus } from '@/utils/bridgeTxs';
+
+jest.mock('@wagmi/core', () => ({
+  ...jest.requireActual('@wagmi/core'),
+  getPublicClient: jest.fn(),
+}));
+
+const ACCOUNT = '0x000000000000000000000000000000000000a11c';
+const OTHER = '0x000000000000000000000000000000000000b0b0';
+
+const hash = (n: number) => `0x${n.toString(16).padStart(64, '0')}` as const;
+
+const LANDING_SITE = { cid: 0, name: 'Landing Site', stringId: 'GCj44UtwmA' };
+
+const indexedTx = (n: number, timestamp: number, overrides: Partial<BridgeTxs> = {}): BridgeTxs => ({
+  hash: hash(n),
+  chainId: String(polygon.id),
+  dstChainId: 20736,
+  timestamp,
+  galxeBadges: [{ tokenId: n, image: 'badge.png', galxeCampaign: LANDING_SITE }],
+  ...overrides,
+});
+
+const localTx = (n: number, timestamp: number, overrides: Partial<BridgeTxRecord> = {}): BridgeTxRecord => ({
+  hash: hash(n),
+  kind: BridgeTxKind.Bridge,
+  chainId: polygon.id,
+  timestamp,
+  status: BridgeTxStatus.Confirmed,
+  ...overrides,
+});
+
+describe('mergeBridgeHistory', () => {
+  it('lists badge-api, on-chain and local transactions once each, newest first', () => {
+    const rows = mergeBridgeHistory(
+      [indexedTx(1, 100)],
+      [indexedTx(1, 90, { galxeBadges: [] }), indexedTx(2, 300, { galxeBadges: [] })],
+      [localTx(2, 310), localTx(3, 200, { status: BridgeTxStatus.Pending })],
+    );
+    expect(rows.map((row) => [row.hash, row.status, row.indexed])).toEqual([
+      [hash(2), BridgeTxStatus.Confirmed, false],
+      [hash(3), BridgeTxStatus.Pending, false],
+      [hash(1), BridgeTxStatus.Confirmed, true],
+    ]);
+    // badge-api wins for the same hash
+    expect(rows[2].timestamp).toBe(100);
+  });
+
+  it('takes the time and badges of an on-chain transaction from the local record', () => {
+    const galxeBadges = [{ tokenId: 2, image: 'badge.png', galxeCampaign: LANDING_SITE }];
+    const [row] = mergeBridgeHistory([], [indexedTx(2, 300, { galxeBadges: [] })], [localTx(2, 310, { galxeBadges })]);
+    expect(row).toMatchObject({ timestamp: 310, galxeBadges });
+  });
+
+  it('fills in the destination badge-api left empty from the local record', () => {
+    const [row] = mergeBridgeHistory([indexedTx(1, 100, { dstChainId: null })], [], [localTx(1, 100, { dstChainId: 137 })]);
+    expect(row.dstChainId).toBe(137);
+  });
+
+  it('leaves out local transactions that are not bridges', () => {
+    expect(mergeBridgeHistory([], [], [localTx(4, 100, { kind: BridgeTxKind.Approve })])).toEqual([]);
+  });
+});
+
+describe('fetchOnChainBridgeHistory', () => {
+  // SendNFT events of the polygon bridge, the other source chains fail
+  const mockChain = ({
+    head,
+    events,
+  }: {
+    head: bigint;
+    events: { from: string; tokenId: number; blockNumber: bigint; n: number }[];
+  }) => {
+    const client = {
+      getBlockNumber: jest.fn(async () => head),
+      getContractEvents: jest.fn(async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+        events
+          .filter(({ blockNumber }) => blockNumber >= fromBlock && blockNumber <= toBlock)
+          .map(({ from, tokenId, blockNumber, n }) => ({
+            args: { from, tokenId: BigInt(tokenId), dstChainId: BigInt(20736) },
+            blockNumber,
+            transactionHash: hash(n),
+          })),
+      ),
+      // two seconds a block, block 0 at 1,000,000
+      getBlock: jest.fn(async ({ blockNumber }: { blockNumber: bigint }) => ({
+        timestamp: BigInt(1_000_000) + blockNumber * BigInt(2),
+      })),
+    };
+    jest.mocked(getPublicClient).mockImplementation((({ chainId }: { chainId: number }) => {
+      if (chainId !== polygon.id) throw new Error('rpc unavailable');
+      return client;
+    }) as unknown as typeof getPublicClient);
+    return client;
+  };
+
+  it('interpolates the time of each transaction from the ends of the scanned range', async () => {
+    const head = HISTORY_LOOKBACK + BigInt(1000);
+    mockChain({
+      head,
+      events: [
+        { from: ACCOUNT, tokenId: 1, blockNumber: BigInt(1500), n: 1 },
+        { from: ACCOUNT, tokenId: 2, blockNumber: BigInt(1500), n: 1 },
+        { from: OTHER, tokenId: 3, blockNumber: BigInt(1600), n: 2 },
+        { from: ACCOUNT, tokenId: 4, blockNumber: head, n: 3 },
+      ],
+    });
+
+    const { txs } = await fetchOnChainBridgeHistory(ACCOUNT);
+
+    expect(txs).toEqual([
+      expect.objectContaining({
+        hash: hash(1),
+        chainId: String(polygon.id),
+        dstChainId: 20736,
+        timestamp: 1_000_000 + 1500 * 2,
+        galxeBadges: [expect.objectContaining({ tokenId: 1 }), expect.objectContaining({ tokenId: 2 })],
+      }),
+      expect.objectContaining({ hash: hash(3), timestamp: 1_000_000 + Number(head) * 2 }),
+    ]);
+  });
+
+  it('reports when the scan stopped short of the deployment block', async () => {
+    const head = HISTORY_LOOKBACK + BigInt(1000);
+    const client = mockChain({ head, events: [] });
+
+    expect(await fetchOnChainBridgeHistory(ACCOUNT)).toEqual({ txs: [], since: 1_000_000 + 1000 * 2 });
+    expect(client.getContractEvents).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: BigInt(1000) }));
+  });
+
+  it('scans from the deployment block when it is recent enough', async () => {
+    const client = mockChain({ head: BigInt(3000), events: [] });
+
+    expect(await fetchOnChainBridgeHistory(ACCOUNT)).toEqual({ txs: [], since: undefined });
+    expect(client.getBlock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { bsc, polygon } from 'wagmi/chains';
+import { GalxeBadge, GalxeCampaign, getActiveBadges } from '@/constants';
+import { groupBadgeInventory } from '@/utils/bridgeInventory';
+
+const campaign = (stringId: string, campaignType: GalxeCampaign['campaignType'] = 'Community'): GalxeCampaign => ({
+  cid: 0,
+  stringId,
+  name: stringId,
+  rarity: 'White',
+  campaignType,
+});
+
+const badge = (chainId: number, galxeCampaign: GalxeCampaign, tokenId: number): GalxeBadge => ({
+  chainId,
+  image: '',
+  galxeCampaign,
+  contractAddress: '0x000000000000000000000000000000000000b0b0',
+  tokenId,
+});
+
+const LANDING_SITE = campaign('GCj44UtwmA');
+const NEBULA = campaign('GCDqcUUudB');
+const PASSPORT = campaign('GC9ErUtrZN', 'AMA');
+
+describe('groupBadgeInventory', () => {
+  it('groups the badges of a campaign on a chain into one with its count and tokenIds', () => {
+    const { community } = groupBadgeInventory([
+      badge(polygon.id, LANDING_SITE, 1),
+      badge(polygon.id, NEBULA, 2),
+      badge(polygon.id, LANDING_SITE, 3),
+    ]);
+    expect(community).toHaveLength(1);
+    expect(community[0]).toEqual([
+      expect.objectContaining({ galxeCampaign: LANDING_SITE, tokenId: 1, count: 2, tokenIds: [1, 3] }),
+      expect.objectContaining({ galxeCampaign: NEBULA, tokenId: 2, count: 1, tokenIds: [2] }),
+    ]);
+  });
+
+  it('keeps one group per chain, community chains by chain id descending', () => {
+    const { community } = groupBadgeInventory([badge(bsc.id, LANDING_SITE, 1), badge(polygon.id, LANDING_SITE, 2)]);
+    expect(community.map((group) => group[0].chainId)).toEqual([polygon.id, bsc.id]);
+    expect(community.map((group) => group[0].tokenIds)).toEqual([[2], [1]]);
+  });
+
+  it('separates AMA OATs from community badges', () => {
+    const { community, ama } = groupBadgeInventory([badge(bsc.id, PASSPORT, 1), badge(bsc.id, PASSPORT, 2)]);
+    expect(community).toEqual([]);
+    expect(ama).toEqual([[expect.objectContaining({ galxeCampaign: PASSPORT, count: 2, tokenIds: [1, 2] })]]);
+  });
+
+  it('lists the listed community campaigns not held on any chain as missing', () => {
+    const { missing } = groupBadgeInventory([badge(bsc.id, LANDING_SITE, 1), badge(bsc.id, PASSPORT, 2)]);
+    const active = getActiveBadges('Community');
+    expect(missing.map((item) => item.stringId)).toEqual(
+      active.map((item) => item.stringId).filter((stringId) => stringId !== LANDING_SITE.stringId),
+    );
+    expect(groupBadgeInventory([]).missing).toEqual(active);
+  });
+});
@@ -0,0 +1,25 @@
+import { getWinnerScenarios, projectPayout } from '@/utils/multicastReward';
+
+describe('getWinnerScenarios', () => {
+  it('scales the current winner votes', () => {
+    expect(getWinnerScenarios(100, 10).map((scenario) => scenario.otherVotes)).toEqual([50, 100, 200, 400]);
+  });
+
+  it('scales the wallet votes while there are no other winner votes', () => {
+    const scenarios = getWinnerScenarios(0, 10);
+    expect(scenarios.map((scenario) => scenario.otherVotes)).toEqual([0, 10, 20, 40]);
+    expect(new Set(scenarios.map((scenario) => scenario.label)).size).toBe(scenarios.length);
+  });
+
+  it('has no scenario without votes', () => {
+    expect(getWinnerScenarios(0, 0)).toEqual([]);
+  });
+});
+
+describe('projectPayout', () => {
+  it('pays the winners in proportion to their votes', () => {
+    expect(projectPayout(1000, 10, 30)).toBe(250);
+    expect(projectPayout(1000, 10, 0)).toBe(1000);
+    expect(projectPayout(1000, 0, 30)).toBe(0);
+  });
+});
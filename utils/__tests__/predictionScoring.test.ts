@@ -0,0 +1,67 @@
+import { PREDICTION_TYPE } from '@/components/arcana/PredictionItemDialog';
+import { PredictionOption } from '@/lib/types';
+import { RANGE_ADJACENT_CREDIT, RANKED_MISPLACED_CREDIT, getPredictionScore } from '@/utils/predictionScoring';
+
+const option = (id: number, bounds: Pick<PredictionOption, 'min' | 'max'> = {}): PredictionOption => ({
+  id,
+  img1: '',
+  img2: '',
+  ...bounds,
+});
+
+const [A, B, C, D] = [option(1), option(2), option(3), option(4)];
+const BUCKETS = [
+  option(1, { max: 20 }),
+  option(2, { min: 21, max: 30 }),
+  option(3, { min: 31, max: 40 }),
+  option(4, { min: 41 }),
+];
+
+const score = (optionType: PREDICTION_TYPE, answer: PredictionOption[] | undefined, correctAnswer: PredictionOption[]) =>
+  getPredictionScore({
+    optionType,
+    optionList: optionType === PREDICTION_TYPE.RANGE ? BUCKETS : [A, B, C, D],
+    answer,
+    correctAnswer,
+  });
+
+describe('getPredictionScore', () => {
+  it('is undefined until the prediction is settled', () => {
+    expect(score(PREDICTION_TYPE.TEAM, [A], [])).toBeUndefined();
+    expect(score(PREDICTION_TYPE.RANKED, [A, B, C], [])).toBeUndefined();
+  });
+
+  it('is 0 without an answer', () => {
+    expect(score(PREDICTION_TYPE.TEAM, undefined, [A])).toBe(0);
+    expect(score(PREDICTION_TYPE.RANKED, [], [A, B, C])).toBe(0);
+    expect(score(PREDICTION_TYPE.RANGE, [], [BUCKETS[1]])).toBe(0);
+  });
+
+  it('scores single choices as a hit or a miss', () => {
+    expect(score(PREDICTION_TYPE.TEAM, [A], [A])).toBe(1);
+    expect(score(PREDICTION_TYPE.HERO, [B], [A])).toBe(0);
+  });
+
+  it('gives ranked picks their share, misplaced ones partially', () => {
+    expect(score(PREDICTION_TYPE.RANKED, [A, B, C], [A, B, C])).toBe(1);
+    expect(score(PREDICTION_TYPE.RANKED, [A, C, B], [A, B, C])).toBeCloseTo((1 + 2 * RANKED_MISPLACED_CREDIT) / 3);
+    expect(score(PREDICTION_TYPE.RANKED, [D, A, B], [A, B, C])).toBeCloseTo((2 * RANKED_MISPLACED_CREDIT) / 3);
+    expect(score(PREDICTION_TYPE.RANKED, [D, D, D], [A, B, C])).toBe(0);
+  });
+
+  it('leaves the ranks a short answer misses without credit', () => {
+    expect(score(PREDICTION_TYPE.RANKED, [A], [A, B, C])).toBeCloseTo(1 / 3);
+    expect(score(PREDICTION_TYPE.RANKED, [B, A], [A, B, C])).toBeCloseTo((2 * RANKED_MISPLACED_CREDIT) / 3);
+  });
+
+  it('gives the range bucket next to the correct one partial credit', () => {
+    expect(score(PREDICTION_TYPE.RANGE, [BUCKETS[1]], [BUCKETS[1]])).toBe(1);
+    expect(score(PREDICTION_TYPE.RANGE, [BUCKETS[0]], [BUCKETS[1]])).toBe(RANGE_ADJACENT_CREDIT);
+    expect(score(PREDICTION_TYPE.RANGE, [BUCKETS[2]], [BUCKETS[1]])).toBe(RANGE_ADJACENT_CREDIT);
+    expect(score(PREDICTION_TYPE.RANGE, [BUCKETS[3]], [BUCKETS[1]])).toBe(0);
+  });
+
+  it('scores a range bucket missing from the options as a miss', () => {
+    expect(score(PREDICTION_TYPE.RANGE, [option(9, { min: 50 })], [BUCKETS[1]])).toBe(0);
+  });
+});
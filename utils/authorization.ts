@@ -3,39 +3,77 @@ import { Address } from 'wagmi';
 import { STORAGE_KEY } from '@/constants';
 import { getLocalStorage, setLocalStorage } from '@/utils/storage';
 
+// same lifetime as the SIWE message `expirationTime`
+export const ACCESS_TOKEN_TTL = 864e5 * 7;
+
 export type Authorization = {
   address: string;
   accessToken: string;
+  // ms timestamps, missing on tokens cached before expiry was tracked
+  issuedAt?: number;
+  expiresAt?: number;
+  // shown in the account switcher
+  profile?: SessionProfile;
+};
+
+export type SessionProfile = {
+  showName?: string | null;
+  avatar?: string | null;
+  activatedPL?: number;
 };
 
 /**
- * 获取 accessToken
+ * 是否已过期, 没有过期时间的旧缓存交给服务端 401 判断
+ * @param authorization
+ */
+export function isAuthorizationExpired(authorization?: Authorization) {
+  return !!authorization?.expiresAt && authorization.expiresAt <= Date.now();
+}
+
+/**
+ * 获取所有缓存的账户
+ */
+export function getAuthorizations() {
+  return getLocalStorage<Authorization[]>(STORAGE_KEY.ACCESS_TOKENS) ?? [];
+}
+
+/**
+ * 获取 accessToken 缓存 (包含过期时间)
  */
-export function getAccessToken({ address: passedAddress }: { address?: Address } = {}) {
+export function getAuthorization({ address: passedAddress }: { address?: Address } = {}) {
   const { address } = getAccount();
   const accessTokens = getLocalStorage<Authorization[]>(STORAGE_KEY.ACCESS_TOKENS);
-  const item = accessTokens?.find((i) => i.address === (passedAddress ?? address));
-  return item?.accessToken;
+  return accessTokens?.find((i) => i.address === (passedAddress ?? address));
+}
+
+/**
+ * 获取 accessToken, 已过期返回 undefined
+ */
+export function getAccessToken({ address }: { address?: Address } = {}) {
+  const item = getAuthorization({ address });
+  return isAuthorizationExpired(item) ? undefined : item?.accessToken;
 }
 
 /**
  * 设置 accessToken 缓存, 最多10个账户
  * @param accessToken
+ * @param expiresAt - defaults to ACCESS_TOKEN_TTL from now
  */
-export function setAccessToken(accessToken: string) {
+export function setAccessToken(accessToken: string, expiresAt?: number) {
   const { address } = getAccount();
   const accessTokens = getLocalStorage<Authorization[]>(STORAGE_KEY.ACCESS_TOKENS);
   if (!address) return;
-  const data: Authorization = { address, accessToken };
+  const issuedAt = Date.now();
+  const data: Authorization = { address, accessToken, issuedAt, expiresAt: expiresAt ?? issuedAt + ACCESS_TOKEN_TTL };
   if (!accessTokens?.length) {
     setLocalStorage(STORAGE_KEY.ACCESS_TOKENS, [data]);
     return;
   }
   const index = accessTokens.findIndex((item) => item.address === address);
   if (index !== -1) {
-    accessTokens[index].accessToken = accessToken;
+    accessTokens[index] = { ...accessTokens[index], ...data };
   } else {
-    accessTokens.push({ address, accessToken });
+    accessTokens.push(data);
     if (accessTokens.length > 10) {
       accessTokens.shift();
     }
@@ -44,10 +82,23 @@ export function setAccessToken(accessToken: string) {
 }
 
 /**
- * 移除 accessToken
+ * 更新账户的展示信息
+ * @param address
+ * @param profile
  */
-export function removeAccessToken() {
-  const { address } = getAccount();
+export function setSessionProfile(address: string, profile: SessionProfile) {
+  const accessTokens = getAuthorizations();
+  const item = accessTokens.find((i) => i.address === address);
+  if (!item) return;
+  item.profile = { ...item.profile, ...profile };
+  setLocalStorage(STORAGE_KEY.ACCESS_TOKENS, accessTokens);
+}
+
+/**
+ * 移除 accessToken, 默认当前账户
+ */
+export function removeAccessToken({ address: passedAddress }: { address?: string } = {}) {
+  const address = passedAddress ?? getAccount().address;
   const accessTokens = getLocalStorage<Authorization[]>(STORAGE_KEY.ACCESS_TOKENS);
   if (!address) return;
   const list = accessTokens?.filter((item) => item.address !== address);
@@ -0,0 +1,86 @@
+import { BADGE_CATALOG, CatalogBadge, GalxeBadge, getActiveBadges, getBadgeRarity } from '@/constants';
+import type { BridgeHistoryRow } from './bridgeHistory';
+import { BridgeTxStatus } from './bridgeTxs';
+
+export type CollectionEntry = {
+  badge: CatalogBadge;
+  // held tokens by chain id
+  owned: Record<number, number>;
+  ownedCount: number;
+  // tokens already bridged to P12 Chain
+  bridgedCount: number;
+  // counted in the completion, false for retired and uncatalogued campaigns
+  listed: boolean;
+};
+
+export type BadgeCollection = {
+  community: CollectionEntry[];
+  ama: CollectionEntry[];
+  // listed campaigns held or bridged at least once
+  collected: number;
+  total: number;
+};
+
+// campaigns badge-api returns that the catalog does not know yet
+const fromGalxeBadge = (badge: GalxeBadge): CatalogBadge => ({
+  stringId: badge.galxeCampaign?.stringId ?? '',
+  type: badge.galxeCampaign?.campaignType ?? 'Community',
+  rarity: (getBadgeRarity(badge.galxeCampaign) ?? 'Common') as CatalogBadge['rarity'],
+  chains: [badge.chainId],
+  name: badge.galxeCampaign?.name ?? 'unknown',
+  image: badge.image,
+});
+
+/**
+ * every catalog campaign with what an address holds and has bridged of it, retired and uncatalogued campaigns
+ * only appear when held or bridged
+ * @param owned - badges from badge-api, one per token
+ * @param history - bridge history of the address, only confirmed transactions count
+ */
+export function buildBadgeCollection(owned: GalxeBadge[], history: BridgeHistoryRow[]): BadgeCollection {
+  const listedIds = new Set(
+    getActiveBadges('Community')
+      .concat(getActiveBadges('AMA'))
+      .map((badge) => badge.stringId),
+  );
+  const entries = new Map<string, CollectionEntry>(
+    BADGE_CATALOG.map((badge) => [
+      badge.stringId,
+      { badge, owned: {}, ownedCount: 0, bridgedCount: 0, listed: listedIds.has(badge.stringId) },
+    ]),
+  );
+
+  for (const badge of owned) {
+    const stringId = badge.galxeCampaign?.stringId;
+    if (!stringId) continue;
+    const entry = entries.get(stringId) ?? {
+      badge: fromGalxeBadge(badge),
+      owned: {},
+      ownedCount: 0,
+      bridgedCount: 0,
+      listed: false,
+    };
+    entries.set(stringId, entry);
+    entry.owned[badge.chainId] = (entry.owned[badge.chainId] ?? 0) + 1;
+    entry.ownedCount += 1;
+  }
+  for (const row of history) {
+    if (row.status !== BridgeTxStatus.Confirmed) continue;
+    for (const { galxeCampaign } of row.galxeBadges) {
+      // history badges carry no campaign type, uncatalogued campaigns only count once one of them is held
+      const entry = galxeCampaign && entries.get(galxeCampaign.stringId);
+      entry && (entry.bridgedCount += 1);
+    }
+  }
+
+  const visible = Array.from(entries.values()).filter(
+    (entry) => entry.listed || entry.ownedCount > 0 || entry.bridgedCount > 0,
+  );
+  const listed = visible.filter((entry) => entry.listed);
+  return {
+    community: visible.filter((entry) => entry.badge.type === 'Community'),
+    ama: visible.filter((entry) => entry.badge.type === 'AMA'),
+    collected: listed.filter((entry) => entry.ownedCount > 0 || entry.bridgedCount > 0).length,
+    total: listed.length,
+  };
+}
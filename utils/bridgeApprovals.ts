@@ -0,0 +1,79 @@
+import { multicall } from '@wagmi/core';
+import { Address } from 'wagmi';
+import { uniq } from 'lodash-es';
+import { badgeABI } from '@/abis';
+import { GalxeBadge } from '@/constants';
+import { BRIDGE_SOURCE_CHAINS, CHAIN_LIST } from '@/constants/chains';
+
+/**
+ * a badge contract of a source chain and the campaigns held on it
+ */
+export type BadgeContract = {
+  chainId: number;
+  contractAddress: Address;
+  campaigns: string[];
+  tokenCount: number;
+};
+
+/**
+ * an approval for all badges of a contract that a deprecated bridge still holds
+ */
+export type OldBridgeApproval = BadgeContract & {
+  operator: Address;
+};
+
+// every deprecated bridge is checked on every chain, the addresses are not guaranteed to differ per chain
+const OLD_BRIDGES = uniq(CHAIN_LIST.map((item) => item.oldBridge).filter((item): item is Address => !!item));
+
+export const getApprovalKey = (approval: OldBridgeApproval) =>
+  `${approval.chainId}_${approval.contractAddress.toLowerCase()}_${approval.operator.toLowerCase()}`;
+
+/**
+ * badge contracts the badges were minted from, on chains the bridge reads from
+ * @param badges - badges from badge-api, one per token
+ */
+export function getHeldBadgeContracts(badges: GalxeBadge[]): BadgeContract[] {
+  const contracts = new Map<string, BadgeContract>();
+  for (const badge of badges) {
+    if (!BRIDGE_SOURCE_CHAINS.some((chain) => chain.id === badge.chainId)) continue;
+    const key = `${badge.chainId}_${badge.contractAddress.toLowerCase()}`;
+    const contract = contracts.get(key) ?? {
+      chainId: badge.chainId,
+      contractAddress: badge.contractAddress,
+      campaigns: [],
+      tokenCount: 0,
+    };
+    const campaign = badge.galxeCampaign?.name;
+    campaign && !contract.campaigns.includes(campaign) && contract.campaigns.push(campaign);
+    contract.tokenCount += 1;
+    contracts.set(key, contract);
+  }
+  return Array.from(contracts.values()).sort((a, b) => a.chainId - b.chainId);
+}
+
+/**
+ * isApprovedForAll of every contract against every deprecated bridge, one multicall per chain
+ * @param owner
+ * @param contracts
+ */
+export async function fetchOldBridgeApprovals(owner: Address, contracts: BadgeContract[]): Promise<OldBridgeApproval[]> {
+  const pairs = contracts.flatMap((contract) => OLD_BRIDGES.map((operator) => ({ ...contract, operator })));
+  const chainIds = uniq(pairs.map((pair) => pair.chainId));
+  const results = await Promise.all(
+    chainIds.map(async (chainId) => {
+      const chainPairs = pairs.filter((pair) => pair.chainId === chainId);
+      const approvals = await multicall({
+        chainId,
+        allowFailure: true,
+        contracts: chainPairs.map(({ contractAddress, operator }) => ({
+          address: contractAddress,
+          abi: badgeABI,
+          functionName: 'isApprovedForAll' as const,
+          args: [owner, operator] as const,
+        })),
+      });
+      return chainPairs.filter((_, i) => approvals[i].status === 'success' && approvals[i].result);
+    }),
+  );
+  return results.flat();
+}
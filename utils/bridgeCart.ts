@@ -0,0 +1,80 @@
+import { Address } from 'wagmi';
+import { groupBy } from 'lodash-es';
+import type { GalxeBadge } from '@/constants';
+import type { BridgeTxs } from '@/lib/badge-api';
+import { BridgeTxKind } from './bridgeTxs';
+
+export type BridgeCartItem = {
+  // grouped badge of one campaign on one chain, with its tokenIds
+  badge: GalxeBadge;
+  // tokens picked for bridging, all of them by default
+  tokenIds: number[];
+};
+
+/**
+ * badges sent by one sendBatchNFT call
+ */
+export type BridgeBatch = {
+  chainId: number;
+  contractAddress: Address;
+  items: BridgeCartItem[];
+  tokenIds: number[];
+};
+
+export enum BridgeStepStatus {
+  Waiting = 'waiting',
+  Running = 'running',
+  Done = 'done',
+  Failed = 'failed',
+}
+
+export type BridgeStep = {
+  kind: BridgeTxKind;
+  batch: BridgeBatch;
+  status: BridgeStepStatus;
+  hash?: `0x${string}`;
+};
+
+/**
+ * cart key of a grouped badge, one campaign on one chain
+ * @param badge
+ */
+export const getCartItemKey = (badge: GalxeBadge) =>
+  `${badge.chainId}_${badge.contractAddress.toLowerCase()}_${badge.galxeCampaign?.stringId}`;
+
+/**
+ * group the cart by chain and NFT contract, every group is bridged by a single sendBatchNFT,
+ * groups of the same chain stay next to each other so the wallet switches network once per chain
+ * @param items
+ */
+export function groupBridgeCart(items: BridgeCartItem[]): BridgeBatch[] {
+  const groups = groupBy(
+    items.filter((item) => item.tokenIds.length > 0),
+    (item) => `${item.badge.chainId}_${item.badge.contractAddress.toLowerCase()}`,
+  );
+  return Object.values(groups)
+    .map((groupItems) => ({
+      chainId: groupItems[0].badge.chainId,
+      contractAddress: groupItems[0].badge.contractAddress,
+      items: groupItems,
+      tokenIds: groupItems.flatMap((item) => item.tokenIds),
+    }))
+    .sort((a, b) => a.chainId - b.chainId);
+}
+
+/**
+ * badges of a batch in the shape of the badge-api history
+ * @param batch
+ */
+export function getBatchHistoryBadges(batch: BridgeBatch): BridgeTxs['galxeBadges'] {
+  return batch.items.flatMap(({ badge, tokenIds }) => {
+    const { image, galxeCampaign } = badge;
+    return tokenIds.map((tokenId) => ({
+      tokenId,
+      image,
+      galxeCampaign: galxeCampaign
+        ? { cid: galxeCampaign.cid, name: galxeCampaign.name, stringId: galxeCampaign.stringId }
+        : null,
+    }));
+  });
+}
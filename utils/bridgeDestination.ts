@@ -0,0 +1,54 @@
+import { getPublicClient } from '@wagmi/core';
+import { BaseError, ContractFunctionRevertedError } from 'viem';
+import { bridgeABI } from '@/abis';
+import { CHAIN_LIST, getChainInfo } from '@/constants/chains';
+import { scanBlockWindows } from './bridgeLogs';
+
+/**
+ * destination chains the bridge on chainId accepts. DstValidSet events since bridgeFromBlock add to the configured
+ * candidates and allowedDst confirms them, so the configured destinations are still checked when the scan is
+ * skipped or fails
+ * @param chainId - source chain
+ */
+export async function fetchBridgeDestinations(chainId: number): Promise<number[]> {
+  const { bridge, bridgeFromBlock } = getChainInfo(chainId) ?? {};
+  if (!bridge) return [];
+  const client = getPublicClient({ chainId });
+  const candidates = new Set(CHAIN_LIST.filter((item) => item.bridgeDestination).map((item) => item.id));
+  try {
+    if (bridgeFromBlock !== undefined) {
+      const logs = await scanBlockWindows(bridgeFromBlock, await client.getBlockNumber(), (fromBlock, toBlock) =>
+        client.getContractEvents({ address: bridge, abi: bridgeABI, eventName: 'DstValidSet', fromBlock, toBlock }),
+      );
+      logs.forEach(({ args }) => args.chainId !== undefined && candidates.add(Number(args.chainId)));
+    }
+  } catch {
+    // the configured candidates are still checked
+  }
+  const ids = Array.from(candidates);
+  const allowed = await Promise.all(
+    ids.map((id) => client.readContract({ address: bridge, abi: bridgeABI, functionName: 'allowedDst', args: [BigInt(id)] })),
+  );
+  return ids.filter((_, i) => allowed[i]);
+}
+
+/**
+ * destinations every source chain allows, undefined while one of them is loading
+ * @param destinations - by source chain id
+ * @param chainIds - source chains of the cart
+ */
+export function getCommonDestinations(destinations: Record<number, number[] | undefined>, chainIds: number[]) {
+  if (chainIds.some((chainId) => !destinations[chainId])) return undefined;
+  const [first = [], ...rest] = chainIds.map((chainId) => destinations[chainId] as number[]);
+  return first.filter((id) => rest.every((allowed) => allowed.includes(id)));
+}
+
+/**
+ * the bridge reverted with DstChainIdIsNotAllowed, the destination was disabled after it was loaded
+ * @param error
+ */
+export function isDstNotAllowedError(error: unknown) {
+  if (!(error instanceof BaseError)) return false;
+  const reverted = error.walk((err) => err instanceof ContractFunctionRevertedError);
+  return reverted instanceof ContractFunctionRevertedError && reverted.data?.errorName === 'DstChainIdIsNotAllowed';
+}
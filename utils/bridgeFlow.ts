@@ -0,0 +1,156 @@
+import { getNetwork, readContract, switchNetwork, waitForTransaction, writeContract } from '@wagmi/core';
+import { Address } from 'wagmi';
+import { Hash } from 'viem';
+import { badgeABI, bridgeABI } from '@/abis';
+import { getChainInfo } from '@/constants/chains';
+import { BridgeBatch, BridgeStep, BridgeStepStatus } from './bridgeCart';
+import { BridgeTxKind, BridgeTxRecord, BridgeTxStatus } from './bridgeTxs';
+
+export enum BridgePhase {
+  // nothing picked, or approvals of the picked badges still loading
+  Select = 'select',
+  // a source chain of the cart does not allow the picked destination
+  InvalidDestination = 'invalid_destination',
+  WrongNetwork = 'wrong_network',
+  NeedsRevoke = 'needs_revoke',
+  NeedsApproval = 'needs_approval',
+  Ready = 'ready',
+  Sending = 'sending',
+  Confirmed = 'confirmed',
+  Failed = 'failed',
+}
+
+/**
+ * approval of the bridges on the NFT contract of a batch
+ */
+export type BatchApproval = {
+  approved: boolean;
+  // the deprecated bridge, must be revoked before bridging
+  oldApproved: boolean;
+};
+
+export type BridgeAction =
+  | { kind: 'switch'; chainId: number }
+  | { kind: BridgeTxKind.Revoke | BridgeTxKind.Approve; batch: BridgeBatch }
+  | { kind: BridgeTxKind.Bridge; batches: BridgeBatch[] };
+
+/**
+ * chain and contract access of the bridge flow, swapped for a mock chain and contract in tests
+ */
+export interface BridgeDriver {
+  getChainId(): number | undefined;
+  switchChain(chainId: number): Promise<void>;
+  getApproval(batch: BridgeBatch, owner: Address): Promise<BatchApproval>;
+  setApproval(target: Pick<BridgeBatch, 'chainId' | 'contractAddress'>, operator: Address, approved: boolean): Promise<Hash>;
+  sendBatch(batch: BridgeBatch, receiver: Address, dstChainId: number): Promise<Hash>;
+  // resolves true when the transaction succeeded
+  waitForReceipt(chainId: number, hash: Hash): Promise<boolean>;
+}
+
+export const wagmiBridgeDriver: BridgeDriver = {
+  getChainId: () => getNetwork().chain?.id,
+  switchChain: async (chainId) => {
+    await switchNetwork({ chainId });
+  },
+  getApproval: async (batch, owner) => {
+    const { bridge, oldBridge } = getChainInfo(batch.chainId) ?? {};
+    const isApproved = (operator?: Address) =>
+      operator
+        ? readContract({
+            address: batch.contractAddress,
+            abi: badgeABI,
+            functionName: 'isApprovedForAll',
+            args: [owner, operator],
+            chainId: batch.chainId,
+          })
+        : Promise.resolve(false);
+    const [approved, oldApproved] = await Promise.all([isApproved(bridge), isApproved(oldBridge)]);
+    return { approved, oldApproved };
+  },
+  setApproval: async (batch, operator, approved) => {
+    const { hash } = await writeContract({
+      address: batch.contractAddress,
+      abi: badgeABI,
+      functionName: 'setApprovalForAll',
+      args: [operator, approved],
+      chainId: batch.chainId,
+    });
+    return hash;
+  },
+  sendBatch: async (batch, receiver, dstChainId) => {
+    const { hash } = await writeContract({
+      address: getChainInfo(batch.chainId)?.bridge as Address,
+      abi: bridgeABI,
+      functionName: 'sendBatchNFT',
+      args: [batch.contractAddress, BigInt(dstChainId), batch.tokenIds.map(BigInt), receiver],
+      chainId: batch.chainId,
+    });
+    return hash;
+  },
+  waitForReceipt: async (chainId, hash) => {
+    const receipt = await waitForTransaction({ chainId, hash });
+    return receipt.status === 'success';
+  },
+};
+
+export const getBatchKey = (batch: BridgeBatch) => `${batch.chainId}_${batch.contractAddress.toLowerCase()}`;
+
+/**
+ * where the bridge flow stands and what its primary action does next
+ * @param state.batches - batches of the cart
+ * @param state.chainId - chain the wallet is on
+ * @param state.approvals - by getBatchKey, missing while loading
+ * @param state.dstChainId - picked destination chain
+ * @param state.destinations - destinations allowed by every source chain of the cart, undefined while loading
+ * @param state.steps - transactions sent in this run
+ * @param state.txs - tracked transactions, for the receipts of the bridge steps
+ */
+export function getBridgePhase({
+  batches,
+  chainId,
+  approvals,
+  dstChainId,
+  destinations,
+  steps,
+  txs,
+}: {
+  batches: BridgeBatch[];
+  chainId?: number;
+  approvals: Record<string, BatchApproval | undefined>;
+  dstChainId: number;
+  destinations?: number[];
+  steps: BridgeStep[];
+  txs: BridgeTxRecord[];
+}): { phase: BridgePhase; action?: BridgeAction } {
+  if (steps.some((step) => step.status === BridgeStepStatus.Failed)) return { phase: BridgePhase.Failed };
+  if (steps.some((step) => step.status === BridgeStepStatus.Running)) return { phase: BridgePhase.Sending };
+
+  const bridgeSteps = steps.filter((step) => step.kind === BridgeTxKind.Bridge);
+  if (bridgeSteps.length > 0 && bridgeSteps.every((step) => step.status === BridgeStepStatus.Done)) {
+    const statuses = bridgeSteps.map((step) => txs.find((tx) => tx.hash === step.hash)?.status);
+    if (statuses.some((status) => status === BridgeTxStatus.Failed || status === BridgeTxStatus.Replaced)) {
+      return { phase: BridgePhase.Failed };
+    }
+    if (statuses.every((status) => status === BridgeTxStatus.Confirmed)) return { phase: BridgePhase.Confirmed };
+    return { phase: BridgePhase.Sending };
+  }
+
+  if (batches.length === 0 || !destinations || batches.some((batch) => !approvals[getBatchKey(batch)])) {
+    return { phase: BridgePhase.Select };
+  }
+  if (!destinations.includes(dstChainId)) return { phase: BridgePhase.InvalidDestination };
+
+  const onChain = (phase: BridgePhase, target: number, action: BridgeAction) =>
+    chainId === target
+      ? { phase, action }
+      : { phase: BridgePhase.WrongNetwork, action: { kind: 'switch' as const, chainId: target } };
+
+  const revoke = batches.find((batch) => approvals[getBatchKey(batch)]?.oldApproved);
+  if (revoke) return onChain(BridgePhase.NeedsRevoke, revoke.chainId, { kind: BridgeTxKind.Revoke, batch: revoke });
+
+  const approve = batches.find((batch) => !approvals[getBatchKey(batch)]?.approved);
+  if (approve) return onChain(BridgePhase.NeedsApproval, approve.chainId, { kind: BridgeTxKind.Approve, batch: approve });
+
+  // batches on other chains are reached by switching network while sending
+  return onChain(BridgePhase.Ready, batches[0].chainId, { kind: BridgeTxKind.Bridge, batches });
+}
@@ -0,0 +1,227 @@
+import { getPublicClient } from '@wagmi/core';
+import dayjs from 'dayjs';
+import { Address } from 'wagmi';
+import { isAddressEqual } from 'viem';
+import { bridgeABI } from '@/abis';
+import { BRIDGE_SOURCE_CHAINS, getChainName } from '@/constants/chains';
+import type { BridgeTxs } from '@/lib/badge-api';
+import { LOG_WINDOW, scanBlockWindows } from './bridgeLogs';
+import { BridgeTxKind, BridgeTxRecord, BridgeTxStatus } from './bridgeTxs';
+
+export type BridgeHistoryRow = BridgeTxs & {
+  status: BridgeTxStatus;
+  // false until badge-api has indexed the transaction
+  indexed: boolean;
+};
+
+// badge-api lags minutes behind the chain, older transactions are left to it
+export const HISTORY_LOOKBACK = LOG_WINDOW * BigInt(20);
+
+export type OnChainBridgeHistory = {
+  txs: BridgeTxs[];
+  // unix time from which every chain was scanned, missing when each was scanned from its deployment block
+  since?: number;
+};
+
+/**
+ * rebuild the recent bridge transactions of address from the SendNFT events of the bridge on chainId,
+ * `from` is not indexed so every event of the contract in the range is scanned
+ * @param chainId
+ * @param address
+ */
+async function fetchChainBridgeTxs(chainId: number, address: Address): Promise<OnChainBridgeHistory> {
+  const { bridge, bridgeFromBlock = BigInt(0) } = BRIDGE_SOURCE_CHAINS.find((item) => item.id === chainId) ?? {};
+  if (!bridge) return { txs: [] };
+  const client = getPublicClient({ chainId });
+  const toBlock = await client.getBlockNumber();
+  const isCut = toBlock - HISTORY_LOOKBACK > bridgeFromBlock;
+  const fromBlock = isCut ? toBlock - HISTORY_LOOKBACK : bridgeFromBlock;
+  const logs = await scanBlockWindows(fromBlock, toBlock, (from, to) =>
+    client.getContractEvents({ address: bridge, abi: bridgeABI, eventName: 'SendNFT', fromBlock: from, toBlock: to }),
+  );
+  const sent = logs.filter((log) => log.args.from && isAddressEqual(log.args.from, address));
+  if (!sent.length && !isCut) return { txs: [] };
+
+  // logs carry no time, it is interpolated between the ends of the range and replaced by the local record if any
+  const [first, last] = await Promise.all([
+    client.getBlock({ blockNumber: fromBlock }),
+    client.getBlock({ blockNumber: toBlock }),
+  ]);
+  const since = isCut ? Number(first.timestamp) : undefined;
+  const blockTime = toBlock > fromBlock ? Number(last.timestamp - first.timestamp) / Number(toBlock - fromBlock) : 0;
+  const getTimestamp = (blockNumber: bigint | null) =>
+    Math.round(Number(last.timestamp) - Number(toBlock - (blockNumber ?? toBlock)) * blockTime);
+
+  const txs = new Map<string, BridgeTxs>();
+  for (const log of sent) {
+    if (!log.transactionHash) continue;
+    const tx = txs.get(log.transactionHash) ?? {
+      hash: log.transactionHash,
+      chainId: String(chainId),
+      dstChainId: log.args.dstChainId !== undefined ? Number(log.args.dstChainId) : null,
+      timestamp: getTimestamp(log.blockNumber),
+      galxeBadges: [],
+    };
+    // the event only carries ids, names and images come from badge-api or the local record
+    tx.galxeBadges.push({ tokenId: Number(log.args.tokenId), image: '', galxeCampaign: null });
+    txs.set(log.transactionHash, tx);
+  }
+  return { txs: Array.from(txs.values()), since };
+}
+
+/**
+ * recent bridge transactions of address on every source chain, read from the chain instead of badge-api.
+ * a chain whose rpc fails is left out
+ * @param address
+ */
+export async function fetchOnChainBridgeHistory(address: Address): Promise<OnChainBridgeHistory> {
+  const results = await Promise.allSettled(BRIDGE_SOURCE_CHAINS.map((chain) => fetchChainBridgeTxs(chain.id, address)));
+  const histories = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+  const starts = histories.flatMap(({ since }) => (since !== undefined ? [since] : []));
+  return { txs: histories.flatMap(({ txs }) => txs), since: starts.length ? Math.max(...starts) : undefined };
+}
+
+/**
+ * a confirmed bridge sent from this browser is missing from badge-api
+ * @param indexed
+ * @param local
+ */
+export function isHistoryBehind(indexed: BridgeTxs[], local: BridgeTxRecord[]) {
+  const hashes = new Set(indexed.map((tx) => tx.hash.toLowerCase()));
+  return local.some(
+    (tx) => tx.kind === BridgeTxKind.Bridge && tx.status === BridgeTxStatus.Confirmed && !hashes.has(tx.hash.toLowerCase()),
+  );
+}
+
+/**
+ * merge badge-api history with on-chain events and transactions sent from this browser, newest first.
+ * badge-api wins for the same hash, the local record fills in badge names the events do not carry
+ * @param indexed
+ * @param onChain
+ * @param local
+ */
+export function mergeBridgeHistory(indexed: BridgeTxs[], onChain: BridgeTxs[], local: BridgeTxRecord[]): BridgeHistoryRow[] {
+  const rows = new Map<string, BridgeHistoryRow>();
+  const localBridges = new Map(local.filter((tx) => tx.kind === BridgeTxKind.Bridge).map((tx) => [tx.hash.toLowerCase(), tx]));
+
+  for (const tx of indexed) {
+    const key = tx.hash.toLowerCase();
+    // badge-api leaves it empty for transactions indexed before destinations were selectable
+    const dstChainId = tx.dstChainId ?? localBridges.get(key)?.dstChainId ?? null;
+    rows.set(key, { ...tx, dstChainId, status: BridgeTxStatus.Confirmed, indexed: true });
+  }
+  for (const tx of onChain) {
+    const key = tx.hash.toLowerCase();
+    if (rows.has(key)) continue;
+    const record = localBridges.get(key);
+    rows.set(key, {
+      ...tx,
+      timestamp: record?.timestamp ?? tx.timestamp,
+      galxeBadges: record?.galxeBadges?.length ? record.galxeBadges : tx.galxeBadges,
+      status: BridgeTxStatus.Confirmed,
+      indexed: false,
+    });
+  }
+  localBridges.forEach((tx, key) => {
+    if (rows.has(key)) return;
+    rows.set(key, {
+      hash: tx.hash,
+      chainId: String(tx.chainId),
+      dstChainId: tx.dstChainId ?? null,
+      timestamp: tx.timestamp,
+      galxeBadges: tx.galxeBadges ?? [],
+      status: tx.status,
+      indexed: false,
+    });
+  });
+
+  return Array.from(rows.values()).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export type BridgeHistoryFilter = {
+  chainId?: number;
+  // campaign stringId
+  campaign?: string;
+  // YYYY-MM-DD, inclusive
+  from?: string;
+  to?: string;
+};
+
+/**
+ * campaigns bridged in the history, for the campaign filter
+ * @param rows
+ */
+export function getHistoryCampaigns(rows: BridgeHistoryRow[]) {
+  const campaigns = new Map<string, string>();
+  rows.forEach((row) =>
+    row.galxeBadges.forEach(({ galxeCampaign }) => {
+      galxeCampaign?.stringId && campaigns.set(galxeCampaign.stringId, galxeCampaign.name);
+    }),
+  );
+  return Array.from(campaigns, ([stringId, name]) => ({ stringId, name }));
+}
+
+/**
+ * @param rows
+ * @param filter
+ */
+export function filterBridgeHistory(rows: BridgeHistoryRow[], { chainId, campaign, from, to }: BridgeHistoryFilter) {
+  const start = from ? dayjs(from).startOf('day').unix() : -Infinity;
+  const end = to ? dayjs(to).endOf('day').unix() : Infinity;
+  return rows.filter(
+    (row) =>
+      (!chainId || Number(row.chainId) === chainId) &&
+      (!campaign || row.galxeBadges.some((badge) => badge.galxeCampaign?.stringId === campaign)) &&
+      row.timestamp >= start &&
+      row.timestamp <= end,
+  );
+}
+
+// one entry per bridged badge, so PL rewards can be matched badge by badge
+const toHistoryRecords = (rows: BridgeHistoryRow[]) =>
+  rows.flatMap((row) =>
+    row.galxeBadges.map((badge) => ({
+      time: dayjs.unix(row.timestamp).toISOString(),
+      chain: getChainName(row.chainId),
+      chainId: Number(row.chainId),
+      destination: row.dstChainId ? getChainName(row.dstChainId) : '',
+      hash: row.hash,
+      status: row.status,
+      indexed: row.indexed,
+      tokenId: badge.tokenId,
+      campaignId: badge.galxeCampaign?.stringId ?? '',
+      campaign: badge.galxeCampaign?.name ?? '',
+    })),
+  );
+
+const escapeCsv = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * @param rows
+ */
+export function toHistoryCsv(rows: BridgeHistoryRow[]) {
+  const records = toHistoryRecords(rows);
+  const header = [
+    'time',
+    'chain',
+    'chainId',
+    'destination',
+    'hash',
+    'status',
+    'indexed',
+    'tokenId',
+    'campaignId',
+    'campaign',
+  ] as const;
+  return [header.join(','), ...records.map((record) => header.map((key) => escapeCsv(record[key])).join(','))].join('\n');
+}
+
+/**
+ * @param rows
+ */
+export function toHistoryJson(rows: BridgeHistoryRow[]) {
+  return JSON.stringify(toHistoryRecords(rows), null, 2);
+}
@@ -0,0 +1,39 @@
+import { groupBy } from 'lodash-es';
+import { CatalogBadge, GalxeBadge, getActiveBadges } from '@/constants';
+
+export type BadgeInventory = {
+  // grouped badges per chain, community chains sorted by chain id descending
+  community: GalxeBadge[][];
+  ama: GalxeBadge[][];
+  // community badges not held, shown greyed out
+  missing: CatalogBadge[];
+};
+
+/**
+ * one badge per campaign on a chain, carrying the count and tokenIds of the campaign
+ * @param badges - badges of a single chain
+ */
+const groupByCampaign = (badges: GalxeBadge[]): GalxeBadge[] =>
+  Object.values(groupBy(badges, (badge) => badge.galxeCampaign?.stringId)).map((campaignBadges) => ({
+    ...campaignBadges[0],
+    count: campaignBadges.length,
+    tokenIds: campaignBadges.map((badge) => badge.tokenId),
+  }));
+
+/**
+ * group held badges by chain and campaign for the bridge inventory
+ * @param badges - badges from badge-api, one per token
+ */
+export function groupBadgeInventory(badges: GalxeBadge[]): BadgeInventory {
+  const communityBadges = badges.filter((badge) => badge.galxeCampaign?.campaignType === 'Community');
+  const amaBadges = badges.filter((badge) => badge.galxeCampaign?.campaignType === 'AMA');
+  const heldCampaigns = communityBadges.map((badge) => badge.galxeCampaign?.stringId);
+
+  const community = Object.values(groupBy(communityBadges, (badge) => badge.chainId))
+    .map(groupByCampaign)
+    .sort((a, b) => (b[0]?.chainId || 0) - (a[0]?.chainId || 0));
+  const ama = Object.values(groupBy(amaBadges, (badge) => badge.chainId)).map(groupByCampaign);
+  const missing = getActiveBadges('Community').filter((item) => !heldCampaigns.includes(item.stringId));
+
+  return { community, ama, missing };
+}
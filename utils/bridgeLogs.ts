@@ -0,0 +1,21 @@
+// public rpcs reject eth_getLogs over a few thousand blocks
+export const LOG_WINDOW = BigInt(5000);
+
+/**
+ * run scan over fromBlock..toBlock one window of LOG_WINDOW blocks at a time, oldest first
+ * @param fromBlock
+ * @param toBlock - inclusive
+ * @param scan - e.g. getContractEvents of the window
+ */
+export async function scanBlockWindows<T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  scan: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+): Promise<T[]> {
+  const results: T[] = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_WINDOW) {
+    const end = start + LOG_WINDOW - BigInt(1);
+    results.push(...(await scan(start, end < toBlock ? end : toBlock)));
+  }
+  return results;
+}
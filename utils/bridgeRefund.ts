@@ -0,0 +1,112 @@
+import { getPublicClient } from '@wagmi/core';
+import { Address } from 'wagmi';
+import { Log, decodeEventLog, formatUnits, isAddressEqual } from 'viem';
+import { bridgeABI } from '@/abis';
+import type { GalxeBadge } from '@/constants';
+import { getChainInfo } from '@/constants/chains';
+import { scanBlockWindows } from './bridgeLogs';
+
+// usdRefund amounts are set and emitted in wei-like units
+export const USD_REFUND_DECIMALS = 18;
+
+export type BridgeRefund = {
+  pl: number;
+  usd: number;
+};
+
+/**
+ * refund per campaign id, as last set by PlRefundSet and UsdRefundSet
+ */
+export type RefundConfig = {
+  pl: Record<number, number>;
+  usd: Record<number, number>;
+};
+
+export const EMPTY_REFUND: BridgeRefund = { pl: 0, usd: 0 };
+
+export const addRefund = (a: BridgeRefund, b: BridgeRefund): BridgeRefund => ({ pl: a.pl + b.pl, usd: a.usd + b.usd });
+
+export const isSameRefund = (a: BridgeRefund, b: BridgeRefund) => a.pl === b.pl && Math.abs(a.usd - b.usd) < 0.005;
+
+/**
+ * power level of a badge before the refund configuration is known
+ * @param rarity
+ */
+export const calculatePLByRarity = (rarity?: string) => {
+  switch (rarity) {
+    case 'White':
+      return 12;
+    case 'Green':
+      return 120;
+    case 'Blue':
+      return 240;
+    case 'Purple':
+      return 600;
+    default:
+      return 0;
+  }
+};
+
+function applyRefundSets(logs: { args: { cids?: readonly bigint[]; amounts?: readonly bigint[] } }[], decimals: number) {
+  const refunds: Record<number, number> = {};
+  for (const { args } of logs) {
+    args.cids?.forEach((cid, i) => {
+      refunds[Number(cid)] = Number(formatUnits(args.amounts?.[i] ?? BigInt(0), decimals));
+    });
+  }
+  return refunds;
+}
+
+/**
+ * replay the refund configuration events of the bridge on chainId from its deployment block, later events
+ * override earlier ones. Without bridgeFromBlock nothing is scanned and the preview keeps its rarity estimate
+ * @param chainId
+ */
+export async function fetchRefundConfig(chainId: number): Promise<RefundConfig> {
+  const { bridge, bridgeFromBlock } = getChainInfo(chainId) ?? {};
+  if (!bridge || bridgeFromBlock === undefined) return { pl: {}, usd: {} };
+  const client = getPublicClient({ chainId });
+  const [plLogs, usdLogs] = await Promise.all(
+    (['PlRefundSet', 'UsdRefundSet'] as const).map(async (eventName) =>
+      scanBlockWindows(bridgeFromBlock, await client.getBlockNumber(), (fromBlock, toBlock) =>
+        client.getContractEvents({ address: bridge, abi: bridgeABI, eventName, fromBlock, toBlock }),
+      ),
+    ),
+  );
+  return { pl: applyRefundSets(plLogs, 0), usd: applyRefundSets(usdLogs, USD_REFUND_DECIMALS) };
+}
+
+/**
+ * refund of one badge, estimated from its rarity when the configuration is not loaded
+ * @param config
+ * @param badge
+ */
+export function getBadgeRefund(config: RefundConfig | undefined, badge: GalxeBadge) {
+  const cid = badge.galxeCampaign?.cid;
+  if (!config || cid === undefined || config.pl[cid] === undefined) {
+    return { pl: calculatePLByRarity(badge.galxeCampaign?.rarity), usd: 0, estimated: true };
+  }
+  return { pl: config.pl[cid], usd: config.usd[cid] ?? 0, estimated: false };
+}
+
+/**
+ * sum the BurnAndRefund events of the bridge in a transaction receipt
+ * @param logs
+ * @param bridge
+ */
+export function sumBurnAndRefund(logs: Log[], bridge: Address): BridgeRefund {
+  return logs
+    .filter((log) => isAddressEqual(log.address, bridge))
+    .reduce((sum, log) => {
+      try {
+        const { eventName, args } = decodeEventLog({ abi: bridgeABI, data: log.data, topics: log.topics });
+        if (eventName !== 'BurnAndRefund') return sum;
+        return addRefund(sum, {
+          pl: Number(args.plRefund),
+          usd: Number(formatUnits(args.usdRefund, USD_REFUND_DECIMALS)),
+        });
+      } catch {
+        return sum;
+      }
+    }, EMPTY_REFUND);
+}
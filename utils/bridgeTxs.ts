@@ -0,0 +1,60 @@
+import { Address } from 'wagmi';
+import { STORAGE_KEY } from '@/constants';
+import type { BridgeTxs } from '@/lib/badge-api';
+import { getLocalStorage, setLocalStorage } from '@/utils/storage';
+import type { BridgeRefund } from './bridgeRefund';
+
+export enum BridgeTxKind {
+  Approve = 'approve',
+  Revoke = 'revoke',
+  Bridge = 'bridge',
+}
+
+export enum BridgeTxStatus {
+  Pending = 'pending',
+  Confirmed = 'confirmed',
+  Failed = 'failed',
+  // dropped for another transaction with the same nonce
+  Replaced = 'replaced',
+}
+
+export type BridgeTxRecord = {
+  hash: `0x${string}`;
+  kind: BridgeTxKind;
+  chainId: number;
+  // unix seconds, same as the badge-api history
+  timestamp: number;
+  status: BridgeTxStatus;
+  // bridged badges, in the shape of the badge-api history
+  galxeBadges?: BridgeTxs['galxeBadges'];
+  // chain the badges are bridged to
+  dstChainId?: number;
+  // refund previewed before sending, and the one emitted by BurnAndRefund once confirmed
+  expectedRefund?: BridgeRefund;
+  refund?: BridgeRefund;
+};
+
+// settled transactions are kept a day so failed and replaced ones stay visible in the history
+const SETTLED_RETENTION = 86400;
+
+/**
+ * 获取钱包的桥接交易记录
+ * @param address
+ */
+export function getBridgeTxs(address: Address): BridgeTxRecord[] {
+  const all = getLocalStorage<Record<string, BridgeTxRecord[]>>(STORAGE_KEY.BRIDGE_TXS) ?? {};
+  const now = Date.now() / 1000;
+  return (all[address.toLowerCase()] ?? []).filter(
+    (tx) => tx.status === BridgeTxStatus.Pending || now - tx.timestamp < SETTLED_RETENTION,
+  );
+}
+
+/**
+ * 保存钱包的桥接交易记录
+ * @param address
+ * @param txs
+ */
+export function setBridgeTxs(address: Address, txs: BridgeTxRecord[]) {
+  const all = getLocalStorage<Record<string, BridgeTxRecord[]>>(STORAGE_KEY.BRIDGE_TXS) ?? {};
+  setLocalStorage(STORAGE_KEY.BRIDGE_TXS, { ...all, [address.toLowerCase()]: txs });
+}
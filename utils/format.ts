@@ -1,3 +1,5 @@
+import { getLocale } from '@/i18n';
+
 function getNum(value?: string | number) {
   const num = value || 0;
   return typeof num === 'string' ? Number(num) : num;
@@ -5,32 +7,32 @@ function getNum(value?: string | number) {
 
 export const digitalFormat = {
   integer(value?: string | number) {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getLocale(), {
       style: 'decimal',
       maximumFractionDigits: 0,
     }).format(getNum(value));
   },
   decimal(value?: string | number, fractionDigits?: number) {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getLocale(), {
       style: 'decimal',
       maximumFractionDigits: fractionDigits,
     }).format(getNum(value));
   },
   significant(value?: string | number, significantDigits?: number) {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getLocale(), {
       style: 'decimal',
       useGrouping: false,
       maximumSignificantDigits: significantDigits,
     }).format(getNum(value));
   },
   currency(value?: string | number) {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getLocale(), {
       maximumFractionDigits: 2,
       minimumFractionDigits: 0,
     }).format(getNum(value));
   },
   percent(value?: string | number) {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getLocale(), {
       style: 'percent',
     }).format(getNum(value));
   },
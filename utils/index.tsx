@@ -4,6 +4,7 @@ import { isMobile } from 'react-device-detect';
 import { toast } from 'react-toastify';
 import { getAddress } from 'viem';
 import Message from '../components/message';
+import { translate } from '../i18n';
 
 export function isAddress(value: any): string | false {
   try {
@@ -62,7 +63,7 @@ export const openLink = (url: string) => {
   } else {
     const winRef = window.open(url, '_blank');
     if (!winRef) {
-      toast.error(<Message message="Please allow popups for this website." title="Ah shit, here we go again" />);
+      toast.error(<Message message={translate('toast.allowPopups')} title={translate('toast.errorTitle')} />);
     }
   }
 };
@@ -125,6 +126,15 @@ export const downloadImage = (data: string) => {
   downloadLink.click();
 };
 
+export const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const downloadLink = document.createElement('a');
+  downloadLink.href = url;
+  downloadLink.download = filename;
+  downloadLink.click();
+  URL.revokeObjectURL(url);
+};
+
 export const objectSortByKey = (obj: any): any => {
   const newKey = Object.keys(obj).sort();
   const newObj: any = {};
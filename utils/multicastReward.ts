@@ -0,0 +1,63 @@
+import type { MessageKey } from '@/i18n';
+import type { ArcanaInviteesVote, PredictionItemData } from '@/lib/types';
+
+/**
+ * votes of the other winners a payout is projected under
+ */
+export type WinnerScenario = {
+  label: MessageKey;
+  otherVotes: number;
+};
+
+// multiples of the current winner votes
+const SCENARIOS: [MessageKey, number][] = [
+  ['multicast.scenarioHalf', 0.5],
+  ['multicast.scenarioCurrent', 1],
+  ['multicast.scenarioTwice', 2],
+  ['multicast.scenarioCrowded', 4],
+];
+
+// multiples of the wallet votes, while no other winner has voted
+const SOLO_SCENARIOS: [MessageKey, number][] = [
+  ['multicast.scenarioAlone', 0],
+  ['multicast.scenarioMatched', 1],
+  ['multicast.scenarioDouble', 2],
+  ['multicast.scenarioCrowded', 4],
+];
+
+/**
+ * share of the pool a winner takes, every winner is paid in proportion to their votes
+ * @param pool - prize pool in USD
+ * @param myVotes
+ * @param otherVotes - votes of the other winners
+ */
+export const projectPayout = (pool: number, myVotes: number, otherVotes: number) =>
+  myVotes > 0 ? (pool * myVotes) / (myVotes + Math.max(otherVotes, 0)) : 0;
+
+/**
+ * votes of the other winners of a prediction, totalWinnerVotes counts the wallet once it holds a vote share
+ * @param prediction
+ * @param myVotes
+ */
+export const getOtherWinnerVotes = (prediction: Pick<PredictionItemData, 'totalWinnerVotes' | 'votesShare'>, myVotes: number) =>
+  Math.max((prediction.totalWinnerVotes || 0) - (prediction.votesShare ? myVotes : 0), 0);
+
+/**
+ * @param otherVotes - votes of the other winners as it stands
+ * @param myVotes - the scenarios scale with them while there are no other winner votes
+ * @returns empty while neither has votes
+ */
+export function getWinnerScenarios(otherVotes: number, myVotes: number): WinnerScenario[] {
+  const [scenarios, base] = otherVotes > 0 ? [SCENARIOS, otherVotes] : [SOLO_SCENARIOS, myVotes];
+  if (base <= 0) return [];
+  return scenarios.map(([label, multiple]) => ({ label, otherVotes: Math.round(base * multiple) }));
+}
+
+/**
+ * votes one more referral is expected to bring, the average of the current invitees
+ * @param votesReferral - votesReferralCurrent of the wallet
+ * @param invitees
+ * @returns undefined until the wallet has an invitee
+ */
+export const getVotesPerReferral = (votesReferral: number, invitees?: ArcanaInviteesVote[]) =>
+  invitees?.length ? votesReferral / invitees.length : undefined;
@@ -0,0 +1,230 @@
+import dayjs from 'dayjs';
+import { PREDICTION_TYPE } from '@/components/arcana/PredictionItemDialog';
+import { HERO_ATTRIBUTE, PredictionItemData, PredictionOption } from '@/lib/types';
+import { DEFAULT_PICK_COUNT } from './predictionScoring';
+
+/**
+ * a problem in an authored prediction set
+ */
+export type PredictionIssue = {
+  // e.g. `[0].optionList[2].img1`
+  path: string;
+  message: string;
+};
+
+const STRING_FIELDS = [
+  'predictionCode',
+  'predictionTitle',
+  'predictionFull',
+  'sponsorName',
+  'sponsorLogo',
+  'meme',
+  'taskRequired',
+  'taskUrl',
+] as const;
+const NUMBER_FIELDS = ['releaseDate', 'endDate', 'currentPrice', 'maxPrice', 'totalWinnerVotes'] as const;
+
+// option fields each layout of PredictionItemDialog renders
+const OPTION_FIELDS: Record<PREDICTION_TYPE, (keyof PredictionOption)[]> = {
+  [PREDICTION_TYPE.TEAM]: ['team'],
+  [PREDICTION_TYPE.PLAYER]: ['team', 'name'],
+  [PREDICTION_TYPE.HERO]: ['name', 'attr'],
+  [PREDICTION_TYPE.CARD]: [],
+  [PREDICTION_TYPE.RANGE]: ['min', 'max'],
+  [PREDICTION_TYPE.RANKED]: ['name'],
+};
+
+const PREDICTION_TYPES = Object.values(PREDICTION_TYPE) as string[];
+const HERO_ATTRIBUTES = Object.values(HERO_ATTRIBUTE).filter((value) => typeof value === 'number');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function validateOption(option: unknown, path: string, type?: PREDICTION_TYPE): PredictionIssue[] {
+  if (!isRecord(option)) return [{ path, message: 'must be an object' }];
+  const issues: PredictionIssue[] = [];
+  if (typeof option.id !== 'number') issues.push({ path: `${path}.id`, message: 'must be a number' });
+  // img1 shows in the dialog, img2 on the card once picked, range buckets show their bounds instead
+  (type === PREDICTION_TYPE.RANGE ? [] : ['img1', 'img2']).forEach((key) => {
+    if (typeof option[key] !== 'string' || !option[key])
+      issues.push({ path: `${path}.${key}`, message: 'image url is required' });
+  });
+  (type ? OPTION_FIELDS[type] : []).forEach((key) => {
+    if (key === 'attr') {
+      if (!HERO_ATTRIBUTES.includes(option.attr as number)) {
+        issues.push({ path: `${path}.attr`, message: `must be a HERO_ATTRIBUTE (${HERO_ATTRIBUTES.join(', ')})` });
+      }
+    } else if (key === 'min' || key === 'max') {
+      if (typeof option[key] !== 'number')
+        issues.push({ path: `${path}.${key}`, message: `is required for ${type} predictions` });
+    } else if (typeof option[key] !== 'string' || !option[key]) {
+      issues.push({ path: `${path}.${key}`, message: `is required for ${type} predictions` });
+    }
+  });
+  return issues;
+}
+
+/**
+ * check one prediction against PredictionItemData and what its layout renders
+ * @param item
+ * @param path - prefix of the issue paths
+ */
+export function validatePrediction(item: unknown, path = ''): PredictionIssue[] {
+  if (!isRecord(item)) return [{ path: path || '.', message: 'must be an object' }];
+  const issues: PredictionIssue[] = [];
+  const at = (key: string) => `${path}.${key}`;
+
+  STRING_FIELDS.forEach((key) => {
+    if (typeof item[key] !== 'string') issues.push({ path: at(key), message: 'must be a string' });
+  });
+  NUMBER_FIELDS.forEach((key) => {
+    if (typeof item[key] !== 'number') issues.push({ path: at(key), message: 'must be a number' });
+  });
+  ['predictionCode', 'predictionTitle'].forEach((key) => {
+    if (item[key] === '') issues.push({ path: at(key), message: 'must not be empty' });
+  });
+  if (typeof item.ifLock !== 'boolean') issues.push({ path: at('ifLock'), message: 'must be a boolean' });
+  if (item.ifLock && (!item.taskRequired || !item.taskUrl)) {
+    issues.push({ path: at('taskRequired'), message: 'locked predictions need taskRequired and taskUrl' });
+  }
+  if (typeof item.releaseDate === 'number' && typeof item.endDate === 'number' && item.releaseDate >= item.endDate) {
+    issues.push({ path: at('endDate'), message: 'must be after releaseDate' });
+  }
+
+  const type = PREDICTION_TYPES.includes(item.optionType as string) ? (item.optionType as PREDICTION_TYPE) : undefined;
+  if (!type) issues.push({ path: at('optionType'), message: `must be one of ${PREDICTION_TYPES.join(', ')}` });
+
+  if (!Array.isArray(item.optionList) || item.optionList.length === 0) {
+    issues.push({ path: at('optionList'), message: 'must be a non-empty array' });
+  } else {
+    item.optionList.forEach((option, index) => issues.push(...validateOption(option, at(`optionList[${index}]`), type)));
+    const ids = item.optionList.map((option) => (isRecord(option) ? option.id : undefined));
+    ids.forEach((id, index) => {
+      if (ids.indexOf(id) !== index) issues.push({ path: at(`optionList[${index}].id`), message: `duplicate option id ${id}` });
+    });
+    // adjacent buckets get partial credit, so they must be listed in order
+    if (type === PREDICTION_TYPE.RANGE) {
+      let previous = -Infinity;
+      item.optionList.forEach((option, index) => {
+        if (!isRecord(option) || typeof option.min !== 'number' || typeof option.max !== 'number') return;
+        if (option.min > option.max) issues.push({ path: at(`optionList[${index}].max`), message: 'must not be below min' });
+        if (option.min <= previous) {
+          issues.push({ path: at(`optionList[${index}].min`), message: 'buckets must be ascending and not overlap' });
+        }
+        previous = option.max;
+      });
+    }
+  }
+
+  let pickCount: number | undefined = 1;
+  if (type === PREDICTION_TYPE.RANKED) {
+    const optionCount = Array.isArray(item.optionList) ? item.optionList.length : 0;
+    const value = item.pickCount ?? DEFAULT_PICK_COUNT;
+    pickCount = typeof value === 'number' && Number.isInteger(value) && value >= 2 && value <= optionCount ? value : undefined;
+    if (!pickCount) issues.push({ path: at('pickCount'), message: `must be an integer from 2 to the ${optionCount} options` });
+  }
+
+  ['answer', 'correctAnswer'].forEach((key) => {
+    const value = item[key];
+    if (value === undefined && key === 'answer') return;
+    if (!Array.isArray(value)) {
+      issues.push({ path: at(key), message: 'must be an array' });
+      return;
+    }
+    if (pickCount && value.length > 0 && value.length !== pickCount) {
+      issues.push({ path: at(key), message: `must hold ${pickCount} ${pickCount > 1 ? 'options' : 'option'}` });
+    }
+    value.forEach((option, index) => {
+      const known =
+        isRecord(option) &&
+        Array.isArray(item.optionList) &&
+        item.optionList.some((listed) => isRecord(listed) && listed.id === option.id);
+      if (!known) issues.push({ path: at(`${key}[${index}]`), message: 'must be an option of optionList' });
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * parse and check an authored prediction set, the predictions are returned only when it has no issue
+ * @param json - a PredictionItemData array
+ */
+export function parsePredictionSet(json: string): { predictions?: PredictionItemData[]; issues: PredictionIssue[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    return { issues: [{ path: '.', message: (e as Error).message }] };
+  }
+  if (!Array.isArray(value)) return { issues: [{ path: '.', message: 'must be an array of predictions' }] };
+
+  const issues = value.flatMap((item, index) => validatePrediction(item, `[${index}]`));
+  const codes = value.map((item) => (isRecord(item) ? item.predictionCode : undefined));
+  codes.forEach((code, index) => {
+    if (codes.indexOf(code) !== index) issues.push({ path: `[${index}].predictionCode`, message: `duplicate code ${code}` });
+  });
+
+  return issues.length ? { issues } : { predictions: value as PredictionItemData[], issues };
+}
+
+// local placeholders, the authored set points img1 and img2 at the real option art
+const PLACEHOLDER = { img1: '/img/p12.png', img2: '/img/p12.png' };
+
+const TEMPLATE_OPTIONS: Record<PREDICTION_TYPE, PredictionOption[]> = {
+  [PREDICTION_TYPE.TEAM]: [
+    { id: 1, team: 'Team Spirit', ...PLACEHOLDER },
+    { id: 2, team: 'Tundra', ...PLACEHOLDER },
+  ],
+  [PREDICTION_TYPE.PLAYER]: [
+    { id: 1, team: 'Team Spirit', name: 'Yatoro', ...PLACEHOLDER },
+    { id: 2, team: 'Tundra', name: 'Nine', ...PLACEHOLDER },
+  ],
+  [PREDICTION_TYPE.HERO]: [
+    { id: 1, name: 'Pudge', attr: HERO_ATTRIBUTE.STRENGTH, ...PLACEHOLDER },
+    { id: 2, name: 'Anti-Mage', attr: HERO_ATTRIBUTE.AGILITY, ...PLACEHOLDER },
+    { id: 3, name: 'Invoker', attr: HERO_ATTRIBUTE.INTELLIGENCE, ...PLACEHOLDER },
+  ],
+  [PREDICTION_TYPE.CARD]: [
+    { id: 1, ...PLACEHOLDER },
+    { id: 2, ...PLACEHOLDER },
+  ],
+  [PREDICTION_TYPE.RANGE]: [
+    { id: 1, min: 0, max: 40, img1: '', img2: '' },
+    { id: 2, min: 41, max: 60, img1: '', img2: '' },
+    { id: 3, min: 61, max: 80, img1: '', img2: '' },
+    { id: 4, min: 81, max: 999, img1: '', img2: '' },
+  ],
+  [PREDICTION_TYPE.RANKED]: [
+    { id: 1, name: 'Team Spirit', ...PLACEHOLDER },
+    { id: 2, name: 'Tundra', ...PLACEHOLDER },
+    { id: 3, name: 'Gaimin Gladiators', ...PLACEHOLDER },
+    { id: 4, name: 'Team Liquid', ...PLACEHOLDER },
+  ],
+};
+
+/**
+ * a valid prediction of a type to start authoring from
+ * @param type
+ * @param code - predictionCode, unique in the set
+ */
+export const createPredictionTemplate = (type: PREDICTION_TYPE, code: string): PredictionItemData => ({
+  predictionCode: code,
+  releaseDate: dayjs().startOf('day').valueOf(),
+  endDate: dayjs().startOf('day').add(7, 'day').valueOf(),
+  optionType: type,
+  correctAnswer: [],
+  predictionTitle: `New ${type} prediction`,
+  predictionFull: 'Describe what is predicted',
+  sponsorName: 'P12',
+  sponsorLogo: 'https://cdn1.p12.games/airdrop/img/p12_logo.png',
+  meme: '',
+  currentPrice: 0,
+  totalWinnerVotes: 0,
+  maxPrice: 0,
+  taskRequired: '',
+  taskUrl: '',
+  ifLock: false,
+  optionList: TEMPLATE_OPTIONS[type],
+  ...(type === PREDICTION_TYPE.RANKED && { pickCount: DEFAULT_PICK_COUNT }),
+});
@@ -0,0 +1,100 @@
+import { STORAGE_KEY } from '@/constants';
+import type { PredictionItemData, PredictionOption } from '@/lib/types';
+import type { PredictionAnswer } from '@/store/arcana/state';
+import { getLocalStorage, setLocalStorage } from '@/utils/storage';
+
+export enum PredictionRound {
+  TI11 = 'ti11',
+  OMG = 'omg',
+}
+
+// picks not submitted yet, by predictionCode
+export type PredictionDrafts = Record<string, PredictionOption[]>;
+
+/**
+ * a prediction in the review before submitting
+ */
+export type PredictionDraftDiff = {
+  prediction: PredictionItemData;
+  draft?: PredictionOption[];
+  submitted?: PredictionOption[];
+  // the draft differs from the submitted answer
+  changed: boolean;
+  // endDate has passed, the draft can no longer be submitted
+  expired: boolean;
+};
+
+const getDraftKey = (address: string, round: PredictionRound) => `${round}_${address.toLowerCase()}`;
+
+/**
+ * 获取钱包在一轮预测中未提交的选择
+ * @param address
+ * @param round
+ */
+export function getPredictionDrafts(address: string, round: PredictionRound): PredictionDrafts {
+  const all = getLocalStorage<Record<string, PredictionDrafts>>(STORAGE_KEY.PREDICTION_DRAFTS) ?? {};
+  return all[getDraftKey(address, round)] ?? {};
+}
+
+/**
+ * 保存钱包在一轮预测中未提交的选择
+ * @param address
+ * @param round
+ * @param drafts - an empty object removes the round
+ */
+export function setPredictionDrafts(address: string, round: PredictionRound, drafts: PredictionDrafts) {
+  const all = getLocalStorage<Record<string, PredictionDrafts>>(STORAGE_KEY.PREDICTION_DRAFTS) ?? {};
+  const key = getDraftKey(address, round);
+  if (Object.keys(drafts).length) all[key] = drafts;
+  else delete all[key];
+  setLocalStorage(STORAGE_KEY.PREDICTION_DRAFTS, all);
+}
+
+/**
+ * @param address
+ * @param round
+ * @param predictionCode
+ * @param answer - the pick made in the prediction dialog
+ */
+export const savePredictionDraft = (
+  address: string,
+  round: PredictionRound,
+  predictionCode: string,
+  answer: PredictionOption[],
+) => setPredictionDrafts(address, round, { ...getPredictionDrafts(address, round), [predictionCode]: answer });
+
+/**
+ * submitted answers with the drafts laid over them
+ * @param answers - from the predictions api
+ * @param drafts
+ */
+export const applyPredictionDrafts = (answers: PredictionAnswer[], drafts: PredictionDrafts): PredictionAnswer[] =>
+  answers.map((item) => (drafts[item.predictionCode] ? { ...item, answer: drafts[item.predictionCode] } : item));
+
+export const isSameAnswer = (a?: PredictionOption[], b?: PredictionOption[]) =>
+  (a ?? []).map((option) => option.id).join() === (b ?? []).map((option) => option.id).join();
+
+/**
+ * draft pick versus submitted answer of every prediction the wallet has a draft for
+ * @param predictions - from the predictions api, `answer` is the submitted one
+ * @param answers - answers in the store, drafts applied
+ * @param now - timestamp in ms
+ */
+export function diffPredictionDrafts(
+  predictions: PredictionItemData[],
+  answers: PredictionAnswer[],
+  now = Date.now(),
+): PredictionDraftDiff[] {
+  return predictions
+    .map((prediction) => {
+      const draft = answers.find((item) => item.predictionCode === prediction.predictionCode)?.answer;
+      return {
+        prediction,
+        draft,
+        submitted: prediction.answer,
+        changed: !!draft?.length && !isSameAnswer(draft, prediction.answer),
+        expired: prediction.endDate <= now,
+      };
+    })
+    .filter((diff) => diff.changed);
+}
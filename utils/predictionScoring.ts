@@ -0,0 +1,66 @@
+import { sum } from 'lodash-es';
+import { PREDICTION_TYPE } from '@/components/arcana/PredictionItemDialog';
+import type { PredictionItemData, PredictionOption } from '@/lib/types';
+
+// ranked picks that made the top but not at their rank
+export const RANKED_MISPLACED_CREDIT = 0.5;
+// range buckets next to the correct one
+export const RANGE_ADJACENT_CREDIT = 0.5;
+
+export const DEFAULT_PICK_COUNT = 3;
+
+/**
+ * options a prediction takes as its answer
+ * @param prediction
+ */
+export const getPickCount = (prediction: Pick<PredictionItemData, 'optionType' | 'pickCount'>) =>
+  prediction.optionType === PREDICTION_TYPE.RANKED ? prediction.pickCount ?? DEFAULT_PICK_COUNT : 1;
+
+/**
+ * label of an option, range buckets without a name show their bounds
+ * @param option
+ */
+export function getOptionLabel(option: PredictionOption) {
+  const label = [option.team, option.name].filter(Boolean).join(' ');
+  if (label) return label;
+  if (option.min !== undefined || option.max !== undefined) {
+    if (option.max === undefined) return `${option.min}+`;
+    if (option.min === undefined) return `≤ ${option.max}`;
+    return option.min === option.max ? `${option.min}` : `${option.min} - ${option.max}`;
+  }
+  return `#${option.id}`;
+}
+
+/**
+ * share of the answer that is correct, partial credit for ranked and range predictions
+ * @param prediction
+ * @returns from 0 to 1, undefined until the prediction is settled
+ */
+export function getPredictionScore(
+  prediction: Pick<PredictionItemData, 'optionType' | 'optionList' | 'answer' | 'correctAnswer'>,
+): number | undefined {
+  const { optionType, optionList, answer, correctAnswer } = prediction;
+  if (!correctAnswer.length) return undefined;
+  if (!answer?.length) return 0;
+
+  if (optionType === PREDICTION_TYPE.RANKED) {
+    const credits = correctAnswer.map((correct, rank) => {
+      const pick = answer[rank];
+      if (!pick) return 0;
+      if (pick.id === correct.id) return 1;
+      return correctAnswer.some((item) => item.id === pick.id) ? RANKED_MISPLACED_CREDIT : 0;
+    });
+    return sum(credits) / correctAnswer.length;
+  }
+
+  if (optionType === PREDICTION_TYPE.RANGE) {
+    const index = (option: PredictionOption) => optionList.findIndex((item) => item.id === option.id);
+    const [picked, correct] = [index(answer[0]), index(correctAnswer[0])];
+    if (picked < 0 || correct < 0) return 0;
+    const distance = Math.abs(picked - correct);
+    if (distance === 0) return 1;
+    return distance === 1 ? RANGE_ADJACENT_CREDIT : 0;
+  }
+
+  return correctAnswer.some((item) => item.id === answer[0].id) ? 1 : 0;
+}
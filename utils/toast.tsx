@@ -1,6 +1,8 @@
 import Message from '@/components/message';
 import ToastIcon from '@/components/svg/ToastIcon';
 import { toast } from 'react-toastify';
+import { ApiError, ApiErrorKind } from '@/lib/result';
+import { MessageKey, translate } from '@/i18n';
 
 export const toastStatus = (type: 'loading' | 'success' | 'error' | 'close', title: string | null, toastId: string) => {
   switch (type) {
@@ -38,3 +40,34 @@ export const toastStatus = (type: 'loading' | 'success' | 'error' | 'close', tit
       });
   }
 };
+
+const API_ERROR_TITLE: Record<ApiErrorKind, MessageKey> = {
+  [ApiErrorKind.Http]: 'apiError.httpTitle',
+  [ApiErrorKind.Business]: 'apiError.businessTitle',
+  [ApiErrorKind.Network]: 'apiError.networkTitle',
+  [ApiErrorKind.Timeout]: 'apiError.timeoutTitle',
+};
+
+const API_ERROR_MESSAGE: Record<ApiErrorKind, MessageKey> = {
+  [ApiErrorKind.Http]: 'apiError.httpMessage',
+  [ApiErrorKind.Business]: 'apiError.businessMessage',
+  [ApiErrorKind.Network]: 'apiError.networkMessage',
+  [ApiErrorKind.Timeout]: 'apiError.timeoutMessage',
+};
+
+/**
+ * show an ApiError as an error toast, the server message is only trusted for business and 4xx errors
+ * @param error
+ * @param title - overrides the default title of the error kind
+ */
+export const toastApiError = (error: ApiError, title?: string) => {
+  const isClientError =
+    error.kind === ApiErrorKind.Business || (error.kind === ApiErrorKind.Http && (error.status ?? 500) < 500);
+  const message = isClientError && error.message ? error.message : translate(API_ERROR_MESSAGE[error.kind]);
+  toast.error(<Message title={title ?? translate(API_ERROR_TITLE[error.kind])} message={message} />);
+};
+
+export const toastSessionExpired = () =>
+  toast.info(<Message title={translate('session.expiredTitle')} message={translate('session.expiredMessage')} />, {
+    toastId: 'session_expired',
+  });